@@ -4,9 +4,14 @@
  * Make payment-enabled HTTP requests with policy enforcement
  */
 
-import { AgentPayClient } from '../src/client';
+import { AgentPayClient, PaymentBlockedError } from '../src/client';
 import { checkBalance } from '../src/balance';
 import { NetworkName, DEFAULT_POLICY } from '../src/config';
+import { EXPORT_FORMATS } from '../src/receipt-export';
+import type { ExportColumn, ExportFormat } from '../src/receipt-export';
+import type { ReceiptFilter, SpendGrouping } from '../src/receipts';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
 
 const args = process.argv.slice(2);
 
@@ -16,9 +21,20 @@ x402-agent-pay CLI
 
 Usage:
   x402-fetch.ts <url> [options]          Make a payment-enabled request
-  x402-fetch.ts balance <wallet>         Check USDC balance
+  x402-fetch.ts balance <wallet>         Check token balance (USDC unless --asset)
   x402-fetch.ts status                   Show spending status
-  x402-fetch.ts history [limit]          Show payment history
+  x402-fetch.ts history [limit]          Show payment history (newest first)
+  x402-fetch.ts export                   Export receipts (CSV unless --format)
+  x402-fetch.ts compact                  Move old receipts into monthly archives
+  x402-fetch.ts verify-log               Check the receipt log for tampering
+  x402-fetch.ts reconcile                Check paid receipts against their transactions on chain
+  x402-fetch.ts recover                  Resolve payments a crash or lost response left pending
+  x402-fetch.ts reliability              Paid and paid-but-failed requests per service
+  x402-fetch.ts disputes [open|resolved] List disputed payments
+  x402-fetch.ts dispute <action> <id> [text]
+                                         Open, note or resolve a dispute over a paid request
+  x402-fetch.ts freeze [reason]          Block all payments until unfrozen
+  x402-fetch.ts unfreeze                 Lift a freeze
 
 Options:
   --method <METHOD>     HTTP method (default: GET)
@@ -28,6 +44,44 @@ Options:
   --skip-policy         Skip policy checks (dangerous!)
   --max-per-tx <USD>    Override max per transaction (default: ${DEFAULT_POLICY.maxPerTransaction})
   --daily-limit <USD>   Override daily limit (default: ${DEFAULT_POLICY.dailyLimit})
+  --policy-file <PATH>  Load policy from a JSON/YAML file (overrides limit flags)
+  --state-dir <DIR>     Directory for spending.json and receipts.json
+  --cooldown <MINUTES>  With unfreeze: keep blocking payments for this long
+  --asset <SYMBOL>      With balance: token to check, e.g. EURC (default: USDC)
+  --tag <TAG>           Tag the payment for policy rules (repeatable)
+  --trace-id <ID>       Record this agent task/trace id on the receipt
+  --idempotency-key <KEY>
+                        Key for the request; a key that already paid is refused
+  --timeout <SECONDS>   Abort each HTTP request after this long
+  --retries <N>         Retry failures that are safe to retry (default: 0)
+  --recheck             With reconcile: check confirmed receipts again
+  --refund-tx <HASH>    With dispute resolve: transaction that refunded the payment
+
+History options:
+  --from, --to <DATE>   Only payments in this range (ISO date or time)
+  --status <STATUS>     success, paid_failed, failed, pending, blocked or awaiting_approval
+  --network <NETWORK>   Only payments on this network
+  --recipient <ADDR>    Only payments to this address
+  --host <HOST>         Only requests to this host (subdomains included)
+  --min, --max <USD>    Only payments worth at least / at most this much
+  --tag <TAG>           Only payments with this tag (repeatable: any of them)
+  --scope <NAME>        Only payments made in this budget scope
+  --trace-id <ID>       Only payments made with this trace id
+  --idempotency-key <KEY>
+                        Only tries of the request with this key
+  --dispute <STATE>     Only payments with an open or resolved dispute
+  --cursor <ID>         Continue from the previous page
+  --group-by <KEY>      Total spending by day, month, recipient, host or network
+
+Export options (the history filters apply too):
+  --format <FORMAT>     csv, jsonl, ofx or qif (default: csv)
+  --columns <LIST>      CSV/JSONL columns, comma-separated (e.g. id,timestamp,valueUsd)
+  --out <PATH>          Write to a file instead of stdout
+
+Compact options:
+  --hot-days <DAYS>     Archive settled receipts older than this
+  --max-hot-mb <MB>     Archive the oldest settled receipts while hot storage is larger
+  --archive-dir <DIR>   Where archives go (default: archive/ next to receipts.json)
 
 Environment:
   WALLET_PRIVATE_KEY    Required: Your wallet private key (0x...)
@@ -39,11 +93,52 @@ Examples:
   # Check balance on Base
   x402-fetch.ts balance 0xYourWallet --network base
 
+  # Check EURC balance
+  x402-fetch.ts balance 0xYourWallet --asset EURC
+
   # Custom limits
   x402-fetch.ts https://api.example.com/data --max-per-tx 5 --daily-limit 50
+
+  # Spending per host since January 1
+  x402-fetch.ts history --from 2026-01-01 --group-by host
+
+  # A provider took payment and returned a 500
+  x402-fetch.ts dispute open 5c1e... "HTTP 500 after payment"
+  x402-fetch.ts dispute resolve 5c1e... "Refunded by support" --refund-tx 0xabc...
+
+  # Last month's payments for bookkeeping
+  x402-fetch.ts export --format qif --from 2026-09-01 --to 2026-10-01 --out september.qif
 `);
 }
 
+function option(name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx > -1 ? args[idx + 1] : undefined;
+}
+
+/**
+ * Receipt filters from the history options
+ */
+function receiptFilter(): ReceiptFilter {
+  const number = (name: string) => option(name) !== undefined ? parseFloat(option(name)!) : undefined;
+  const tags = args.flatMap((arg, i) => arg === '--tag' && args[i + 1] ? [args[i + 1]] : []);
+  return {
+    from: option('--from'),
+    to: option('--to'),
+    status: option('--status') as ReceiptFilter['status'],
+    network: option('--network') as NetworkName | undefined,
+    recipient: option('--recipient'),
+    host: option('--host'),
+    minAmount: number('--min'),
+    maxAmount: number('--max'),
+    tags: tags.length > 0 ? tags : undefined,
+    scope: option('--scope'),
+    traceId: option('--trace-id'),
+    idempotencyKey: option('--idempotency-key'),
+    dispute: option('--dispute') as ReceiptFilter['dispute'],
+  };
+}
+
 async function main() {
   if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
     printUsage();
@@ -58,6 +153,12 @@ async function main() {
 
   const command = args[0];
 
+  const policyFileIdx = args.indexOf('--policy-file');
+  const policyFile = policyFileIdx > -1 ? args[policyFileIdx + 1] : undefined;
+
+  const stateDirIdx = args.indexOf('--state-dir');
+  const stateDir = stateDirIdx > -1 ? args[stateDirIdx + 1] : undefined;
+
   // Balance command
   if (command === 'balance') {
     const wallet = args[1];
@@ -67,41 +168,267 @@ async function main() {
     }
     const networkIdx = args.indexOf('--network');
     const network = (networkIdx > -1 ? args[networkIdx + 1] : 'base') as NetworkName;
+    const assetIdx = args.indexOf('--asset');
+    const asset = assetIdx > -1 ? args[assetIdx + 1] : 'USDC';
     
-    const result = await checkBalance(wallet, network);
+    const result = await checkBalance(wallet, network, undefined, asset);
     console.log(`\n💰 Balance for ${wallet} on ${network}:`);
-    console.log(`   ${result.balanceUsdc} USDC`);
+    console.log(`   ${result.balance} ${result.symbol}`);
     return;
   }
 
   // Status command
   if (command === 'status') {
-    const client = new AgentPayClient({ privateKey: privateKey! });
+    const client = new AgentPayClient({ privateKey: privateKey!, policyFile, stateDir, watchPolicyFile: false, recoverOnStart: false });
     const status = client.getSpendingStatus();
     console.log('\n📊 Spending Status:');
     console.log(`   Today: $${status.daily.spent.toFixed(2)} spent (${status.daily.transactions} transactions)`);
     console.log(`   Remaining: $${status.daily.remaining.toFixed(2)} of $${status.policy.dailyLimit.toFixed(2)} daily limit`);
     console.log(`   Max per tx: $${status.policy.maxPerTransaction.toFixed(2)}`);
+    for (const [network, usage] of Object.entries(status.networks)) {
+      const limit = usage.daily.limit !== undefined ? ` of $${usage.daily.limit.toFixed(2)}` : '';
+      console.log(`   ${network}: $${usage.daily.spent.toFixed(2)}${limit} today, $${usage.monthly.spent.toFixed(2)} this month`);
+    }
+    if (status.frozen) {
+      console.log(`   🧊 FROZEN by ${status.frozen.frozenBy} at ${new Date(status.frozen.frozenAt).toISOString()}: ${status.frozen.reason}`);
+      if (status.frozen.resumesAt) console.log(`      resumes at ${new Date(status.frozen.resumesAt).toISOString()}`);
+    }
+    const freezeHistory = client.getFreezeHistory().slice(-5);
+    if (freezeHistory.length > 0) {
+      console.log('\n🧾 Recent freeze activity:');
+      for (const e of freezeHistory) {
+        console.log(`   ${new Date(e.at).toISOString()} | ${e.action} by ${e.by}${e.reason ? ` — ${e.reason}` : ''}`);
+      }
+    }
+    return;
+  }
+
+  // Freeze command
+  if (command === 'freeze') {
+    const reason = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+    const client = new AgentPayClient({ privateKey: privateKey!, policyFile, stateDir, watchPolicyFile: false, recoverOnStart: false });
+    const frozen = client.freeze(reason, 'cli');
+    console.log(`\n🧊 Payments frozen: ${frozen.reason}`);
+    return;
+  }
+
+  // Unfreeze command
+  if (command === 'unfreeze') {
+    const cooldownIdx = args.indexOf('--cooldown');
+    const cooldownMs = cooldownIdx > -1 ? parseFloat(args[cooldownIdx + 1]) * 60 * 1000 : undefined;
+    const client = new AgentPayClient({ privateKey: privateKey!, policyFile, stateDir, watchPolicyFile: false, recoverOnStart: false });
+    if (!client.unfreeze('cli', { cooldownMs })) {
+      console.log('\nPayments are not frozen.');
+    } else if (cooldownMs) {
+      console.log(`\n⏳ Payments resume at ${new Date(Date.now() + cooldownMs).toISOString()}`);
+    } else {
+      console.log('\n✅ Payments unfrozen');
+    }
     return;
   }
 
   // History command
   if (command === 'history') {
     const limit = parseInt(args[1]) || 10;
-    const client = new AgentPayClient({ privateKey: privateKey! });
-    const history = client.getHistory(limit);
+    const filter = receiptFilter();
+    const client = new AgentPayClient({ privateKey: privateKey!, stateDir, recoverOnStart: false });
+
+    const groupBy = option('--group-by') as SpendGrouping | undefined;
+    if (groupBy) {
+      if (!['day', 'month', 'recipient', 'host', 'network'].includes(groupBy)) {
+        console.error('Error: --group-by must be day, month, recipient, host or network');
+        process.exit(1);
+      }
+      const groups = client.getSpendBreakdown(groupBy, filter);
+      console.log(`\n📊 Spending by ${groupBy}:`);
+      if (groups.length === 0) {
+        console.log('   No payments match.');
+      }
+      for (const g of groups) {
+        console.log(`   ${g.key.padEnd(44)} $${g.total.toFixed(2).padStart(10)}  (${g.count} payment${g.count === 1 ? '' : 's'})`);
+      }
+      return;
+    }
+
+    const page = client.queryHistory({ ...filter, limit, cursor: option('--cursor') });
     
-    console.log(`\n📜 Last ${limit} payments:`);
-    if (history.length === 0) {
+    console.log(`\n📜 ${page.receipts.length} of ${page.total} payments:`);
+    if (page.receipts.length === 0) {
       console.log('   No payments recorded yet.');
     } else {
-      for (const r of history) {
-        const status = r.status === 'success' ? '✅' : r.status === 'blocked' ? '🚫' : '⏳';
-        console.log(`   ${status} ${r.timestamp} | ${r.amount} USDC | ${r.url.substring(0, 50)}...`);
+      for (const r of page.receipts) {
+        const status = r.status === 'success' ? '✅' : r.status === 'paid_failed' ? '⚠️' : r.status === 'blocked' ? '🚫' : '⏳';
+        console.log(`   ${status} ${r.timestamp} | ${r.amount} ${r.currency} | ${r.url.substring(0, 50)}...`);
         if (r.txHash) console.log(`      tx: ${r.txHash}`);
-        if (r.blockReason) console.log(`      reason: ${r.blockReason}`);
+        if (r.failureReason) console.log(`      paid but failed: ${r.failureReason}`);
+        if (r.dispute) console.log(`      dispute: ${r.dispute.status} — ${r.dispute.reason}`);
+        if (r.blockReason) console.log(`      reason: ${r.blockReason}${r.blockRule ? ` (rule: ${r.blockRule})` : ''}`);
       }
     }
+    if (page.nextCursor) {
+      console.log(`\n   More: history ${limit} --cursor ${page.nextCursor}`);
+    }
+    return;
+  }
+
+  // Export receipts command
+  if (command === 'export') {
+    const format = (option('--format') ?? 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      console.error(`Error: --format must be ${EXPORT_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    const columns = option('--columns')?.split(',').map(c => c.trim()) as ExportColumn[] | undefined;
+    const out = option('--out');
+    const client = new AgentPayClient({ privateKey: privateKey!, stateDir, recoverOnStart: false });
+
+    try {
+      await pipeline(
+        client.streamReceipts({ ...receiptFilter(), format, columns }),
+        out ? createWriteStream(out) : process.stdout
+      );
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    if (out) console.error(`\n📤 Exported receipts to ${out}`);
+    return;
+  }
+
+  // Compact receipts command
+  if (command === 'compact') {
+    const hotDays = option('--hot-days') !== undefined ? parseFloat(option('--hot-days')!) : undefined;
+    const maxHotMb = option('--max-hot-mb') !== undefined ? parseFloat(option('--max-hot-mb')!) : undefined;
+    if (hotDays === undefined && maxHotMb === undefined) {
+      console.error('Error: --hot-days or --max-hot-mb is required');
+      process.exit(1);
+    }
+    const client = new AgentPayClient({
+      privateKey: privateKey!,
+      stateDir,
+      recoverOnStart: false,
+      retention: {
+        hotDays,
+        maxHotBytes: maxHotMb !== undefined ? maxHotMb * 1024 * 1024 : undefined,
+        archiveDir: option('--archive-dir'),
+      },
+    });
+    const result = client.compactReceipts();
+
+    console.log(`\n🗄️  Archived ${result.archived} receipts, ${result.hot} left in hot storage`);
+    if (result.months.length > 0) console.log(`   Months: ${result.months.join(', ')}`);
+    return;
+  }
+
+  // Verify receipt log command
+  if (command === 'verify-log') {
+    const client = new AgentPayClient({ privateKey: privateKey!, stateDir, recoverOnStart: false });
+    const result = client.verifyReceiptLog();
+
+    if (result.valid) {
+      console.log(`\n✅ Receipt log intact (${result.entries} entries, signed by ${client.getAddress()})`);
+      return;
+    }
+    const { broken } = result;
+    console.log(`\n❌ Receipt log broken: ${broken!.message}`);
+    if (broken!.seq !== undefined) console.log(`   Entry: ${broken!.seq}`);
+    if (broken!.receiptId) console.log(`   Receipt: ${broken!.receiptId}`);
+    console.log(`   Problem: ${broken!.problem}`);
+    process.exit(1);
+  }
+
+  // Reconcile receipts command
+  if (command === 'reconcile') {
+    const client = new AgentPayClient({ privateKey: privateKey!, stateDir, recoverOnStart: false });
+    const report = await client.reconcileReceipts({ recheck: args.includes('--recheck') });
+
+    console.log(`\n🔎 Checked ${report.checked} paid receipts`);
+    console.log(`   Confirmed: ${report.confirmed}`);
+    console.log(`   Mismatch: ${report.mismatch}`);
+    console.log(`   Not found: ${report.notFound}`);
+    if (report.errors > 0) console.log(`   Lookup failed: ${report.errors}`);
+    for (const result of report.results.filter(r => r.status !== 'confirmed')) {
+      console.log(`\n${result.status === 'error' ? '⚠️ ' : '❌'} ${result.receiptId} (${result.status})`);
+      console.log(`   URL: ${result.url}`);
+      if (result.txHash) console.log(`   TX: ${result.txHash} on ${result.network}`);
+      for (const discrepancy of result.discrepancies) console.log(`   - ${discrepancy}`);
+    }
+    if (report.discrepancies.length > 0 || report.errors > 0) process.exit(1);
+    return;
+  }
+
+  // Recover pending payments command
+  if (command === 'recover') {
+    const client = new AgentPayClient({ privateKey: privateKey!, policyFile, stateDir, watchPolicyFile: false, recoverOnStart: false });
+    const report = await client.recoverPayments();
+
+    console.log(`\n🩹 Checked ${report.checked} pending payments`);
+    console.log(`   Settled: ${report.settled}`);
+    console.log(`   Failed: ${report.failed}`);
+    console.log(`   Unresolved: ${report.unresolved}`);
+    for (const result of report.results.filter(r => r.outcome === 'unresolved')) {
+      console.log(`\n⏳ ${result.receiptId} (${result.from})`);
+      console.log(`   ${result.reason}`);
+    }
+    return;
+  }
+
+  // Service reliability command
+  if (command === 'reliability') {
+    const client = new AgentPayClient({ privateKey: privateKey!, stateDir, recoverOnStart: false });
+    const services = client.getServiceReliability(receiptFilter());
+
+    console.log('\n📶 Service reliability:');
+    if (services.length === 0) {
+      console.log('   No paid requests yet.');
+    }
+    for (const s of services) {
+      const latency = s.averageLatencyMs !== undefined ? `, ${s.averageLatencyMs}ms avg` : '';
+      console.log(`   ${s.host.padEnd(40)} ${s.failed}/${s.paid} failed (${(s.failureRate * 100).toFixed(1)}%)${latency}`);
+      if (s.openDisputes > 0 || s.refunded > 0) console.log(`      disputes: ${s.openDisputes} open, ${s.refunded} refunded`);
+    }
+    return;
+  }
+
+  // List disputes command
+  if (command === 'disputes') {
+    const state = args[1] === 'open' || args[1] === 'resolved' ? args[1] : undefined;
+    const client = new AgentPayClient({ privateKey: privateKey!, stateDir, recoverOnStart: false });
+    const disputed = client.getDisputes(state);
+
+    console.log(`\n⚖️  ${disputed.length} dispute${disputed.length === 1 ? '' : 's'}:`);
+    for (const r of disputed) {
+      const d = r.dispute!;
+      console.log(`   ${d.status === 'open' ? '🔴' : '🟢'} ${r.id} | ${r.amount} ${r.currency} | ${r.url.substring(0, 50)}`);
+      console.log(`      opened ${d.openedAt}: ${d.reason}`);
+      for (const note of d.notes ?? []) console.log(`      ${note.at}: ${note.text}`);
+      if (d.resolvedAt) console.log(`      resolved ${d.resolvedAt}${d.resolution ? `: ${d.resolution}` : ''}${d.refundTxHash ? ` (refund ${d.refundTxHash})` : ''}`);
+    }
+    return;
+  }
+
+  // Dispute command
+  if (command === 'dispute') {
+    const [action, id] = [args[1], args[2]];
+    const text = args[3] && !args[3].startsWith('--') ? args[3] : undefined;
+    if (!['open', 'note', 'resolve'].includes(action) || !id) {
+      console.error('Error: usage: dispute <open|note|resolve> <receipt id> [text]');
+      process.exit(1);
+    }
+    const client = new AgentPayClient({ privateKey: privateKey!, stateDir, recoverOnStart: false });
+    const receipt = action === 'open'
+      ? client.openDispute(id, text ?? 'Disputed via CLI', 'cli')
+      : action === 'note'
+        ? client.addDisputeNote(id, text ?? '', 'cli')
+        : client.resolveDispute(id, { refundTxHash: option('--refund-tx'), resolution: text, resolvedBy: 'cli' });
+
+    if (!receipt) {
+      console.error(action === 'open'
+        ? `Error: no paid receipt without an open dispute with id ${id}`
+        : `Error: no open dispute on receipt ${id}`);
+      process.exit(1);
+    }
+    console.log(`\n⚖️  Dispute ${receipt.dispute!.status} on ${receipt.id}`);
     return;
   }
 
@@ -118,6 +445,8 @@ async function main() {
   const networkIdx = args.indexOf('--network');
   const network = (networkIdx > -1 ? args[networkIdx + 1] : 'base') as NetworkName;
   
+  const tags = args.flatMap((arg, i) => arg === '--tag' && args[i + 1] ? [args[i + 1]] : []);
+
   const dryRun = args.includes('--dry-run');
   const skipPolicy = args.includes('--skip-policy');
 
@@ -129,7 +458,9 @@ async function main() {
 
   console.log(`[x402] Requesting: ${method} ${url}`);
   console.log(`[x402] Network: ${network}`);
-  console.log(`[x402] Policy: max $${maxPerTransaction}/tx, $${dailyLimit}/day`);
+  console.log(policyFile
+    ? `[x402] Policy: ${policyFile}`
+    : `[x402] Policy: max $${maxPerTransaction}/tx, $${dailyLimit}/day`);
 
   const client = new AgentPayClient({
     privateKey: privateKey!,
@@ -138,25 +469,66 @@ async function main() {
       maxPerTransaction,
       dailyLimit,
     },
+    policyFile,
+    watchPolicyFile: false,
+    stateDir,
     onPayment: (receipt) => {
-      console.log(`\n✅ Payment successful!`);
-      console.log(`   Amount: ${receipt.amount} USDC`);
+      console.log(receipt.status === 'paid_failed'
+        ? `\n⚠️  Paid, but the server failed: ${receipt.failureReason}`
+        : `\n✅ Payment successful!`);
+      console.log(`   Amount: ${receipt.amount} ${receipt.currency}`);
       console.log(`   Recipient: ${receipt.recipient}`);
       if (receipt.txHash) console.log(`   TX: ${receipt.txHash}`);
+      if (receipt.response) console.log(`   Response: ${receipt.response.status} in ${receipt.response.latencyMs}ms`);
     },
     onBlocked: (reason) => {
       console.log(`\n🚫 Payment blocked: ${reason}`);
     },
   });
 
+  const init: RequestInit = {
+    method,
+    body,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+  };
+
+  if (dryRun) {
+    const quote = await client.dryRun(url, init, { tags });
+    if (!quote.paymentRequired) {
+      console.log('\n[x402] No payment required');
+      return;
+    }
+
+    console.log(`\n--- Dry Run ---`);
+    if (quote.selected) {
+      console.log(`Amount:    ${quote.amount} ${quote.currency}${quote.currency !== 'USDC' && quote.valueUsd !== undefined ? ` (~$${quote.valueUsd.toFixed(2)})` : ''}`);
+      console.log(`Recipient: ${quote.recipient}`);
+      console.log(`Network:   ${quote.network}`);
+    }
+    console.log(`Verdict:   ${quote.allowed ? '✅ allowed' : `🚫 blocked — ${quote.reason}${quote.block ? ` [${quote.block.code}]` : ''}`}`);
+    if (quote.requiresApproval) console.log('Approval:  required');
+    for (const e of quote.evaluated || []) {
+      if (e.outcome === 'not-matched' || e.outcome === 'passed') continue;
+      console.log(`Rule:      ${e.rule} — ${e.outcome}${e.reason ? `: ${e.reason}` : ''}`);
+    }
+    console.log(`Remaining: $${quote.remaining.daily.toFixed(2)} today after this payment`);
+    for (const { option, reason } of quote.rejected) {
+      console.log(`Skipped:   ${option.amount} ${option.symbol} on ${option.networkId} — ${reason}`);
+    }
+    return;
+  }
+
   try {
-    const response = await client.fetch(url, {
-      method,
-      body,
-      headers: body ? { 'Content-Type': 'application/json' } : undefined,
-    }, {
+    const timeout = option('--timeout');
+    const retries = option('--retries');
+    const response = await client.fetch(url, init, {
       network,
       skipPolicyCheck: skipPolicy,
+      tags,
+      traceId: option('--trace-id'),
+      idempotencyKey: option('--idempotency-key'),
+      timeoutMs: timeout !== undefined ? parseFloat(timeout) * 1000 : undefined,
+      retry: retries !== undefined ? { attempts: parseInt(retries, 10) + 1 } : undefined,
     });
 
     console.log(`[x402] Response: ${response.status} ${response.statusText}`);
@@ -167,8 +539,10 @@ async function main() {
     if (text.length > 2000) console.log('... (truncated)');
     
   } catch (error: any) {
-    if (error.name === 'PaymentBlockedError') {
+    if (error instanceof PaymentBlockedError) {
       console.error(`\n🚫 Payment blocked by policy: ${error.message}`);
+      console.error(`   code: ${error.code}${error.rule ? `, rule: ${error.rule}` : ''}`);
+      if (error.retryAfter) console.error(`   retry after: ${new Date(error.retryAfter).toISOString()}`);
       process.exit(1);
     }
     throw error;
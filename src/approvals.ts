@@ -0,0 +1,147 @@
+/**
+ * Human-in-the-loop Payment Approval
+ * Holds payments at or above autoApproveUnder until a person signs off
+ *
+ * Pending requests are stored as `awaiting_approval` receipts, so they show
+ * up in history, survive restarts, and can be decided from another process
+ * sharing the same storage (e.g., the MCP server). A request nobody decides
+ * is denied when it times out.
+ */
+
+import { PaymentApproval, PaymentReceipt } from './config';
+import { ReceiptStore } from './receipts';
+
+/** Default time to wait for a decision before denying */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** How often waiters re-read storage for decisions made by other processes */
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Queue of payments awaiting approval, backed by the receipt store
+ */
+export class ApprovalQueue {
+  private receipts: ReceiptStore;
+  private pollIntervalMs: number;
+  /** Wake-up hooks for in-process waiters, keyed by receipt id */
+  private waiters = new Map<string, () => void>();
+
+  constructor(receipts: ReceiptStore, pollIntervalMs = POLL_INTERVAL_MS) {
+    this.receipts = receipts;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * Record a payment as awaiting approval
+   */
+  request(
+    details: Omit<PaymentReceipt, 'id' | 'timestamp' | 'status' | 'approval'>,
+    timeoutMs = DEFAULT_APPROVAL_TIMEOUT_MS
+  ): PaymentReceipt {
+    const now = Date.now();
+    return this.receipts.createReceipt({
+      ...details,
+      status: 'awaiting_approval',
+      approval: {
+        requestedAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + timeoutMs).toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Payments currently awaiting a decision (timed-out requests are denied first)
+   */
+  pending(): PaymentReceipt[] {
+    for (const receipt of this.receipts.getByStatus('awaiting_approval')) {
+      if (this.isExpired(receipt)) {
+        this.decide(receipt.id, 'timeout', 'system');
+      }
+    }
+    return this.receipts.getByStatus('awaiting_approval');
+  }
+
+  /**
+   * Approve a pending payment. Returns null if it isn't awaiting approval.
+   */
+  approve(id: string, decidedBy = 'manual', note?: string): PaymentReceipt | null {
+    return this.decide(id, 'approved', decidedBy, note);
+  }
+
+  /**
+   * Deny a pending payment. Returns null if it isn't awaiting approval.
+   */
+  deny(id: string, decidedBy = 'manual', note?: string): PaymentReceipt | null {
+    return this.decide(id, 'denied', decidedBy, note);
+  }
+
+  /**
+   * Wait until a request is decided or times out.
+   * Resolves with the decided receipt: status 'pending' when approved,
+   * 'blocked' when denied or timed out. Null if the receipt disappeared.
+   */
+  wait(id: string): Promise<PaymentReceipt | null> {
+    return new Promise(resolve => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (receipt: PaymentReceipt | null) => {
+        clearTimeout(timer);
+        this.waiters.delete(id);
+        resolve(receipt);
+      };
+
+      const check = () => {
+        clearTimeout(timer);
+        const receipt = this.receipts.getById(id);
+        if (!receipt) return finish(null);
+        if (receipt.status !== 'awaiting_approval') return finish(receipt);
+        if (this.isExpired(receipt)) {
+          return finish(this.decide(id, 'timeout', 'system') ?? this.receipts.getById(id) ?? null);
+        }
+
+        const remaining = Date.parse(receipt.approval!.expiresAt) - Date.now();
+        timer = setTimeout(check, Math.min(this.pollIntervalMs, remaining));
+      };
+
+      this.waiters.set(id, check);
+      check();
+    });
+  }
+
+  private isExpired(receipt: PaymentReceipt): boolean {
+    return !receipt.approval || Date.parse(receipt.approval.expiresAt) <= Date.now();
+  }
+
+  private decide(
+    id: string,
+    decision: NonNullable<PaymentApproval['decision']>,
+    decidedBy: string,
+    note?: string
+  ): PaymentReceipt | null {
+    // Checked and written under the storage lock, so a decision made by
+    // another process at the same moment can't be overwritten
+    const updated = this.receipts.updateReceiptIf(id, receipt => receipt.status === 'awaiting_approval', receipt => {
+      const approval: PaymentApproval = {
+        ...receipt.approval!,
+        decision,
+        decidedAt: new Date().toISOString(),
+        decidedBy,
+        note,
+      };
+      return decision === 'approved'
+        ? { status: 'pending', approval }
+        : {
+            status: 'blocked',
+            approval,
+            blockReason: decision === 'timeout'
+              ? 'Approval timed out'
+              : `Approval denied${note ? `: ${note}` : ''}`,
+            blockCode: decision === 'timeout' ? 'APPROVAL_TIMEOUT' : 'APPROVAL_DENIED',
+          };
+    });
+    if (!updated) return null;
+
+    this.waiters.get(id)?.();
+    return updated;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Asset Registry
+ * Tokens the wallet can pay with, per network
+ *
+ * x402's `exact` scheme on EVM signs an EIP-3009 transferWithAuthorization,
+ * so only tokens implementing EIP-3009 can be paid with. USDC and EURC are
+ * registered out of the box; add others with registerAsset().
+ */
+
+import { NetworkName, USDC_ADDRESSES } from './config';
+import { USDC_DECIMALS } from './money';
+
+/**
+ * A token on a specific network
+ */
+export interface AssetInfo {
+  symbol: string;
+  name: string;
+  network: NetworkName;
+  address: `0x${string}`;
+  decimals: number;
+  /**
+   * Currency the token tracks. 'USD' tokens count 1:1 against dollar
+   * limits; others need a rate in policy.assetRates.
+   */
+  peggedTo?: string;
+}
+
+/**
+ * An amount of a specific asset, in that asset's atomic units
+ */
+export interface AssetAmount {
+  amountRaw: bigint;
+  asset: AssetInfo;
+}
+
+// EURC addresses per network (Circle)
+export const EURC_ADDRESSES: Partial<Record<NetworkName, `0x${string}`>> = {
+  base: '0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42',
+  ethereum: '0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c',
+  baseSepolia: '0x808456652fdb597867f38412077A9182bf77359F',
+};
+
+const registry = new Map<string, AssetInfo>();
+
+function registryKey(network: NetworkName, address: string): string {
+  return `${network}:${address.toLowerCase()}`;
+}
+
+/**
+ * Add (or replace) a token in the registry
+ */
+export function registerAsset(asset: AssetInfo): void {
+  registry.set(registryKey(asset.network, asset.address), asset);
+}
+
+/**
+ * Look up a token by contract address
+ */
+export function getAsset(network: NetworkName, address: string): AssetInfo | undefined {
+  return registry.get(registryKey(network, address));
+}
+
+/**
+ * Look up a token by symbol (case-insensitive) or contract address
+ */
+export function findAsset(network: NetworkName, symbolOrAddress: string): AssetInfo | undefined {
+  if (symbolOrAddress.startsWith('0x')) {
+    return getAsset(network, symbolOrAddress);
+  }
+  const symbol = symbolOrAddress.toUpperCase();
+  return listAssets(network).find(a => a.symbol.toUpperCase() === symbol);
+}
+
+/**
+ * All registered tokens, optionally for one network
+ */
+export function listAssets(network?: NetworkName): AssetInfo[] {
+  const assets = [...registry.values()];
+  return network ? assets.filter(a => a.network === network) : assets;
+}
+
+for (const [network, address] of Object.entries(USDC_ADDRESSES) as [NetworkName, `0x${string}`][]) {
+  registerAsset({ symbol: 'USDC', name: 'USD Coin', network, address, decimals: USDC_DECIMALS, peggedTo: 'USD' });
+}
+
+for (const [network, address] of Object.entries(EURC_ADDRESSES) as [NetworkName, `0x${string}`][]) {
+  registerAsset({ symbol: 'EURC', name: 'EURC', network, address, decimals: 6, peggedTo: 'EUR' });
+}
@@ -4,6 +4,8 @@
 
 import { createPublicClient, http, formatUnits } from 'viem';
 import { CHAINS, USDC_ADDRESSES, NetworkName } from './config';
+import { findAsset } from './assets';
+import { toAtomic } from './money';
 
 const ERC20_BALANCE_ABI = [
   {
@@ -18,7 +20,15 @@ const ERC20_BALANCE_ABI = [
 export interface BalanceResult {
   wallet: string;
   network: NetworkName;
+  /** Asset symbol (e.g., 'USDC', 'EURC') */
+  symbol: string;
+  /** Token contract address */
+  asset: `0x${string}`;
+  decimals: number;
   balanceRaw: bigint;
+  /** Balance in human units of the asset */
+  balance: string;
+  /** @deprecated Use `balance` — same value, named from when only USDC was supported */
   balanceUsdc: string;
   sufficient: boolean;
   requiredAmount?: string;
@@ -36,45 +46,55 @@ export function getUsdcAddress(network: NetworkName): `0x${string}` {
 }
 
 /**
- * Check USDC balance for a wallet on a specific network
+ * Check a token balance (USDC by default) for a wallet on a specific network
+ *
+ * @param asset - Symbol or contract address of a registered asset
  */
 export async function checkBalance(
   wallet: string,
   network: NetworkName = 'base',
-  requiredAmount?: string
+  requiredAmount?: string,
+  asset = 'USDC'
 ): Promise<BalanceResult> {
   const chain = CHAINS[network];
   if (!chain) {
     throw new Error(`Unsupported network: ${network}`);
   }
 
+  const token = findAsset(network, asset);
+  if (!token) {
+    throw new Error(`Unknown asset on ${network}: ${asset}`);
+  }
+
   const client = createPublicClient({
     chain,
     transport: http(),
   });
 
-  const usdcAddress = USDC_ADDRESSES[network];
-  
   const balanceRaw = await client.readContract({
-    address: usdcAddress,
+    address: token.address,
     abi: ERC20_BALANCE_ABI,
     functionName: 'balanceOf',
     args: [wallet as `0x${string}`],
   });
 
-  const balanceUsdc = formatUnits(balanceRaw, 6); // USDC has 6 decimals
-  
+  const balance = formatUnits(balanceRaw, token.decimals);
+
   let sufficient = true;
   if (requiredAmount) {
-    const required = BigInt(Math.floor(parseFloat(requiredAmount) * 1e6));
+    const required = toAtomic(requiredAmount, token.decimals);
     sufficient = balanceRaw >= required;
   }
 
   return {
     wallet,
     network,
+    symbol: token.symbol,
+    asset: token.address,
+    decimals: token.decimals,
     balanceRaw,
-    balanceUsdc,
+    balance,
+    balanceUsdc: balance,
     sufficient,
     requiredAmount,
   };
@@ -86,30 +106,39 @@ export async function checkBalance(
 export async function hasSufficientBalance(
   wallet: string,
   amount: string,
-  network: NetworkName = 'base'
+  network: NetworkName = 'base',
+  asset = 'USDC'
 ): Promise<boolean> {
-  const result = await checkBalance(wallet, network, amount);
+  const result = await checkBalance(wallet, network, amount, asset);
   return result.sufficient;
 }
 
 /**
- * Get balances across all supported networks
+ * Get balances across all supported networks. Networks where the asset
+ * isn't registered are left out.
  */
 export async function checkAllBalances(
-  wallet: string
-): Promise<Record<NetworkName, BalanceResult>> {
+  wallet: string,
+  asset = 'USDC'
+): Promise<Partial<Record<NetworkName, BalanceResult>>> {
   const networks: NetworkName[] = ['base', 'ethereum', 'arbitrum', 'optimism', 'polygon'];
-  const results: Record<string, BalanceResult> = {};
+  const results: Partial<Record<NetworkName, BalanceResult>> = {};
 
   await Promise.all(
     networks.map(async (network) => {
+      const token = findAsset(network, asset);
+      if (!token) return;
       try {
-        results[network] = await checkBalance(wallet, network);
+        results[network] = await checkBalance(wallet, network, undefined, asset);
       } catch (e) {
         results[network] = {
           wallet,
           network,
+          symbol: token.symbol,
+          asset: token.address,
+          decimals: token.decimals,
           balanceRaw: 0n,
+          balance: '0',
           balanceUsdc: '0',
           sufficient: false,
         };
@@ -117,5 +146,5 @@ export async function checkAllBalances(
     })
   );
 
-  return results as Record<NetworkName, BalanceResult>;
+  return results;
 }
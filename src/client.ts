@@ -3,23 +3,78 @@
  * Wraps official @x402/fetch with spending controls and receipt tracking
  */
 
-import { wrapFetchWithPaymentFromConfig, decodePaymentResponseHeader } from '@x402/fetch';
+import {
+  wrapFetchWithPayment,
+  wrapFetchWithPaymentFromConfig,
+  decodePaymentResponseHeader,
+  x402Client,
+} from '@x402/fetch';
 import { ExactEvmScheme } from '@x402/evm';
+import { randomUUID } from 'crypto';
+import { basename, dirname, extname, join } from 'path';
+import { Readable } from 'stream';
 import { privateKeyToAccount } from 'viem/accounts';
-import { formatUnits, parseUnits, createWalletClient, createPublicClient, http, encodeFunctionData } from 'viem';
+import { createWalletClient, createPublicClient, http, encodeFunctionData } from 'viem';
 import {
   AgentPayConfig,
+  ApprovalRequest,
+  BlockCode,
+  BlockDetails,
   PaymentReceipt,
+  PaymentDispute,
+  PaymentProgress,
+  PaymentState,
   NetworkName,
-  NETWORK_IDS,
+  RequestProvenance,
+  ResponseProvenance,
+  RetryPolicy,
   DEFAULT_POLICY,
+  DEFAULT_RETRY_POLICY,
   PROTOCOL_FEE_ADDRESS,
   PROTOCOL_FEE_BPS,
-  USDC_ADDRESSES,
   CHAINS,
 } from './config';
-import { PolicyEnforcer } from './policy';
-import { ReceiptStore } from './receipts';
+import {
+  PolicyEnforcer,
+  PolicyAmount,
+  PolicyDecision,
+  PaymentContext,
+  DEFAULT_RESERVATION_TTL_MS,
+  FreezeEvent,
+  FreezeState,
+} from './policy';
+import type { RuleEvaluation } from './rules';
+import { BudgetScope, ScopeOptions, ScopeRecord, ScopeRegistry, ScopeStatus } from './scopes';
+import { AssetInfo, getAsset } from './assets';
+import { ApprovalQueue, DEFAULT_APPROVAL_TIMEOUT_MS } from './approvals';
+import { DisputeLedger, paidFailureReason, serviceReliability, ServiceReliability } from './disputes';
+import { createReceiptSigner, LogVerification } from './receipt-log';
+import { ExportOptions } from './receipt-export';
+import { CompactionResult, RetentionPolicy } from './receipt-archive';
+import { ChainReader, ChainReaders, reconcileReceipts, ReconciliationReport } from './reconcile';
+import { ReceiptFilter, ReceiptPage, ReceiptQuery, ReceiptStore, SpendGroup, SpendGrouping } from './receipts';
+import { createStorage, JsonFileStorage } from './storage';
+import { loadPolicyFile, validateInlinePolicy, watchPolicyFile } from './policy-file';
+import { createFacilitatorClient, verifyPayment } from './facilitator';
+import { describeRequest, describeResponseHead, trackResponseBody } from './provenance';
+import {
+  advancePayment,
+  AuthorizationReader,
+  AuthorizationReaders,
+  recoverPayments,
+  RecoveryReport,
+  startPayment,
+} from './payment-state';
+import { feeFromBps, formatAtomic, fromAtomic, maxAtomic, toAtomic } from './money';
+import {
+  PaymentOption,
+  RejectedOption,
+  RequirementSelection,
+  decodePaymentRequired,
+  parsePaymentOptions,
+  selectRequirement,
+  toPaymentOption,
+} from './requirements';
 
 export interface PaymentDetails {
   amount: string;
@@ -28,33 +83,180 @@ export interface PaymentDetails {
   network: NetworkName;
 }
 
+/**
+ * Result of a dry run — what fetch() would pay, without signing anything
+ */
+export interface PaymentQuote {
+  url: string;
+  /** False when the resource answered without asking for payment */
+  paymentRequired: boolean;
+  /** Option that would be signed, or the one policy refused if none passed */
+  selected: PaymentOption | null;
+  /** Amount in human units of `currency` */
+  amount: number;
+  amountRaw: string;
+  /** Asset symbol (e.g., 'USDC', 'EURC') */
+  currency: string | null;
+  /** USD value counted against limits (undefined if the asset has no rate) */
+  valueUsd?: number;
+  recipient: string | null;
+  network: NetworkName | null;
+  /** Policy verdict for the selected option */
+  allowed: boolean;
+  reason?: string;
+  /** Policy rule behind a block, and the machine-readable details */
+  rule?: string;
+  block?: BlockDetails;
+  /** How every policy rule fared for the selected option */
+  evaluated?: RuleEvaluation[];
+  /** Whether the payment would wait for human approval */
+  requiresApproval: boolean;
+  /** Every option the server offered */
+  options: PaymentOption[];
+  rejected: RejectedOption[];
+  /** Budgets left after this payment (unchanged if it would be blocked) */
+  remaining: {
+    daily: number;
+    weekly?: number;
+    monthly?: number;
+    transactionsPerHour?: number;
+  };
+  quotedAt: string;
+  /** With requireDryRun, a matching payment is allowed until this time */
+  expiresAt: string;
+}
+
+/**
+ * One budget a payment has to fit: the wallet policy or a scope's limits
+ */
+interface BudgetLevel {
+  /** Unset for the wallet policy */
+  scope?: string;
+  enforcer: PolicyEnforcer;
+}
+
+/**
+ * Amount held in one budget while a payment is in flight
+ */
+interface BudgetHold {
+  enforcer: PolicyEnforcer;
+  reservationId: string;
+}
+
+/** Fees below 0.001 units of the asset cost more gas than they're worth */
+const MIN_PROTOCOL_FEE_UNITS = 0.001;
+
+/**
+ * Per-request state shared between the signing hooks and fetch()
+ */
+interface PaymentAttempt {
+  url: string;
+  /** Network label used when the signed option's network is unknown */
+  network: NetworkName;
+  skipPolicyCheck: boolean;
+  /** Labels for `tags` conditions in policy rules */
+  tags?: string[];
+  /** Budget scope paying for the request */
+  scope?: string;
+  /** Option handed to the signer */
+  selected: PaymentOption | null;
+  /** Set when policy blocked the payment */
+  blocked: PaymentBlockedError | null;
+  /** Budget held for this payment, in the wallet and every scope, until it settles or fails */
+  holds?: BudgetHold[];
+  /** Receipt created before signing (e.g., for an approved payment) */
+  receiptId?: string;
+  /** Caller's trace id, recorded on the receipt */
+  traceId?: string;
+  /** Request details recorded on the receipt */
+  request: RequestProvenance;
+  /** When the request went out; reset when the paid retry is signed */
+  sentAt: number;
+  /** Where the payment has got to, saved on the receipt from `reserved` on */
+  progress?: PaymentProgress;
+  /** Key shared by every try of the request */
+  idempotencyKey: string;
+  /** Which try this is (1 for the first) */
+  tries: number;
+  /** Receipt of the earlier try, if it got one */
+  retryOf?: string;
+  /** Abort each HTTP request after this long */
+  timeoutMs?: number;
+  /** Signed payment headers as sent, so a retry can resend the same authorization */
+  paymentHeaders?: Record<string, string>;
+}
+
+/** Headers that carry a signed payment (v2, v1) */
+const PAYMENT_HEADERS = ['PAYMENT-SIGNATURE', 'X-PAYMENT'];
+
 /**
  * Agent Pay Client with policy enforcement
  */
 export class AgentPayClient {
-  private fetchWithPayment: typeof fetch;
   private policy: PolicyEnforcer;
+  private scopes: ScopeRegistry;
   private receipts: ReceiptStore;
   private config: AgentPayConfig;
   private account: ReturnType<typeof privateKeyToAccount>;
   private protocolFeesEnabled: boolean;
+  private stopPolicyWatch?: () => void;
+  private approvals: ApprovalQueue;
+  private approvalsEnabled: boolean;
+  private disputes: DisputeLedger;
+  private facilitator?: ReturnType<typeof createFacilitatorClient>;
+  /** Allowed dry-run quotes by URL, consumed when a payment settles */
+  private quotes = new Map<string, PaymentQuote>();
+  /** Signed payments with an unknown outcome, by idempotency key, for retries to resend */
+  private unsettled = new Map<string, PaymentAttempt>();
+  /** Idempotency keys of requests in progress */
+  private inFlight = new Set<string>();
+  /** Public RPC clients by network, for reconciliation and recovery */
+  private publicClients = new Map<NetworkName, ChainReader & AuthorizationReader>();
 
   constructor(config: AgentPayConfig) {
     this.config = config;
     this.account = privateKeyToAccount(config.privateKey as `0x${string}`);
-    this.policy = new PolicyEnforcer(config.policy || DEFAULT_POLICY);
-    this.receipts = new ReceiptStore(config.receiptsPath || './receipts.json');
+    const policy = config.policyFile
+      ? loadPolicyFile(config.policyFile)
+      : validateInlinePolicy(config.policy || DEFAULT_POLICY);
+
+    if (config.storage || config.stateDir) {
+      const storage = !config.storage
+        ? new JsonFileStorage(config.stateDir)
+        : 'type' in config.storage ? createStorage(config.storage) : config.storage;
+      this.policy = new PolicyEnforcer(policy, storage);
+      this.scopes = new ScopeRegistry(storage);
+      this.receipts = new ReceiptStore(storage, createReceiptSigner(config.privateKey), retentionFor(config));
+    } else {
+      const spendingPath = config.spendingPath || './spending.json';
+      this.policy = new PolicyEnforcer(policy, spendingPath);
+      // Scopes live next to the spending file, named after it
+      this.scopes = new ScopeRegistry(
+        new JsonFileStorage(dirname(spendingPath)),
+        basename(spendingPath, extname(spendingPath))
+      );
+      const receiptsPath = config.receiptsPath || './receipts.json';
+      this.receipts = new ReceiptStore(receiptsPath, createReceiptSigner(config.privateKey), retentionFor(config));
+    }
+
+    this.approvals = new ApprovalQueue(this.receipts);
+    this.disputes = new DisputeLedger(this.receipts);
+    this.approvalsEnabled = Boolean(config.onApprovalRequired || config.requireApproval);
+
+    if (config.policyFile && config.watchPolicyFile !== false) {
+      const policyFile = config.policyFile;
+      this.stopPolicyWatch = watchPolicyFile(policyFile, (updated) => {
+        this.policy.updatePolicy(updated);
+        config.onPolicyReload?.(updated, policyFile);
+      });
+    }
     this.protocolFeesEnabled = config.disableProtocolFee !== true;
 
-    // Create x402-enabled fetch using official SDK
-    this.fetchWithPayment = wrapFetchWithPaymentFromConfig(fetch, {
-      schemes: [
-        {
-          network: 'eip155:*', // Support all EVM chains
-          client: new ExactEvmScheme(this.account),
-        },
-      ],
-    });
+    if (config.recoverOnStart !== false) {
+      this.recoverPayments().catch((e) => {
+        console.warn('[x402] Could not recover pending payments:', e);
+      });
+    }
   }
 
   /**
@@ -62,23 +264,24 @@ export class AgentPayClient {
    * Called automatically after each successful payment
    */
   private async transferProtocolFee(
-    amountUsdc: number,
-    network: NetworkName
+    amountRaw: bigint,
+    network: NetworkName,
+    asset: AssetInfo
   ): Promise<string | null> {
     if (!this.protocolFeesEnabled || !PROTOCOL_FEE_BPS) {
       return null;
     }
 
-    const feeAmount = amountUsdc * (PROTOCOL_FEE_BPS / 10000);
+    // The fee is paid in the same asset as the payment
+    const feeRaw = feeFromBps(amountRaw, PROTOCOL_FEE_BPS);
     
-    // Skip tiny fees (under $0.001) to save gas
-    if (feeAmount < 0.001) {
+    // Skip tiny fees (under 0.001) to save gas
+    if (feeRaw < toAtomic(MIN_PROTOCOL_FEE_UNITS, asset.decimals)) {
       return null;
     }
 
     try {
       const chain = CHAINS[network];
-      const usdcAddress = USDC_ADDRESSES[network];
       
       const walletClient = createWalletClient({
         account: this.account,
@@ -103,18 +306,18 @@ export class AgentPayClient {
           outputs: [{ type: 'bool' }],
         }],
         functionName: 'transfer',
-        args: [PROTOCOL_FEE_ADDRESS, parseUnits(feeAmount.toFixed(6), 6)],
+        args: [PROTOCOL_FEE_ADDRESS, feeRaw],
       });
 
       const txHash = await walletClient.sendTransaction({
-        to: usdcAddress,
+        to: asset.address,
         data: transferData,
       });
 
       // Wait for confirmation
       await publicClient.waitForTransactionReceipt({ hash: txHash });
 
-      console.log(`[x402] Protocol fee sent: $${feeAmount.toFixed(4)} USDC (tx: ${txHash})`);
+      console.log(`[x402] Protocol fee sent: ${fromAtomic(feeRaw, asset.decimals).toFixed(4)} ${asset.symbol} (tx: ${txHash})`);
       return txHash;
     } catch (error) {
       // Don't fail the main payment if fee transfer fails
@@ -123,6 +326,14 @@ export class AgentPayClient {
     }
   }
 
+  /**
+   * Stop background work (policy file watching)
+   */
+  close(): void {
+    this.stopPolicyWatch?.();
+    this.stopPolicyWatch = undefined;
+  }
+
   /**
    * Get wallet address
    */
@@ -130,102 +341,684 @@ export class AgentPayClient {
     return this.account.address;
   }
 
+  /**
+   * Build a payment-enabled fetch for a single request.
+   *
+   * Policy is enforced inside the signing path: the selector only picks
+   * options that pass policy, and the before-creation hook checks the exact
+   * requirement about to be signed. There is no separate probe request, so
+   * a server can't quote one price and charge another.
+   */
+  private createPaymentFetch(attempt: PaymentAttempt): typeof fetch {
+    const client = x402Client.fromConfig({
+      schemes: [
+        {
+          network: 'eip155:*',
+          client: new ExactEvmScheme(this.account),
+        },
+      ],
+      paymentRequirementsSelector: (_x402Version, requirements) => {
+        const selection = this.selectRequirement(
+          requirements.map(toPaymentOption),
+          { url: attempt.url, tags: attempt.tags },
+          attempt.scope,
+          attempt.skipPolicyCheck
+        );
+        if (selection.selected) {
+          return selection.selected.requirement;
+        }
+
+        const policyRejection = selection.rejected.find(r => r.policy);
+        if (policyRejection) {
+          throw this.blockPayment(
+            attempt,
+            policyRejection.option,
+            policyRejection.reason,
+            policyRejection.block ?? { code: 'RULE_DENIED', rule: policyRejection.rule }
+          );
+        }
+
+        const reasons = selection.rejected.map(r => r.reason).join('; ');
+        throw new Error(`No payable requirement offered${reasons ? `: ${reasons}` : ''}`);
+      },
+    });
+
+    // Final gate: evaluate exactly what is about to be signed
+    client.onBeforePaymentCreation(async ({ paymentRequired, selectedRequirements }) => {
+      const option = toPaymentOption(selectedRequirements);
+      // v2 servers describe the resource once, beside the requirements
+      option.description ??= paymentRequired.resource?.description;
+      option.mimeType ??= paymentRequired.resource?.mimeType;
+      attempt.selected = option;
+      attempt.progress = startPayment();
+
+      if (attempt.skipPolicyCheck) {
+        attempt.progress = advancePayment(attempt.progress, 'reserved', { reservationIds: [] });
+        this.savePending(attempt, option);
+        return;
+      }
+
+      if (this.policy.getPolicy().requireDryRun) {
+        const reason = this.checkDryRunQuote(attempt.url, option);
+        if (reason) {
+          this.blockPayment(attempt, option, reason, { code: 'DRY_RUN_REQUIRED' });
+          return { abort: true, reason };
+        }
+      }
+
+      const amount = policyAmount(option);
+      const needsApproval = this.approvalsEnabled && this.policy.requiresApproval(amount);
+      const approvalTimeoutMs = this.config.approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+
+      // Check and hold the amount in one step so parallel requests can't overshoot.
+      // The hold has to outlast any wait for approval.
+      const ttlMs = ((option.requirement.maxTimeoutSeconds || 0) * 1000 || DEFAULT_RESERVATION_TTL_MS) +
+        (needsApproval ? approvalTimeoutMs : 0);
+      const policyResult = this.reserveBudgets(amount, option.payTo, ttlMs, { url: attempt.url, tags: attempt.tags }, attempt.scope);
+      if (!policyResult.allowed) {
+        const { code = 'RULE_DENIED', rule, limit, current, retryAfter, scope } = policyResult;
+        this.blockPayment(attempt, option, policyResult.reason!, { code, rule, limit, current, retryAfter, scope });
+        return { abort: true, reason: policyResult.reason! };
+      }
+      attempt.holds = policyResult.holds;
+      attempt.progress = advancePayment(attempt.progress, 'reserved', {
+        reservationIds: policyResult.holds!.map(hold => hold.reservationId),
+      });
+
+      if (needsApproval) {
+        let decided = await this.awaitApproval(attempt, option, approvalTimeoutMs);
+        if (!decided) {
+          this.releaseReservation(attempt);
+          this.blockPayment(attempt, option, 'Approval request was removed before a decision', { code: 'APPROVAL_DENIED' });
+          return { abort: true, reason: attempt.blocked!.message };
+        }
+        if (decided.status !== 'pending') {
+          const reason = decided.blockReason || 'Approval denied';
+          this.releaseReservation(attempt);
+          decided = this.advance(attempt, 'failed', { reason }) ?? decided;
+          const details: BlockDetails = { code: decided.blockCode ?? 'APPROVAL_DENIED' };
+          attempt.blocked = new PaymentBlockedError(reason, decided, details);
+          this.config.onBlocked?.(reason, { url: attempt.url, amount: option.amount, recipient: option.payTo, ...details });
+          return { abort: true, reason };
+        }
+      } else {
+        // Saved before signing, so a crash from here on leaves a pending receipt to recover
+        this.savePending(attempt, option);
+      }
+    });
+
+    // Simulation: have the facilitator verify the signed payload before it is sent
+    client.onAfterPaymentCreation(async ({ paymentPayload, selectedRequirements }) => {
+      if (attempt.skipPolicyCheck || !this.policy.getPolicy().simulateBeforePay) return;
+
+      const verification = await verifyPayment(this.getFacilitator(), paymentPayload, selectedRequirements);
+      if (!verification.isValid) {
+        const reason = `Facilitator verification failed: ${verification.error}`;
+        this.releaseReservation(attempt);
+        const { receipt } = this.blockPayment(attempt, toPaymentOption(selectedRequirements), reason, { code: 'SIMULATION_FAILED' });
+        attempt.blocked = new PaymentVerificationError(reason, receipt, verification.error);
+        throw attempt.blocked;
+      }
+    });
+
+    // Signed: save the authorization so recovery can look it up on chain.
+    // The paid request goes out next, so response latency counts from here.
+    client.onAfterPaymentCreation(async ({ paymentPayload }) => {
+      const { authorization } = paymentPayload.payload as { authorization?: Record<string, string> };
+      this.advance(attempt, 'signed', authorization?.nonce ? {
+        authorization: { from: authorization.from, nonce: authorization.nonce, validBefore: authorization.validBefore },
+      } : {});
+      attempt.sentAt = Date.now();
+    });
+
+    return wrapFetchWithPayment(this.transport(attempt), client);
+  }
+
+  /**
+   * fetch for one try: times out each HTTP request and keeps the signed
+   * payment headers so a retry can resend them
+   */
+  private transport(attempt: PaymentAttempt): typeof fetch {
+    return async (input, init) => {
+      const request = new Request(input, init);
+      const signed = PAYMENT_HEADERS.filter(name => request.headers.has(name));
+      if (signed.length > 0) {
+        attempt.paymentHeaders ??= Object.fromEntries(signed.map(name => [name, request.headers.get(name)!]));
+      }
+      if (!attempt.timeoutMs) return fetch(request);
+      return fetch(request, { signal: AbortSignal.any([request.signal, AbortSignal.timeout(attempt.timeoutMs)]) });
+    };
+  }
+
+  private getFacilitator() {
+    if (!this.facilitator) {
+      this.facilitator = createFacilitatorClient({ url: this.config.facilitatorUrl });
+    }
+    return this.facilitator;
+  }
+
+  /**
+   * With requireDryRun, only pay what an earlier dry run quoted.
+   * Returns the block reason, or undefined if the payment matches.
+   */
+  private checkDryRunQuote(url: string, option: PaymentOption): string | undefined {
+    const quote = this.quotes.get(url);
+    if (!quote || Date.parse(quote.expiresAt) <= Date.now()) {
+      return 'Dry run required before paying (requireDryRun)';
+    }
+    if (
+      quote.selected?.networkId !== option.networkId ||
+      quote.recipient?.toLowerCase() !== option.payTo.toLowerCase() ||
+      quote.selected?.asset.toLowerCase() !== option.asset.toLowerCase()
+    ) {
+      return 'Payment does not match the dry-run quote (recipient, network or asset changed)';
+    }
+    if (BigInt(option.amountRaw) > BigInt(quote.amountRaw)) {
+      return `Amount ${option.amount} ${option.symbol} exceeds the dry-run quote of ${quote.amount} ${option.symbol}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Queue a payment for human approval and wait for the decision
+   */
+  private async awaitApproval(
+    attempt: PaymentAttempt,
+    option: PaymentOption,
+    timeoutMs: number
+  ): Promise<PaymentReceipt | null> {
+    const network = option.network || attempt.network;
+    const receipt = this.approvals.request({
+      ...this.attemptDetails(attempt, option),
+      payment: attempt.progress,
+    }, timeoutMs);
+    attempt.receiptId = receipt.id;
+
+    if (this.config.onApprovalRequired) {
+      const request: ApprovalRequest = {
+        id: receipt.id,
+        url: attempt.url,
+        amount: option.amount,
+        amountRaw: option.amountRaw,
+        currency: option.symbol,
+        recipient: option.payTo,
+        network,
+        expiresAt: receipt.approval!.expiresAt,
+      };
+
+      // A callback that throws is treated like one that rejects, so the
+      // hold is released and the receipt denied right away
+      let decision: Promise<boolean | void>;
+      try {
+        decision = Promise.resolve(this.config.onApprovalRequired(request));
+      } catch (error) {
+        decision = Promise.reject(error);
+      }
+
+      // A callback that resolves without a decision leaves it to approvePayment/denyPayment
+      decision.then(
+        (approved) => {
+          if (approved === true) this.approvals.approve(receipt.id, 'callback');
+          if (approved === false) this.approvals.deny(receipt.id, 'callback');
+        },
+        (error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          this.approvals.deny(receipt.id, 'callback', `approval callback failed: ${message}`);
+        }
+      );
+    }
+
+    return this.approvals.wait(receipt.id);
+  }
+
+  /**
+   * Record a blocked payment and build the error fetch() will throw
+   */
+  private blockPayment(
+    attempt: PaymentAttempt,
+    option: PaymentOption,
+    reason: string,
+    details: BlockDetails
+  ): PaymentBlockedError {
+    const blockFields = {
+      blockRule: details.rule,
+      blockCode: details.code,
+      blockLimit: details.limit,
+      blockCurrent: details.current,
+      retryAfter: details.retryAfter !== undefined ? new Date(details.retryAfter).toISOString() : undefined,
+    };
+    const payment = attempt.progress && (attempt.progress = advancePayment(attempt.progress, 'failed', { reason }));
+    const receipt =
+      (attempt.receiptId &&
+        this.receipts.updateReceipt(attempt.receiptId, { status: 'blocked', blockReason: reason, ...blockFields, payment })) ||
+      this.receipts.recordBlocked(
+        attempt.url,
+        formatOptionAmount(option),
+        option.amountRaw,
+        option.payTo,
+        option.network || attempt.network,
+        reason,
+        {
+          ...this.receiptAsset(option),
+          ...blockFields,
+          scope: attempt.scope,
+          tags: attempt.tags,
+          ...this.receiptProvenance(attempt, option),
+          payment,
+        }
+      );
+
+    this.config.onBlocked?.(reason, { url: attempt.url, amount: option.amount, recipient: option.payTo, ...details });
+
+    const frozen = this.policy.recordBlockedAttempt();
+    if (frozen) {
+      console.warn(`[x402] Payments frozen automatically: ${frozen.reason}`);
+    }
+
+    attempt.blocked = new PaymentBlockedError(reason, receipt, details);
+    return attempt.blocked;
+  }
+
+  /**
+   * Receipt fields for a payment of this option
+   */
+  private attemptDetails(attempt: PaymentAttempt, option: PaymentOption) {
+    return {
+      url: attempt.url,
+      amount: formatOptionAmount(option),
+      amountRaw: option.amountRaw,
+      ...this.receiptAsset(option),
+      network: option.network || attempt.network,
+      recipient: option.payTo,
+      scope: attempt.scope,
+      tags: attempt.tags,
+      ...this.receiptProvenance(attempt, option),
+    };
+  }
+
+  /**
+   * Save a reserved payment as a pending receipt before it is signed
+   */
+  private savePending(attempt: PaymentAttempt, option: PaymentOption): void {
+    const receipt =
+      (attempt.receiptId && this.receipts.updateReceipt(attempt.receiptId, { payment: attempt.progress })) ||
+      this.receipts.createReceipt({ ...this.attemptDetails(attempt, option), status: 'pending', payment: attempt.progress });
+    attempt.receiptId = receipt.id;
+  }
+
+  /**
+   * Move the attempt's payment to its next state and save it on the receipt
+   */
+  private advance(
+    attempt: PaymentAttempt,
+    to: PaymentState,
+    details: Parameters<typeof advancePayment>[2] = {},
+    update: Partial<PaymentReceipt> = {}
+  ): PaymentReceipt | null {
+    if (!attempt.progress) return null;
+    attempt.progress = advancePayment(attempt.progress, to, details);
+    return attempt.receiptId
+      ? this.receipts.updateReceipt(attempt.receiptId, { ...update, payment: attempt.progress })
+      : null;
+  }
+
+  /**
+   * What was requested, and what the server said it was selling
+   */
+  private receiptProvenance(
+    attempt: PaymentAttempt,
+    option: PaymentOption | null
+  ): Pick<PaymentReceipt, 'traceId' | 'description' | 'mimeType' | 'request' | 'idempotencyKey' | 'attempt' | 'retryOf'> {
+    return {
+      traceId: attempt.traceId,
+      description: option?.description,
+      mimeType: option?.mimeType,
+      request: attempt.request,
+      idempotencyKey: attempt.idempotencyKey,
+      attempt: attempt.tries,
+      retryOf: attempt.retryOf,
+    };
+  }
+
+  /**
+   * Asset fields for a receipt paying this option
+   */
+  private receiptAsset(option: PaymentOption): Pick<PaymentReceipt, 'currency' | 'asset' | 'valueUsdRaw'> {
+    const valueUsd = option.assetInfo
+      ? this.policy.toUsd({ amountRaw: BigInt(option.amountRaw), asset: option.assetInfo })
+      : undefined;
+    return {
+      currency: option.symbol,
+      asset: option.asset,
+      valueUsdRaw: valueUsd?.toString(),
+    };
+  }
+
+  /**
+   * Run requirement selection with this client's networks, policy and selector.
+   * Options in different assets are compared by USD value.
+   */
+  private selectRequirement(
+    options: PaymentOption[],
+    context: PaymentContext,
+    scope?: string,
+    skipPolicyCheck = false
+  ): RequirementSelection {
+    return selectRequirement(options, {
+      networks: this.config.supportedNetworks,
+      selector: this.config.requirementSelector,
+      check: skipPolicyCheck
+        ? undefined
+        : (option) => this.checkBudgets(policyAmount(option), option.payTo, context, scope),
+      value: (option) => option.assetInfo
+        ? this.policy.toUsd({ amountRaw: BigInt(option.amountRaw), asset: option.assetInfo })
+        : undefined,
+    });
+  }
+
+  /**
+   * Budgets a payment in this scope has to fit: the wallet policy, then
+   * each scope from the outermost down. Undefined if the scope has expired
+   * or was closed.
+   */
+  private budgetLevels(scope?: string): BudgetLevel[] | undefined {
+    const wallet: BudgetLevel = { enforcer: this.policy };
+    if (scope === undefined) return [wallet];
+    const chain = this.scopes.chain(scope);
+    return chain && [wallet, ...chain.map(record => ({ scope: record.name, enforcer: this.scopes.enforcer(record) }))];
+  }
+
+  /**
+   * Check a payment against every budget it has to fit. Stops at the first
+   * budget that blocks it; `evaluated` covers the budgets checked.
+   */
+  private checkBudgets(amount: PolicyAmount, recipient: string, context: PaymentContext, scope?: string): PolicyDecision {
+    const levels = this.budgetLevels(scope);
+    if (!levels) return scopeClosed(scope!);
+
+    const evaluated: RuleEvaluation[] = [];
+    for (const level of levels) {
+      const decision = level.enforcer.checkPayment(amount, recipient, context);
+      evaluated.push(...(decision.evaluated ?? []).map(e => level.scope ? { ...e, scope: level.scope } : e));
+      if (!decision.allowed) {
+        return { ...inScope(decision, level.scope), evaluated };
+      }
+    }
+    return { allowed: true, evaluated };
+  }
+
+  /**
+   * Hold a payment in every budget it has to fit, or in none of them
+   */
+  private reserveBudgets(
+    amount: PolicyAmount,
+    recipient: string,
+    ttlMs: number,
+    context: PaymentContext,
+    scope?: string
+  ): PolicyDecision & { holds?: BudgetHold[] } {
+    const levels = this.budgetLevels(scope);
+    if (!levels) return scopeClosed(scope!);
+
+    const holds: BudgetHold[] = [];
+    for (const level of levels) {
+      const { reservation, ...decision } = level.enforcer.reserve(amount, recipient, ttlMs, context);
+      if (!decision.allowed) {
+        for (const hold of holds) hold.enforcer.release(hold.reservationId);
+        return inScope(decision, level.scope);
+      }
+      holds.push({ enforcer: level.enforcer, reservationId: reservation!.id });
+    }
+    return { allowed: true, holds };
+  }
+
   /**
    * Make a payment-enabled request with policy enforcement
+   *
+   * @param options.tags - Labels matched by `tags` conditions in policy.rules
+   * @param options.scope - Budget scope to pay from (see scope())
+   * @param options.traceId - Id of the agent task or trace, recorded on the receipt
+   * @param options.idempotencyKey - Key for this logical request, sent as the
+   *   Idempotency-Key header and recorded on every try's receipt (default: the
+   *   request's Idempotency-Key header, or a new one). A key that already paid,
+   *   or whose payment may have settled, is refused with an IdempotencyError.
+   * @param options.timeoutMs - Overrides config.timeoutMs for this request
+   * @param options.retry - Overrides config.retry for this request
    */
   async fetch(
     url: string,
     init?: RequestInit,
-    options?: { skipPolicyCheck?: boolean; network?: NetworkName }
+    options?: {
+      skipPolicyCheck?: boolean;
+      network?: NetworkName;
+      tags?: string[];
+      scope?: string;
+      traceId?: string;
+      idempotencyKey?: string;
+      timeoutMs?: number;
+      retry?: RetryPolicy;
+    }
   ): Promise<Response> {
-    const network = options?.network || this.config.network || 'base';
-
-    // First, make a HEAD/GET to check if payment is required
-    const probeResponse = await fetch(url, {
-      method: 'HEAD',
-      ...init,
-    }).catch(() => null);
-
-    // Track payment details from probe for later use
-    let expectedAmount = 0;
-    let expectedAmountRaw = '0';
-    let expectedRecipient = 'unknown';
-
-    // If we get a 402, extract payment details for policy check
-    if (probeResponse?.status === 402) {
-      const paymentHeader = probeResponse.headers.get('X-Payment') || 
-                            probeResponse.headers.get('Payment-Required');
-      
-      if (paymentHeader && !options?.skipPolicyCheck) {
+    const retry = { ...DEFAULT_RETRY_POLICY, ...this.config.retry, ...options?.retry };
+    const headers = new Headers(init?.headers);
+    const callerKey = options?.idempotencyKey ?? headers.get('Idempotency-Key') ?? undefined;
+    const idempotencyKey = callerKey ?? randomUUID();
+    if (callerKey) this.checkIdempotencyKey(callerKey);
+    this.inFlight.add(idempotencyKey);
+    headers.set('Idempotency-Key', idempotencyKey);
+
+    try {
+      const request = await describeRequest(init, this.config.provenance);
+      let retryOf: string | undefined;
+      for (let tries = 1; ; tries++) {
+        // A signed payment whose outcome is unknown is resent, not signed again
+        const unsettled = this.resendable(idempotencyKey);
+        const attempt: PaymentAttempt = unsettled ? { ...unsettled, tries, sentAt: Date.now() } : {
+          url,
+          network: options?.network || this.config.network || 'base',
+          skipPolicyCheck: options?.skipPolicyCheck === true,
+          tags: options?.tags,
+          scope: options?.scope,
+          traceId: options?.traceId,
+          request,
+          sentAt: Date.now(),
+          selected: null,
+          blocked: null,
+          idempotencyKey,
+          tries,
+          retryOf,
+          timeoutMs: options?.timeoutMs ?? this.config.timeoutMs,
+        };
+
+        let outcome: { response: Response } | { error: unknown };
         try {
-          const decoded = JSON.parse(atob(paymentHeader));
-          expectedAmountRaw = decoded.maxAmountRequired || decoded.amount || '0';
-          expectedAmount = parseFloat(formatUnits(BigInt(expectedAmountRaw), 6));
-          expectedRecipient = decoded.payTo || decoded.recipient || 'unknown';
-
-          // Check policy
-          const policyResult = this.policy.checkPayment(expectedAmount, expectedRecipient);
-          
-          if (!policyResult.allowed) {
-            // Record blocked payment
-            const receipt = this.receipts.recordBlocked(
-              url,
-              expectedAmount.toFixed(6),
-              expectedAmountRaw,
-              expectedRecipient,
-              network,
-              policyResult.reason!
-            );
-
-            this.config.onBlocked?.(policyResult.reason!, { url, amount: expectedAmount, recipient: expectedRecipient });
-
-            throw new PaymentBlockedError(policyResult.reason!, receipt);
-          }
-        } catch (e) {
-          if (e instanceof PaymentBlockedError) throw e;
-          // If we can't parse payment details, proceed anyway (policy check skipped)
-          console.warn('[x402] Could not parse payment header for policy check:', e);
+          outcome = { response: await this.fetchOnce(attempt, { ...init, headers }) };
+        } catch (error) {
+          outcome = { error };
+        }
+        if (tries < retry.attempts && this.shouldRetry(attempt, retry, outcome)) {
+          retryOf = attempt.receiptId ?? retryOf;
+          await delay(retry.backoffMs * 2 ** (tries - 1));
+          continue;
         }
+        if ('error' in outcome) throw outcome.error;
+        return outcome.response;
       }
+    } finally {
+      this.inFlight.delete(idempotencyKey);
+      // Nobody else knows a generated key, so nothing can resend its payment
+      if (!callerKey) this.unsettled.delete(idempotencyKey);
     }
+  }
 
-    // Make the actual payment-enabled request
-    const response = await this.fetchWithPayment(url, init);
+  /**
+   * Refuse a caller's idempotency key that is in use, already paid, or
+   * waiting on a payment that may have settled and can't be resent
+   */
+  private checkIdempotencyKey(key: string): void {
+    if (this.inFlight.has(key)) {
+      throw new IdempotencyError(`Request ${key} is already in progress`, key);
+    }
+    const earlier = this.receipts.query({ idempotencyKey: key }).receipts;
+    const paid = earlier.find(r => r.status === 'success' || r.status === 'paid_failed');
+    if (paid) {
+      throw new IdempotencyError(`Request ${key} was already paid`, key, paid);
+    }
+    const open = earlier.find(r => r.status === 'pending' && (r.payment?.state === 'signed' || r.payment?.state === 'unknown'));
+    if (open && !this.resendable(key)) {
+      throw new IdempotencyError(
+        `Payment for request ${key} may have settled; resolve it with recoverPayments() before retrying`,
+        key,
+        open
+      );
+    }
+  }
+
+  /**
+   * The unknown payment for this key, if its authorization can still be resent
+   */
+  private resendable(key: string): PaymentAttempt | undefined {
+    const attempt = this.unsettled.get(key);
+    const validBefore = attempt?.progress?.authorization?.validBefore;
+    if (validBefore !== undefined && Number(validBefore) * 1000 <= Date.now()) return undefined;
+    return attempt;
+  }
+
+  /**
+   * Whether a failed try can be made again without paying twice
+   */
+  private shouldRetry(
+    attempt: PaymentAttempt,
+    retry: Required<RetryPolicy>,
+    outcome: { response: Response } | { error: unknown }
+  ): boolean {
+    if (attempt.blocked) return false;
+    switch (attempt.progress?.state) {
+      case 'settled':
+      case 'signed':
+        return false;
+      case 'unknown':
+        return retry.afterSigning && this.resendable(attempt.idempotencyKey) !== undefined;
+      default:
+        // Nothing was paid: no payment was asked for, or it failed before signing
+        return 'response' in outcome
+          ? retry.retryOnStatus.includes(outcome.response.status)
+          : isTransient(outcome.error);
+    }
+  }
+
+  /**
+   * One try of a request: pay if asked (or resend an earlier signed
+   * payment) and record the outcome
+   */
+  private async fetchOnce(attempt: PaymentAttempt, init: RequestInit): Promise<Response> {
+    const { url } = attempt;
+    const provenance = this.config.provenance;
+    const resending = attempt.paymentHeaders !== undefined;
+
+    let response: Response;
+    try {
+      if (resending) {
+        this.advance(attempt, 'signed', { reason: `Resent on try ${attempt.tries}` }, { attempt: attempt.tries });
+        const headers = new Headers(init.headers);
+        for (const [name, value] of Object.entries(attempt.paymentHeaders!)) headers.set(name, value);
+        response = await this.transport(attempt)(url, { ...init, headers });
+      } else {
+        response = await this.createPaymentFetch(attempt)(url, init);
+      }
+    } catch (e) {
+      if (!attempt.blocked && attempt.progress?.state === 'signed') {
+        this.leaveUnknown(attempt, `Request failed after signing: ${e instanceof Error ? e.message : e}`);
+      } else {
+        this.abandonAttempt(attempt, e instanceof Error ? e.message : String(e));
+      }
+      // The SDK wraps hook/selector failures; surface the policy error instead
+      if (attempt.blocked) throw attempt.blocked;
+      throw e;
+    }
 
     // If payment was made, record receipt
     const paymentResponse = response.headers.get('X-Payment-Response') ||
                             response.headers.get('Payment-Response');
-    
-    if (paymentResponse) {
+
+    if (!paymentResponse) {
+      if (resending && response.status === 402) {
+        // The first send may have used the authorization, so only the chain can tell
+        this.leaveUnknown(attempt, 'Server refused the resent authorization (HTTP 402)', false);
+      } else if (attempt.progress?.state === 'signed' && response.status !== 402) {
+        // Sent, but the answer doesn't say whether it settled
+        this.leaveUnknown(attempt, `No settlement in the HTTP ${response.status} response`);
+      } else {
+        // Refused, or never needed payment — nothing was spent
+        this.abandonAttempt(attempt, `Server refused the payment (HTTP ${response.status})`);
+      }
+    } else {
+      // A settlement header means funds moved, so count the spend even if it won't parse.
+      // A hold that expired while the outcome was unknown is recorded afresh.
+      if (attempt.holds) {
+        for (const hold of attempt.holds) {
+          if (!hold.enforcer.commit(hold.reservationId) && attempt.selected) {
+            hold.enforcer.recordPayment(policyAmount(attempt.selected), attempt.selected.payTo, { url, tags: attempt.tags });
+          }
+        }
+      } else if (attempt.selected) {
+        const paid = attempt.selected;
+        for (const level of this.budgetLevels(attempt.scope) ?? [{ enforcer: this.policy }]) {
+          level.enforcer.recordPayment(policyAmount(paid), paid.payTo, { url, tags: attempt.tags });
+        }
+      }
+      attempt.holds = undefined;
+      this.unsettled.delete(attempt.idempotencyKey);
+      this.quotes.delete(url);
+
       try {
         const decoded = decodePaymentResponseHeader(paymentResponse);
         const txHash = decoded.transaction;
 
-        // Use amount from probe phase (SettleResponse doesn't include amount)
-        const amountUsdc = expectedAmount;
-        const amountRaw = expectedAmountRaw;
-
-        // Record successful payment
-        this.policy.recordPayment(amountUsdc, expectedRecipient);
+        // SettleResponse doesn't include amount, so use the option we signed
+        const paid = attempt.selected;
+        const amountRaw = BigInt(paid?.amountRaw ?? '0');
+        const recipient = paid?.payTo ?? 'unknown';
+        const network = paid?.network || attempt.network;
+        // The body is hashed as the caller reads it, so fetch() doesn't wait for it
+        const described = describeResponseHead(response, attempt.sentAt, provenance);
+        const failureReason = paidFailureReason(response, described);
         
-        const receipt = this.receipts.createReceipt({
+        const details = {
           url,
-          amount: amountUsdc.toFixed(6),
-          amountRaw,
-          currency: 'USDC',
+          amount: paid ? formatOptionAmount(paid) : formatAtomic(amountRaw),
+          amountRaw: amountRaw.toString(),
+          ...(paid ? this.receiptAsset(paid) : { currency: 'USDC' }),
           network,
-          recipient: expectedRecipient,
+          recipient,
           txHash,
+          scope: attempt.scope,
+          tags: attempt.tags,
+          ...this.receiptProvenance(attempt, paid),
+          response: described,
+          failureReason,
           facilitatorResponse: decoded,
-        });
+          payment: attempt.progress && (attempt.progress = advancePayment(attempt.progress, 'settled')),
+        };
+        // Settled either way: a failed response still spent the money
+        const status = failureReason ? 'paid_failed' : 'success';
+        let receipt =
+          (attempt.receiptId && this.receipts.updateReceipt(attempt.receiptId, { ...details, status })) ||
+          this.receipts.createReceipt({ ...details, status });
+        if (failureReason && this.config.autoDispute) {
+          receipt = this.disputes.open(receipt.id, failureReason, 'auto') ?? receipt;
+        }
+        const receiptId = receipt.id;
+        const paidResponse = response;
+        response = trackResponseBody(response, provenance ?? {}, body =>
+          this.recordResponseBody(receiptId, paidResponse, { ...described, ...body }, failureReason !== undefined));
         
-        this.receipts.updateReceipt(receipt.id, { status: 'success' });
         this.config.onPayment?.(receipt);
 
         // Transfer protocol fee (0.5%) to x402-agent-pay maintainers
         // This runs async and doesn't block the response
-        if (amountUsdc > 0) {
-          this.transferProtocolFee(amountUsdc, network).catch(() => {
+        if (amountRaw > 0n && paid?.assetInfo) {
+          this.transferProtocolFee(amountRaw, network, paid.assetInfo).catch(() => {
             // Silently ignore fee transfer failures
           });
         }
@@ -237,6 +1030,140 @@ export class AgentPayClient {
     return response;
   }
 
+  /**
+   * Add a paid response's body hash to its receipt once the caller has
+   * read the body, and record the payment as failed if it came back empty
+   */
+  private recordResponseBody(receiptId: string, response: Response, described: ResponseProvenance, failed: boolean): void {
+    try {
+      const failureReason = failed ? undefined : paidFailureReason(response, described);
+      this.receipts.updateReceipt(receiptId, {
+        response: described,
+        ...(failureReason && { status: 'paid_failed' as const, failureReason }),
+      });
+      if (failureReason && this.config.autoDispute) {
+        this.disputes.open(receiptId, failureReason, 'auto');
+      }
+    } catch (e) {
+      console.warn('[x402] Could not record the paid response body:', e);
+    }
+  }
+
+  /**
+   * Clean up a payment that won't settle: release its budget and mark its
+   * pending receipt as failed
+   */
+  private abandonAttempt(attempt: PaymentAttempt, reason: string): void {
+    this.releaseReservation(attempt);
+    this.unsettled.delete(attempt.idempotencyKey);
+    if (!attempt.blocked && attempt.progress) {
+      this.advance(attempt, 'failed', { reason }, { status: 'failed' });
+    }
+  }
+
+  /**
+   * A signed payment went out and the outcome isn't known: keep its budget
+   * held and leave the receipt pending for a retry to resend, or for
+   * recoverPayments() to resolve
+   */
+  private leaveUnknown(attempt: PaymentAttempt, reason: string, resendable = true): void {
+    this.advance(attempt, 'unknown', { reason });
+    if (resendable && attempt.paymentHeaders) {
+      this.unsettled.set(attempt.idempotencyKey, { ...attempt });
+    } else {
+      this.unsettled.delete(attempt.idempotencyKey);
+    }
+    attempt.holds = undefined;
+  }
+
+  /**
+   * Give back a reservation that won't be settled
+   */
+  private releaseReservation(attempt: PaymentAttempt): void {
+    for (const hold of attempt.holds ?? []) {
+      hold.enforcer.release(hold.reservationId);
+    }
+    attempt.holds = undefined;
+  }
+
+  /**
+   * Dry run: find out what a request would cost and whether policy allows
+   * it, without signing anything. With requireDryRun, fetch() only pays
+   * amounts up to an allowed quote for the same URL and recipient.
+   */
+  async dryRun(url: string, init?: RequestInit, options?: { tags?: string[]; scope?: string }): Promise<PaymentQuote> {
+    const response = await fetch(url, init);
+    const quotedAt = Date.now();
+    const scope = options?.scope;
+    const status = (scope !== undefined && this.getScopeStatus(scope)) || this.policy.getStatus();
+
+    let offered: PaymentOption[] = [];
+    if (response.status === 402) {
+      const header = response.headers.get('PAYMENT-REQUIRED');
+      try {
+        offered = parsePaymentOptions(header ? decodePaymentRequired(header) : await response.json());
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse payment requirements: ${message}`);
+      }
+    }
+
+    const context: PaymentContext = { url, tags: options?.tags };
+    const selection = this.selectRequirement(offered, context, scope);
+    const policyRejection = selection.rejected.find(r => r.policy);
+    const selected = selection.selected ?? policyRejection?.option ?? null;
+    const allowed = response.status !== 402 || selection.selected !== null;
+    const reason = allowed
+      ? undefined
+      : policyRejection?.reason ||
+        `No payable requirement offered${selection.rejected.length ? `: ${selection.rejected.map(r => r.reason).join('; ')}` : ''}`;
+
+    const valueUsd = selected?.assetInfo
+      ? this.policy.toUsd({ amountRaw: BigInt(selected.amountRaw), asset: selected.assetInfo })
+      : undefined;
+    const spend = allowed && selected ? valueUsd ?? 0n : 0n;
+    const count = allowed && selected ? 1 : 0;
+    const after = (remaining: number) => remaining === Infinity
+      ? remaining
+      : fromAtomic(maxAtomic(0n, toAtomic(remaining) - spend));
+    const ttlMs = (selected?.requirement.maxTimeoutSeconds || 0) * 1000 || DEFAULT_RESERVATION_TTL_MS;
+
+    const quote: PaymentQuote = {
+      url,
+      paymentRequired: response.status === 402,
+      selected,
+      amount: selected?.amount ?? 0,
+      amountRaw: selected?.amountRaw ?? '0',
+      currency: selected?.symbol ?? null,
+      valueUsd: valueUsd === undefined ? undefined : fromAtomic(valueUsd),
+      recipient: selected?.payTo ?? null,
+      network: selected?.network ?? null,
+      allowed,
+      reason,
+      rule: allowed ? undefined : policyRejection?.rule,
+      block: allowed ? undefined : policyRejection?.block,
+      evaluated: selected && response.status === 402
+        ? this.checkBudgets(policyAmount(selected), selected.payTo, context, scope).evaluated
+        : undefined,
+      requiresApproval: Boolean(selected) && this.approvalsEnabled && this.policy.requiresApproval(policyAmount(selected!)),
+      options: offered,
+      rejected: selection.rejected,
+      remaining: {
+        daily: after(status.daily.remaining),
+        weekly: status.weekly && after(status.weekly.remaining),
+        monthly: status.monthly && after(status.monthly.remaining),
+        transactionsPerHour: status.velocity && Math.max(0, status.velocity.remaining - count),
+      },
+      quotedAt: new Date(quotedAt).toISOString(),
+      expiresAt: new Date(quotedAt + ttlMs).toISOString(),
+    };
+
+    if (allowed && selected) {
+      this.quotes.set(url, quote);
+    }
+    return quote;
+  }
+
   /**
    * Get spending status
    */
@@ -244,6 +1171,106 @@ export class AgentPayClient {
     return this.policy.getStatus();
   }
 
+  /**
+   * Create a budget scope for a sub-agent or task. Its payments count
+   * against its own limits, each parent scope's and the wallet policy.
+   * Calling scope() again with the name of an active scope returns that
+   * scope with the new limits.
+   *
+   * @example
+   * const research = client.scope({ name: 'research', limits: { dailyLimit: 5 } });
+   * const task = research.scope({ name: 'task-42', limits: { maxPerTransaction: 0.1, dailyLimit: 1 }, ttl: 60 * 60 * 1000 });
+   * await task.fetch('https://api.example.com/data');
+   */
+  scope(options: ScopeOptions): BudgetScope {
+    return new BudgetScope(this, this.scopes.create(options));
+  }
+
+  /**
+   * Active budget scopes (expired scopes are left out)
+   */
+  getScopes(): ScopeRecord[] {
+    return this.scopes.list();
+  }
+
+  /**
+   * Spending against a scope's limits, including its child scopes.
+   * Undefined if the scope has expired or was closed.
+   */
+  getScopeStatus(name: string): ScopeStatus | undefined {
+    const record = this.scopes.get(name);
+    return record && { ...this.scopes.enforcer(record).getStatus(), scope: record };
+  }
+
+  /**
+   * Receipts of payments made in a scope and its child scopes
+   */
+  getScopeHistory(name: string, limit?: number): PaymentReceipt[] {
+    const receipts = this.receipts.getByScope(this.scopes.descendants(name));
+    return limit ? receipts.slice(-limit).reverse() : receipts;
+  }
+
+  /**
+   * Close a scope and its child scopes before they expire.
+   * Returns false if the scope isn't active.
+   */
+  closeScope(name: string): boolean {
+    return this.scopes.close(name);
+  }
+
+  /**
+   * Emergency freeze: block every payment until unfreeze() is called.
+   * Persists across restarts and processes sharing the same storage.
+   */
+  freeze(reason?: string, frozenBy?: string): FreezeState {
+    return this.policy.freeze(reason, frozenBy);
+  }
+
+  /**
+   * Lift a freeze, optionally only after a cooldown
+   * Returns false if payments weren't frozen
+   */
+  unfreeze(unfrozenBy?: string, options?: { cooldownMs?: number; reason?: string }): boolean {
+    return this.policy.unfreeze(unfrozenBy, options);
+  }
+
+  /**
+   * Current freeze, or undefined if payments are allowed
+   */
+  getFreezeStatus(): FreezeState | undefined {
+    return this.policy.getFreezeStatus();
+  }
+
+  /**
+   * Freeze/unfreeze audit trail
+   */
+  getFreezeHistory(): FreezeEvent[] {
+    return this.policy.getFreezeHistory();
+  }
+
+  /**
+   * Payments waiting for human approval
+   */
+  getPendingApprovals(): PaymentReceipt[] {
+    return this.approvals.pending();
+  }
+
+  /**
+   * Approve a payment waiting for approval
+   * Returns the updated receipt, or null if it isn't awaiting approval
+   */
+  approvePayment(id: string, decidedBy?: string): PaymentReceipt | null {
+    return this.approvals.approve(id, decidedBy);
+  }
+
+  /**
+   * Deny a payment waiting for approval
+   * Returns the updated receipt, or null if it isn't awaiting approval
+   */
+  denyPayment(id: string, reason?: string, decidedBy?: string): PaymentReceipt | null {
+    return this.approvals.deny(id, decidedBy, reason);
+  }
+
   /**
    * Get payment history
    */
@@ -251,6 +1278,65 @@ export class AgentPayClient {
     return limit ? this.receipts.getRecent(limit) : this.receipts.getAll();
   }
 
+  /**
+   * Find receipts by date range, status, network, recipient, URL host,
+   * amount, tags or scope, a page at a time (newest first by default)
+   */
+  queryHistory(query?: ReceiptQuery): ReceiptPage {
+    return this.receipts.query(query);
+  }
+
+  /**
+   * Successful spending grouped by day, recipient, URL host or network
+   * (paid-but-failed responses are left out; see getServiceReliability)
+   */
+  getSpendBreakdown(groupBy: SpendGrouping, filter?: ReceiptFilter): SpendGroup[] {
+    return this.receipts.aggregate(groupBy, filter);
+  }
+
+  /**
+   * Paid requests and paid-but-failed responses per service host, least
+   * reliable first. Feed it to ServiceDiscovery.setReliability() to rank
+   * services by what this wallet has seen.
+   */
+  getServiceReliability(filter?: ReceiptFilter): ServiceReliability[] {
+    return serviceReliability(this.receipts.query({ ...filter, order: 'asc' }).receipts);
+  }
+
+  /**
+   * Open a dispute with the provider over a paid request
+   * Returns the updated receipt, or null if it isn't paid or is already disputed
+   */
+  openDispute(id: string, reason: string, openedBy?: string): PaymentReceipt | null {
+    return this.disputes.open(id, reason, openedBy);
+  }
+
+  /**
+   * Add a follow-up to an open dispute
+   * Returns the updated receipt, or null if it has no open dispute
+   */
+  addDisputeNote(id: string, text: string, by?: string): PaymentReceipt | null {
+    return this.disputes.note(id, text, by);
+  }
+
+  /**
+   * Close an open dispute, with the refund transaction if there was one
+   * Returns the updated receipt, or null if it has no open dispute
+   */
+  resolveDispute(
+    id: string,
+    resolution?: { refundTxHash?: string; resolution?: string; resolvedBy?: string }
+  ): PaymentReceipt | null {
+    return this.disputes.resolve(id, resolution);
+  }
+
+  /**
+   * Disputed receipts, oldest first
+   */
+  getDisputes(status?: PaymentDispute['status']): PaymentReceipt[] {
+    return this.disputes.list(status);
+  }
+
   /**
    * Get today's receipts
    */
@@ -258,24 +1344,248 @@ export class AgentPayClient {
     return this.receipts.getToday();
   }
 
+  /**
+   * Move receipts older than the retention policy allows into compressed
+   * monthly archives. Also runs on its own as receipts are added.
+   */
+  compactReceipts(): CompactionResult {
+    return this.receipts.compact();
+  }
+
+  /**
+   * Check that the receipt log is intact, signed by this wallet, and
+   * agrees with the stored receipts. Reports the first broken link.
+   *
+   * @param options.archived - Also check log entries moved to the archives
+   */
+  verifyReceiptLog(options: { archived?: boolean } = {}): LogVerification {
+    return this.receipts.verifyLog(this.account.address, options);
+  }
+
+  /**
+   * Check paid receipts against their settlement transactions on chain
+   * and record the result on each receipt. Confirmed receipts aren't
+   * checked again unless `recheck` is set.
+   *
+   * @param options.publicClient - Client (or per-network clients) to read
+   *                               the chain with; defaults to each network's public RPC
+   */
+  reconcileReceipts(options: { publicClient?: ChainReaders; recheck?: boolean } = {}): Promise<ReconciliationReport> {
+    const readers = options.publicClient ?? ((network: NetworkName) => this.publicClient(network));
+    return reconcileReceipts(this.receipts, readers, { payer: this.account.address, recheck: options.recheck });
+  }
+
+  /**
+   * Resolve payments left pending by a crash or a lost response: look up
+   * each signed authorization on chain, mark the receipt settled or
+   * failed, and count or give back its budget. Runs on startup unless
+   * `recoverOnStart` is false.
+   *
+   * @param options.publicClient - Client (or per-network clients) to read
+   *                               the chain with; defaults to each network's public RPC
+   * @param options.minAgeMs - Skip payments that moved more recently than this (default 5 minutes)
+   */
+  recoverPayments(options: { publicClient?: AuthorizationReaders; minAgeMs?: number } = {}): Promise<RecoveryReport> {
+    const readers = options.publicClient ?? ((network: NetworkName) => this.publicClient(network));
+    return recoverPayments(this.receipts, readers, {
+      minAgeMs: options.minAgeMs,
+      onSettled: receipt => this.closeHolds(receipt, true),
+      onFailed: receipt => this.closeHolds(receipt, false),
+    });
+  }
+
+  /**
+   * Settle the budget holds of a recovered payment: commit them if it was
+   * paid, release them if not. A hold that expired in the meantime no
+   * longer counts, so a paid one is recorded as a new spend instead.
+   */
+  private closeHolds(receipt: PaymentReceipt, paid: boolean): void {
+    const reservationIds = receipt.payment?.reservationIds ?? [];
+    const levels = this.budgetLevels(receipt.scope) ?? [{ enforcer: this.policy }];
+    levels.forEach(({ enforcer }, i) => {
+      const id = reservationIds[i];
+      if (!paid) {
+        if (id) enforcer.release(id);
+      } else if (!id || !enforcer.commit(id)) {
+        enforcer.recordPayment(receiptPolicyAmount(receipt), receipt.recipient, { url: receipt.url, tags: receipt.tags });
+      }
+    });
+  }
+
+  private publicClient(network: NetworkName): ChainReader & AuthorizationReader {
+    if (!this.publicClients.has(network)) {
+      this.publicClients.set(network, createPublicClient({ chain: CHAINS[network], transport: http() }));
+    }
+    return this.publicClients.get(network)!;
+  }
+
+  /**
+   * Export receipts matching the filters as CSV, JSON Lines, OFX or QIF
+   * (OFX statements use the wallet address as the account id)
+   */
+  exportReceipts(options: ExportOptions = {}): string {
+    return this.receipts.export({ account: this.account.address, ...options });
+  }
+
+  /**
+   * Stream an export — for large histories, pipe it to a file
+   * instead of building the whole export in memory
+   *
+   * @example
+   * await pipeline(client.streamReceipts({ format: 'jsonl' }), createWriteStream('receipts.jsonl'));
+   */
+  streamReceipts(options: ExportOptions = {}): Readable {
+    return Readable.from(this.receipts.exportStream({ account: this.account.address, ...options }), { objectMode: false });
+  }
+
   /**
    * Export receipts as CSV
    */
-  exportReceiptsCsv(): string {
-    return this.receipts.exportCsv();
+  exportReceiptsCsv(options: Omit<ExportOptions, 'format'> = {}): string {
+    return this.receipts.exportCsv(options);
   }
 }
 
+/**
+ * Amount of an option for policy checks — in its registered asset, or
+ * treated as USDC atomic units when the asset is unknown
+ */
+function policyAmount(option: PaymentOption): PolicyAmount {
+  const amountRaw = BigInt(option.amountRaw);
+  return option.assetInfo ? { amountRaw, asset: option.assetInfo } : amountRaw;
+}
+
+/**
+ * Whether a request failed in transit (network error or timeout), so
+ * trying again may work
+ */
+function isTransient(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return error.name === 'TimeoutError' || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Policy amount for a payment recorded on a receipt
+ */
+function receiptPolicyAmount(receipt: PaymentReceipt): PolicyAmount {
+  const amountRaw = BigInt(receipt.amountRaw);
+  const asset = receipt.asset ? getAsset(receipt.network, receipt.asset) : undefined;
+  return asset ? { amountRaw, asset } : amountRaw;
+}
+
+/**
+ * Block decision for a payment in a scope that can no longer pay
+ */
+function scopeClosed(scope: string): PolicyDecision {
+  return {
+    allowed: false,
+    reason: `Scope "${scope}" has expired or was closed`,
+    code: 'SCOPE_EXPIRED',
+    scope,
+  };
+}
+
+/**
+ * Attribute a scope's block to the scope
+ */
+function inScope(decision: PolicyDecision, scope?: string): PolicyDecision {
+  if (scope === undefined || decision.allowed) return decision;
+  const reason = decision.reason ?? 'blocked';
+  return { ...decision, reason: `Scope "${scope}": ${reason[0].toLowerCase()}${reason.slice(1)}`, scope };
+}
+
+/**
+ * Receipt amount of an option with all of its asset's decimals
+ */
+function formatOptionAmount(option: PaymentOption): string {
+  return formatAtomic(BigInt(option.amountRaw), option.assetInfo?.decimals);
+}
+
+/**
+ * Retention policy with archiveDir resolved to an 'archive' directory
+ * next to the receipts
+ */
+function retentionFor(config: AgentPayConfig): RetentionPolicy | undefined {
+  const { retention, storage } = config;
+  if (!retention) return undefined;
+  if (retention.archiveDir) return { ...retention, archiveDir: retention.archiveDir };
+
+  let dir: string | undefined;
+  if (storage && 'type' in storage) {
+    dir = storage.type === 'sqlite' ? dirname(storage.path) : storage.type === 'memory' ? undefined : storage.dir;
+  } else if (!storage) {
+    dir = config.stateDir ?? dirname(config.receiptsPath || './receipts.json');
+  }
+  if (dir === undefined) {
+    throw new Error('retention.archiveDir is required with memory storage or a custom storage adapter');
+  }
+  return { ...retention, archiveDir: join(dir, 'archive') };
+}
+
 /**
  * Error thrown when payment is blocked by policy
  */
 export class PaymentBlockedError extends Error {
   public receipt: PaymentReceipt;
+  /** Machine-readable reason, e.g. 'DAILY_LIMIT' or 'RECIPIENT_BLOCKED' */
+  public code: BlockCode;
+  /** Policy rule that blocked the payment */
+  public rule?: string;
+  /** Limit and usage behind a limit block (see BlockDetails) */
+  public limit?: number;
+  public current?: number;
+  /** When the payment could be retried (ms since epoch) */
+  public retryAfter?: number;
+  /** Budget scope whose limits blocked the payment (unset for the wallet policy) */
+  public scope?: string;
 
-  constructor(reason: string, receipt: PaymentReceipt) {
+  constructor(reason: string, receipt: PaymentReceipt, details: BlockDetails) {
     super(`Payment blocked: ${reason}`);
     this.name = 'PaymentBlockedError';
     this.receipt = receipt;
+    this.code = details.code;
+    this.rule = details.rule;
+    this.limit = details.limit;
+    this.current = details.current;
+    this.retryAfter = details.retryAfter;
+    this.scope = details.scope;
+  }
+}
+
+/**
+ * Error thrown when fetch() refuses to repeat a request: its idempotency
+ * key is in progress, already paid, or waiting on a payment that may have
+ * settled. Nothing was sent.
+ */
+export class IdempotencyError extends Error {
+  public idempotencyKey: string;
+  /** Receipt of the earlier payment, when there is one */
+  public receipt?: PaymentReceipt;
+
+  constructor(message: string, idempotencyKey: string, receipt?: PaymentReceipt) {
+    super(message);
+    this.name = 'IdempotencyError';
+    this.idempotencyKey = idempotencyKey;
+    this.receipt = receipt;
+  }
+}
+
+/**
+ * Error thrown when the facilitator rejects a signed payment during
+ * simulation (policy.simulateBeforePay). Nothing was sent to the server.
+ */
+export class PaymentVerificationError extends PaymentBlockedError {
+  /** Facilitator's reason for rejecting the payload */
+  public verificationError?: string;
+
+  constructor(reason: string, receipt: PaymentReceipt, verificationError?: string) {
+    super(reason, receipt, { code: 'SIMULATION_FAILED' });
+    this.name = 'PaymentVerificationError';
+    this.verificationError = verificationError;
   }
 }
 
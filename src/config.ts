@@ -5,6 +5,9 @@
 
 import { base, mainnet, arbitrum, optimism, polygon } from 'viem/chains';
 import type { Chain } from 'viem';
+import type { RequirementSelector } from './requirements';
+import type { StorageAdapter, StorageOptions } from './storage';
+import type { RetentionPolicy } from './receipt-archive';
 
 // Network identifiers (CAIP-2 format for x402 v2)
 export const NETWORK_IDS = {
@@ -86,6 +89,183 @@ export interface PaymentPolicy {
   autoApproveUnder?: number;
   /** Simulate payment through facilitator before signing (extra safety) */
   simulateBeforePay?: boolean;
+  /**
+   * How daily/weekly/monthly limits are measured (default: 'calendar').
+   * 'calendar' resets at midnight, Monday and the 1st in `timezone`;
+   * 'rolling' counts the last 24 hours, 7 days and 30 days.
+   */
+  limitWindow?: 'calendar' | 'rolling';
+  /** IANA timezone for calendar resets, e.g. 'America/New_York' (default: 'UTC') */
+  timezone?: string;
+  /** Freeze all payments after this many blocked attempts within the window */
+  autoFreeze?: {
+    maxBlockedAttempts: number;
+    windowMinutes: number;
+  };
+  /**
+   * USD value of one unit of non-dollar assets, keyed by symbol (e.g.,
+   * { EURC: 1.08 }). Dollar limits apply to every asset after conversion;
+   * USD stablecoins default to 1, and assets without a rate are blocked.
+   */
+  assetRates?: Record<string, number>;
+  /** Limits in an asset's own units, keyed by symbol (e.g., { EURC: { dailyLimit: 20 } }) */
+  assetLimits?: Record<string, AssetLimits>;
+  /** Only pay on these networks — names ('baseSepolia') or CAIP-2 ids ('eip155:84532') */
+  allowedNetworks?: string[];
+  /** Never pay on these networks (takes priority over allowedNetworks) */
+  blockedNetworks?: string[];
+  /** Limits per network in USD, keyed by network name or CAIP-2 id */
+  networkLimits?: Record<string, NetworkLimits>;
+  /** Never pay these domains ('example.com' includes subdomains; '*.example.com' only subdomains) */
+  blockedDomains?: string[];
+  /** Rules for specific endpoints or domains, matched against the request URL */
+  urlRules?: UrlRule[];
+  /**
+   * Ordered allow/deny/limit rules, evaluated before the rules compiled
+   * from the fields above. See PolicyRule.
+   */
+  rules?: PolicyRule[];
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * Conditions a payment must meet for a rule to apply. Every condition set
+ * must hold; list conditions hold when any entry matches. A condition on
+ * something the payment doesn't carry (e.g., a domain when no URL is
+ * known) makes the rule not apply.
+ */
+export interface RuleConditions {
+  /** USD amount range, inclusive */
+  minAmount?: number;
+  maxAmount?: number;
+  recipients?: string[];
+  /** Hostnames — 'example.com' includes subdomains; '*.example.com' only subdomains */
+  domains?: string[];
+  /** URL globs ('*' within a path segment, '**' across) */
+  urls?: string[];
+  /** Regular expression tested against the full URL */
+  urlRegex?: string;
+  /** Network names or CAIP-2 ids */
+  networks?: string[];
+  /** Asset symbols */
+  assets?: string[];
+  /** Days of the week in the policy timezone */
+  days?: Weekday[];
+  /** Hours of the day in the policy timezone, from inclusive to exclusive (wraps past midnight if from > to) */
+  hours?: { from: number; to: number };
+  /** Tags passed with the payment (e.g., fetch(url, init, { tags: ['research'] })) */
+  tags?: string[];
+}
+
+/**
+ * One rule in the policy rule engine.
+ *
+ * Rules run in order. The first matching `allow` or `deny` rule decides
+ * whether the payment may be made, and later allow/deny rules are skipped.
+ * `limit` rules always run: they cap spending on the payments they match,
+ * and an allow rule can't lift them.
+ */
+export interface PolicyRule {
+  /** Name cited in decisions and receipts */
+  id: string;
+  effect: 'allow' | 'deny' | 'limit';
+  /** Rule applies when these hold (default: always) */
+  when?: RuleConditions;
+  /** ...and these don't */
+  unless?: RuleConditions;
+  /** Block reason for deny rules */
+  reason?: string;
+  /** Limit rules: caps on matching payments, in USD unless `unit` is 'asset' */
+  maxPerTransaction?: number;
+  dailyLimit?: number;
+  weeklyLimit?: number;
+  monthlyLimit?: number;
+  maxTransactionsPerHour?: number;
+  /** Apply the limits separately to each recipient, domain or network */
+  per?: 'recipient' | 'domain' | 'network';
+  /** Measure limits in the asset's own units (requires a single `assets` condition) */
+  unit?: 'usd' | 'asset';
+}
+
+/**
+ * Machine-readable reason a payment was blocked
+ */
+export type BlockCode =
+  | 'FROZEN'
+  | 'NO_ASSET_RATE'
+  | 'MAX_PER_TRANSACTION'
+  | 'DAILY_LIMIT'
+  | 'WEEKLY_LIMIT'
+  | 'MONTHLY_LIMIT'
+  | 'VELOCITY'
+  | 'RECIPIENT_BLOCKED'
+  | 'RECIPIENT_NOT_APPROVED'
+  | 'NETWORK_BLOCKED'
+  | 'NETWORK_NOT_ALLOWED'
+  | 'DOMAIN_BLOCKED'
+  | 'URL_BLOCKED'
+  | 'RULE_DENIED'
+  | 'DRY_RUN_REQUIRED'
+  | 'APPROVAL_DENIED'
+  | 'APPROVAL_TIMEOUT'
+  | 'SIMULATION_FAILED'
+  | 'SCOPE_EXPIRED';
+
+/**
+ * Why a payment was blocked, for code that reacts to blocks. Limit codes
+ * (DAILY_LIMIT, ...) cover every limit of that kind; `rule` says which one.
+ */
+export interface BlockDetails {
+  code: BlockCode;
+  /** Id of the policy rule that blocked the payment */
+  rule?: string;
+  /** The limit: USD, asset units for asset limits, or a transaction count for VELOCITY */
+  limit?: number;
+  /** Usage before this payment, in the same units as `limit` */
+  current?: number;
+  /** When enough of the limit frees up for this payment (ms since epoch) */
+  retryAfter?: number;
+  /** Budget scope whose limits blocked the payment (unset for the wallet policy) */
+  scope?: string;
+}
+
+/**
+ * Spending rule for requests whose URL matches. Every matcher that is set
+ * must match. Amounts are in USD.
+ */
+export interface UrlRule {
+  /** Label cited when the rule blocks a payment (default: the pattern) */
+  name?: string;
+  /** Hostname — 'example.com' includes subdomains; '*.example.com' only subdomains */
+  domain?: string;
+  /** URL glob, e.g. 'https://api.example.com/v1/*' ('*' within a path segment, '**' across) */
+  url?: string;
+  /** Regular expression tested against the full URL */
+  urlRegex?: string;
+  /** Block matching requests outright */
+  block?: boolean;
+  /** Maximum price of a single matching request */
+  maxPerRequest?: number;
+  /** Maximum per day across all matching requests */
+  dailyLimit?: number;
+}
+
+/**
+ * Limits for payments on a single network, in USD
+ */
+export interface NetworkLimits {
+  maxPerTransaction?: number;
+  dailyLimit?: number;
+  monthlyLimit?: number;
+}
+
+/**
+ * Limits for a single asset, in that asset's human units
+ */
+export interface AssetLimits {
+  maxPerTransaction?: number;
+  dailyLimit?: number;
 }
 
 /** Default conservative policy for agents */
@@ -97,6 +277,32 @@ export const DEFAULT_POLICY: PaymentPolicy = {
   requireDryRun: false,
 };
 
+/**
+ * When fetch() tries a request again. Failures before payment (network
+ * errors, timeouts, `retryOnStatus` answers to the unpaid request) are
+ * safe to retry. After signing, a retry resends the same authorization,
+ * so the payment can settle at most once; nothing is retried once a
+ * payment settled.
+ */
+export interface RetryPolicy {
+  /** Tries per request, including the first (default: 1, no retries) */
+  attempts?: number;
+  /** Wait before the first retry, doubled for each one after (default: 500ms) */
+  backoffMs?: number;
+  /** Statuses of the unpaid request worth retrying (default: 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Resend the signed authorization when its outcome is unknown (default: true) */
+  afterSigning?: boolean;
+}
+
+/** Default retry policy: a single try */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  attempts: 1,
+  backoffMs: 500,
+  retryOnStatus: [502, 503, 504],
+  afterSigning: true,
+};
+
 /**
  * Payment Receipt for audit trail
  */
@@ -106,13 +312,192 @@ export interface PaymentReceipt {
   url: string;
   amount: string;
   amountRaw: string;
+  /** Asset symbol (e.g., 'USDC', 'EURC') */
   currency: string;
+  /** Token contract address */
+  asset?: string;
+  /** USD value in atomic units (6 decimals), as counted against limits */
+  valueUsdRaw?: string;
   network: NetworkName;
   recipient: string;
   txHash?: string;
-  status: 'success' | 'failed' | 'pending' | 'blocked';
+  /** paid_failed: settled, but the server answered with an error or an empty body */
+  status: 'success' | 'paid_failed' | 'failed' | 'pending' | 'blocked' | 'awaiting_approval';
+  /** Why a paid_failed response counts as failed, e.g. 'HTTP 502 after payment' */
+  failureReason?: string;
+  /** Claim against the provider for a paid request (see AgentPayClient.openDispute) */
+  dispute?: PaymentDispute;
+  /** Where the payment got to, saved before signing (see recoverPayments) */
+  payment?: PaymentProgress;
   blockReason?: string;
+  /** Id of the policy rule that blocked the payment */
+  blockRule?: string;
+  /** Machine-readable block reason, with the limit and usage behind it */
+  blockCode?: BlockCode;
+  blockLimit?: number;
+  blockCurrent?: number;
+  /** When the payment could be retried (ISO 8601) */
+  retryAfter?: string;
+  /** Budget scope the payment was made in (see AgentPayClient.scope) */
+  scope?: string;
+  /** Labels passed with the request (see PaymentContext.tags) */
+  tags?: string[];
   facilitatorResponse?: unknown;
+  /** Human sign-off for payments at or above autoApproveUnder */
+  approval?: PaymentApproval;
+  /** Result of the last on-chain check of txHash (see reconcileReceipts) */
+  reconciliation?: ReceiptReconciliation;
+  /** Caller-supplied id tying the payment to an agent task or trace */
+  traceId?: string;
+  /** Key shared by every try of one logical request (sent as Idempotency-Key) */
+  idempotencyKey?: string;
+  /** Which try of the request this receipt is from (1 for the first) */
+  attempt?: number;
+  /** Receipt of the earlier try this one retried */
+  retryOf?: string;
+  /** Resource description the server advertised with the payment requirement */
+  description?: string;
+  /** Response MIME type the server advertised with the payment requirement */
+  mimeType?: string;
+  /** What was requested (see AgentPayConfig.provenance) */
+  request?: RequestProvenance;
+  /** What the server returned for the payment */
+  response?: ResponseProvenance;
+}
+
+/**
+ * Request details recorded on a receipt
+ */
+export interface RequestProvenance {
+  method: string;
+  /** SHA-256 of the request body (hex); unset without a body or for streamed and multipart bodies */
+  bodyHash?: string;
+  /** Body text, redacted (only with provenance.bodies: 'full') */
+  body?: string;
+  /** Request headers, redacted (only with provenance.headers) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Response details recorded on a receipt
+ */
+export interface ResponseProvenance {
+  status: number;
+  contentType?: string;
+  /** SHA-256 of the response body (hex) */
+  contentHash?: string;
+  /** Response body size in bytes */
+  contentLength?: number;
+  /** Body text, redacted and truncated (only with provenance.bodies: 'full', for text responses) */
+  body?: string;
+  /** Response headers, redacted (only with provenance.headers) */
+  headers?: Record<string, string>;
+  /** Time from sending the request to receiving the paid response, in ms */
+  latencyMs: number;
+}
+
+/**
+ * What to record about requests and responses on receipts
+ */
+export interface ProvenanceOptions {
+  /** Record request and response headers (default: false) */
+  headers?: boolean;
+  /** Headers recorded as '[redacted]' — added to the defaults (authorization, cookies, API keys, payment headers) */
+  redactHeaders?: string[];
+  /** 'hash' records body hashes (default), 'full' also the body text, 'none' neither */
+  bodies?: 'none' | 'hash' | 'full';
+  /** Longest body text kept with bodies: 'full', in bytes (default: 4096) */
+  maxBodyBytes?: number;
+  /** Rewrite body text before it is recorded, e.g. to mask secrets */
+  redactBody?: (body: string, kind: 'request' | 'response') => string;
+}
+
+/**
+ * Approval record attached to a receipt that needed human sign-off
+ */
+export interface PaymentApproval {
+  requestedAt: string;
+  /** Undecided requests are denied at this time */
+  expiresAt: string;
+  decision?: 'approved' | 'denied' | 'timeout';
+  decidedAt?: string;
+  /** Who decided (e.g., 'callback', 'mcp', a username) */
+  decidedBy?: string;
+  note?: string;
+}
+
+/**
+ * Payment lifecycle: quoted → reserved → signed → settled, failed or
+ * unknown (signed and sent, outcome not yet known)
+ */
+export type PaymentState = 'quoted' | 'reserved' | 'signed' | 'settled' | 'failed' | 'unknown';
+
+/**
+ * A payment's progress through its states, saved on the receipt so a
+ * crash mid-payment can be recovered
+ */
+export interface PaymentProgress {
+  state: PaymentState;
+  /** Every state entered, oldest first */
+  history: { state: PaymentState; at: string; reason?: string }[];
+  /** Budget reservations held for the payment: the wallet's, then each scope's */
+  reservationIds?: string[];
+  /** EIP-3009 authorization that was signed, to look up on chain */
+  authorization?: { from: string; nonce: string; validBefore: string };
+}
+
+/**
+ * Dispute with a provider over a paid request
+ */
+export interface PaymentDispute {
+  status: 'open' | 'resolved';
+  openedAt: string;
+  reason: string;
+  /** Who opened it (e.g., 'auto', 'mcp', a username) */
+  openedBy?: string;
+  /** Follow-ups, oldest first */
+  notes?: DisputeNote[];
+  resolvedAt?: string;
+  resolvedBy?: string;
+  /** Transaction that refunded the payment, if the provider paid it back */
+  refundTxHash?: string;
+  resolution?: string;
+}
+
+export interface DisputeNote {
+  at: string;
+  text: string;
+  by?: string;
+}
+
+/**
+ * On-chain check of a paid receipt's settlement transaction
+ */
+export interface ReceiptReconciliation {
+  /** confirmed: the transaction paid the recorded amount to the recipient;
+   *  mismatch: it exists but differs (or reverted); not_found: no such transaction */
+  status: 'confirmed' | 'mismatch' | 'not_found';
+  checkedAt: string;
+  /** Amount the transaction paid the recipient, in the asset's atomic units */
+  chargedRaw?: string;
+  blockNumber?: string;
+  discrepancies?: string[];
+}
+
+/**
+ * Payment awaiting human approval, passed to onApprovalRequired
+ */
+export interface ApprovalRequest {
+  /** Receipt id — use it with approvePayment/denyPayment */
+  id: string;
+  url: string;
+  amount: number;
+  amountRaw: string;
+  /** Asset symbol (e.g., 'USDC', 'EURC') */
+  currency: string;
+  recipient: string;
+  network: NetworkName;
+  expiresAt: string;
 }
 
 /**
@@ -125,12 +510,56 @@ export interface AgentPayConfig {
   network?: NetworkName;
   /** Spending policy */
   policy?: PaymentPolicy;
+  /** JSON or YAML policy file (takes precedence over `policy`) */
+  policyFile?: string;
+  /** Reload the policy file when it changes (default: true) */
+  watchPolicyFile?: boolean;
+  /** Callback when a changed policy file has been loaded (nothing is logged otherwise) */
+  onPolicyReload?: (policy: PaymentPolicy, policyFile: string) => void;
+  /** Directory for spending.json and receipts.json (default: current directory) */
+  stateDir?: string;
+  /** Path to store spending state (default: ./spending.json) */
+  spendingPath?: string;
   /** Path to store receipts (default: ./receipts.json) */
   receiptsPath?: string;
-  /** Callback when payment is made */
+  /** Storage backend for spending state and receipts (overrides stateDir and paths) */
+  storage?: StorageAdapter | StorageOptions;
+  /**
+   * Move old receipts into compressed monthly archives. archiveDir defaults
+   * to an 'archive' directory next to the receipts (required for memory
+   * storage and custom adapters).
+   */
+  retention?: Omit<RetentionPolicy, 'archiveDir'> & { archiveDir?: string };
+  /** Request and response details recorded on receipts (default: method, status, body hashes, latency) */
+  provenance?: ProvenanceOptions;
+  /** Callback when payment is made (receipt.status is 'paid_failed' if the server then failed) */
   onPayment?: (receipt: PaymentReceipt) => void;
+  /** Open a dispute on every paid_failed receipt (default: false) */
+  autoDispute?: boolean;
+  /** Resolve payments left pending by a crash when the client starts (default: true) */
+  recoverOnStart?: boolean;
+  /** Abort each HTTP request fetch() makes after this long (default: no timeout) */
+  timeoutMs?: number;
+  /** When fetch() tries a request again (default: never) */
+  retry?: RetryPolicy;
   /** Callback when payment is blocked by policy */
   onBlocked?: (reason: string, details: unknown) => void;
+  /**
+   * Ask a human to approve payments at or above policy.autoApproveUnder.
+   * Resolve true/false to decide, or resolve without a value to leave the
+   * decision to approvePayment()/denyPayment() (e.g., from the MCP tools).
+   */
+  onApprovalRequired?: (request: ApprovalRequest) => Promise<boolean | void>;
+  /** Hold payments for approval even without onApprovalRequired (decided via approvePayment/denyPayment) */
+  requireApproval?: boolean;
+  /** How long to wait for an approval decision before denying (default: 5 minutes) */
+  approvalTimeoutMs?: number;
+  /** Facilitator used to verify signed payments when policy.simulateBeforePay is set */
+  facilitatorUrl?: string;
   /** Disable protocol fee (0.5% to x402-agent-pay maintainers). Default: false */
   disableProtocolFee?: boolean;
+  /** Networks the wallet may pay on when a server offers several (default: all) */
+  supportedNetworks?: NetworkName[];
+  /** Custom choice among eligible payment options (default: cheapest) */
+  requirementSelector?: RequirementSelector;
 }
@@ -5,6 +5,9 @@
  * No competitor has this — agents can find paid APIs without hardcoding URLs
  */
 
+import type { ServiceReliability } from './disputes';
+import { getHostname, matchesDomain } from './url-rules';
+
 export interface X402Service {
   /** Unique service ID */
   id: string;
@@ -29,6 +32,8 @@ export interface X402Service {
     rateLimit?: string;
     uptime?: number;
   };
+  /** What this wallet has seen paying the service (see setReliability) */
+  reliability?: ServiceReliability;
 }
 
 export interface X402Endpoint {
@@ -66,15 +71,40 @@ export class ServiceDiscovery {
   private cache: X402Service[] | null = null;
   private cacheTime: number = 0;
   private cacheTTL: number = 5 * 60 * 1000; // 5 minutes
+  private reliability: ServiceReliability[] = [];
 
   constructor(registryUrl: string = DEFAULT_REGISTRY_URL) {
     this.registryUrl = registryUrl;
   }
 
+  /**
+   * Attach observed reliability (AgentPayClient.getServiceReliability())
+   * to the services it covers, matched by URL host
+   */
+  setReliability(stats: ServiceReliability[]): void {
+    this.reliability = stats;
+  }
+
   /**
    * Fetch all registered services
    */
   async getAllServices(): Promise<X402Service[]> {
+    return this.withReliability(await this.fetchServices());
+  }
+
+  private withReliability(services: X402Service[]): X402Service[] {
+    if (this.reliability.length === 0) return services;
+    return services.map(service => {
+      const host = getHostname(service.url);
+      // An exact host match first, then payments to one of its subdomains
+      const stats = host === undefined
+        ? undefined
+        : this.reliability.find(s => s.host === host) ?? this.reliability.find(s => matchesDomain(s.host, host));
+      return stats ? { ...service, reliability: stats } : service;
+    });
+  }
+
+  private async fetchServices(): Promise<X402Service[]> {
     if (this.cache && Date.now() - this.cacheTime < this.cacheTTL) {
       return this.cache;
     }
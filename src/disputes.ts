@@ -0,0 +1,165 @@
+/**
+ * Paid-but-failed Responses and Disputes
+ * Tracks payments the server settled and then failed to deliver on
+ *
+ * A settlement header on a 4xx/5xx or an empty response means the money
+ * moved but nothing usable came back. fetch() records those receipts as
+ * `paid_failed` instead of `success`, so spend reports leave them out and
+ * reliability stats count them against the service. A dispute on the
+ * receipt tracks the claim with the provider from opening, through notes,
+ * to resolution with the refund transaction.
+ */
+
+import { PaymentDispute, PaymentReceipt, ResponseProvenance } from './config';
+import { receiptValueRaw } from './money';
+import { ReceiptFilter, ReceiptStore } from './receipts';
+import { getHostname } from './url-rules';
+
+/**
+ * Why a paid response counts as failed, or undefined if it was delivered.
+ * Error statuses and empty bodies fail; 204 No Content is a valid answer.
+ *
+ * @param described - The recorded response, whose contentLength settles
+ *   emptiness when bodies are hashed
+ */
+export function paidFailureReason(response: Response, described?: ResponseProvenance): string | undefined {
+  if (response.status >= 400) return `HTTP ${response.status} after payment`;
+  if (response.status === 204) return undefined;
+
+  const empty = described?.contentLength !== undefined
+    ? described.contentLength === 0
+    : response.body === null || response.headers.get('content-length') === '0';
+  return empty ? 'Empty response after payment' : undefined;
+}
+
+/**
+ * Paid requests and failures for one service (URL host)
+ */
+export interface ServiceReliability {
+  host: string;
+  /** Settled payments: success and paid_failed */
+  paid: number;
+  /** Payments that were settled but failed (paid_failed) */
+  failed: number;
+  /** failed / paid */
+  failureRate: number;
+  /** USD value of failed payments, in atomic units (6 decimals) */
+  failedValueRaw: string;
+  openDisputes: number;
+  /** Disputes resolved with a refund transaction */
+  refunded: number;
+  /** Mean latency of paid responses, when recorded */
+  averageLatencyMs?: number;
+}
+
+/**
+ * Reliability per service host, least reliable first
+ */
+export function serviceReliability(receipts: Iterable<PaymentReceipt>): ServiceReliability[] {
+  const byHost = new Map<string, ServiceReliability & { latencyTotal: number; latencyCount: number; failedValue: bigint }>();
+
+  for (const receipt of receipts) {
+    if (receipt.status !== 'success' && receipt.status !== 'paid_failed') continue;
+    const host = getHostname(receipt.url) ?? receipt.url;
+    const stats = byHost.get(host) ?? {
+      host, paid: 0, failed: 0, failureRate: 0, failedValueRaw: '0', openDisputes: 0, refunded: 0,
+      latencyTotal: 0, latencyCount: 0, failedValue: 0n,
+    };
+    stats.paid += 1;
+    if (receipt.status === 'paid_failed') {
+      stats.failed += 1;
+      stats.failedValue += receiptValueRaw(receipt);
+    }
+    if (receipt.dispute?.status === 'open') stats.openDisputes += 1;
+    if (receipt.dispute?.refundTxHash) stats.refunded += 1;
+    if (receipt.response) {
+      stats.latencyTotal += receipt.response.latencyMs;
+      stats.latencyCount += 1;
+    }
+    byHost.set(host, stats);
+  }
+
+  return [...byHost.values()]
+    .map(({ latencyTotal, latencyCount, failedValue, ...stats }) => ({
+      ...stats,
+      failureRate: stats.failed / stats.paid,
+      failedValueRaw: failedValue.toString(),
+      ...(latencyCount > 0 && { averageLatencyMs: Math.round(latencyTotal / latencyCount) }),
+    }))
+    .sort((a, b) => b.failureRate - a.failureRate || a.host.localeCompare(b.host));
+}
+
+/**
+ * Disputes over paid receipts, backed by the receipt store
+ */
+export class DisputeLedger {
+  private receipts: ReceiptStore;
+
+  constructor(receipts: ReceiptStore) {
+    this.receipts = receipts;
+  }
+
+  /**
+   * Open a dispute on a paid receipt (success or paid_failed).
+   * Returns null if the receipt isn't paid or already has an open dispute.
+   */
+  open(id: string, reason: string, openedBy = 'manual'): PaymentReceipt | null {
+    const receipt = this.receipts.getById(id);
+    if (!receipt || (receipt.status !== 'success' && receipt.status !== 'paid_failed')) return null;
+    if (receipt.dispute?.status === 'open') return null;
+
+    const dispute: PaymentDispute = {
+      status: 'open',
+      openedAt: new Date().toISOString(),
+      reason,
+      openedBy,
+    };
+    return this.receipts.updateReceipt(id, { dispute });
+  }
+
+  /**
+   * Add a follow-up to an open dispute. Returns null if there is none.
+   */
+  note(id: string, text: string, by?: string): PaymentReceipt | null {
+    const dispute = this.openDispute(id);
+    if (!dispute) return null;
+
+    const notes = [...(dispute.notes ?? []), { at: new Date().toISOString(), text, by }];
+    return this.receipts.updateReceipt(id, { dispute: { ...dispute, notes } });
+  }
+
+  /**
+   * Close an open dispute, with the refund transaction if the provider
+   * paid the money back. Returns null if there is no open dispute.
+   */
+  resolve(
+    id: string,
+    resolution: { refundTxHash?: string; resolution?: string; resolvedBy?: string } = {}
+  ): PaymentReceipt | null {
+    const dispute = this.openDispute(id);
+    if (!dispute) return null;
+
+    return this.receipts.updateReceipt(id, {
+      dispute: {
+        ...dispute,
+        status: 'resolved',
+        resolvedAt: new Date().toISOString(),
+        resolvedBy: resolution.resolvedBy ?? 'manual',
+        refundTxHash: resolution.refundTxHash,
+        resolution: resolution.resolution,
+      },
+    });
+  }
+
+  /**
+   * Disputed receipts, oldest first
+   */
+  list(status?: PaymentDispute['status'], filter: ReceiptFilter = {}): PaymentReceipt[] {
+    return this.receipts.query({ ...filter, dispute: status ?? ['open', 'resolved'], order: 'asc' }).receipts;
+  }
+
+  private openDispute(id: string): PaymentDispute | undefined {
+    const dispute = this.receipts.getById(id)?.dispute;
+    return dispute?.status === 'open' ? dispute : undefined;
+  }
+}
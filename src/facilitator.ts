@@ -32,7 +32,10 @@ export async function verifyPayment(
 ): Promise<{ isValid: boolean; error?: string }> {
   try {
     const result = await facilitator.verify(paymentPayload as any, requirements as any);
-    return { isValid: result.isValid, error: result.isValid ? undefined : 'Verification failed' };
+    return {
+      isValid: result.isValid,
+      error: result.isValid ? undefined : result.invalidReason || 'Verification failed',
+    };
   } catch (error) {
     return { isValid: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
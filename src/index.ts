@@ -1,26 +1,208 @@
 /**
  * x402-agent-pay
- * Seamless USDC payments for AI agents using the x402 protocol
+ * Seamless stablecoin payments for AI agents using the x402 protocol
  * 
  * Built on the official @x402/fetch SDK with added:
  * - Spending controls (per-tx limits, daily/weekly/monthly limits, velocity limits)
  * - Recipient whitelist/blacklist
- * - Receipt storage and audit trail
+ * - Ordered allow/deny/limit policy rules with explained decisions
+ * - Budget scopes for sub-agents and tasks sharing one wallet
+ * - Receipt storage and a tamper-evident, signed audit trail
+ * - Receipt export to CSV, JSON Lines, OFX and QIF
+ * - Receipt retention with compressed monthly archives
+ * - Request and response provenance on receipts
+ * - Paid-but-failed detection, disputes and per-service reliability
+ * - Payment states on receipts, with recovery of interrupted payments
+ * - On-chain reconciliation of receipts against settlement transactions
  * - Facilitator integration
  * - Policy enforcement for autonomous agents
  */
 
 // Main client
-export { AgentPayClient, PaymentBlockedError, createSimpleFetch } from './client';
+export {
+  AgentPayClient,
+  PaymentBlockedError,
+  PaymentVerificationError,
+  IdempotencyError,
+  createSimpleFetch,
+  type PaymentQuote,
+} from './client';
 
 // Balance utilities
-export { checkBalance, checkAllBalances, hasSufficientBalance, getUsdcAddress } from './balance';
+export { checkBalance, checkAllBalances, hasSufficientBalance, getUsdcAddress, type BalanceResult } from './balance';
 
 // Policy enforcement
-export { PolicyEnforcer } from './policy';
+export {
+  PolicyEnforcer,
+  DEFAULT_RESERVATION_TTL_MS,
+  type PolicyAmount,
+  type PaymentContext,
+  type SpendReservation,
+  type FreezeState,
+  type FreezeEvent,
+} from './policy';
+
+// Budget scopes
+export {
+  BudgetScope,
+  ScopeRegistry,
+  type ScopeOptions,
+  type ScopeRecord,
+  type ScopeStatus,
+} from './scopes';
+
+// Policy files
+export {
+  loadPolicyFile,
+  parsePolicy,
+  validatePolicy,
+  validateInlinePolicy,
+  getPolicyIssues,
+  watchPolicyFile,
+  PolicyValidationError,
+} from './policy-file';
+
+// Payment requirement selection
+export {
+  parsePaymentOptions,
+  selectRequirement,
+  cheapestSelector,
+  resolveNetwork,
+  type PaymentOption,
+  type RequirementSelection,
+  type RequirementSelector,
+} from './requirements';
+
+// Policy rule engine
+export {
+  compilePolicy,
+  evaluatePolicy,
+  type PolicyDecision,
+  type RuleEvaluation,
+  type RuleLedger,
+  type RulePayment,
+} from './rules';
+
+// URL and domain rules
+export { matchesUrlRule, matchesDomain, globToRegExp } from './url-rules';
+
+// Asset registry
+export {
+  registerAsset,
+  getAsset,
+  findAsset,
+  listAssets,
+  EURC_ADDRESSES,
+  type AssetInfo,
+  type AssetAmount,
+} from './assets';
+
+// Human approval
+export { ApprovalQueue, DEFAULT_APPROVAL_TIMEOUT_MS } from './approvals';
+
+// Exact money arithmetic
+export { toAtomic, fromAtomic, formatAtomic, formatUsd, sumAtomic, feeFromBps, receiptValueRaw, USDC_DECIMALS } from './money';
 
 // Receipt storage
-export { ReceiptStore } from './receipts';
+export {
+  ReceiptStore,
+  type ReceiptFilter,
+  type ReceiptQuery,
+  type ReceiptPage,
+  type SpendGrouping,
+  type SpendGroup,
+} from './receipts';
+
+// Receipt export
+export {
+  exportReceipts,
+  EXPORT_FORMATS,
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  type ExportFormat,
+  type ExportColumn,
+  type ExportOptions,
+} from './receipt-export';
+
+// Receipt retention and archives
+export {
+  ReceiptArchive,
+  ReceiptLogArchive,
+  receiptsToArchive,
+  DEFAULT_COMPACT_EVERY,
+  type RetentionPolicy,
+  type CompactionResult,
+} from './receipt-archive';
+
+// Request and response provenance
+export {
+  describeRequest,
+  describeResponse,
+  describeResponseHead,
+  trackResponseBody,
+  redactHeaders,
+  DEFAULT_REDACTED_HEADERS,
+} from './provenance';
+
+// Paid-but-failed responses and disputes
+export {
+  DisputeLedger,
+  paidFailureReason,
+  serviceReliability,
+  type ServiceReliability,
+} from './disputes';
+
+// Payment states and recovery
+export {
+  recoverPayments,
+  advancePayment,
+  startPayment,
+  receiptStatusFor,
+  PAYMENT_TRANSITIONS,
+  DEFAULT_RECOVERY_AGE_MS,
+  type AuthorizationReader,
+  type AuthorizationReaders,
+  type RecoveryResult,
+  type RecoveryReport,
+} from './payment-state';
+
+// Tamper-evident receipt log
+export {
+  verifyReceiptLog,
+  createReceiptSigner,
+  hashEntry,
+  receiptDigest,
+  GENESIS_HASH,
+  type ReceiptLogEntry,
+  type ReceiptLogHead,
+  type ReceiptLogCheckpoint,
+  type ReceiptSigner,
+  type LogVerification,
+  type LogProblem,
+} from './receipt-log';
+
+// On-chain reconciliation
+export {
+  reconcileReceipt,
+  reconcileReceipts,
+  type ChainReader,
+  type ChainReaders,
+  type ReconcileResult,
+  type ReconciliationReport,
+  type ReconciliationStatus,
+} from './reconcile';
+
+// Storage backends
+export {
+  MemoryStorage,
+  JsonFileStorage,
+  JsonlStorage,
+  SqliteStorage,
+  StorageLockError,
+  createStorage,
+  type StorageAdapter,
+  type StorageOptions,
+} from './storage';
 
 // Facilitator integration
 export { 
@@ -40,9 +222,29 @@ export {
   PROTOCOL_FEE_ADDRESS,
   PROTOCOL_FEE_BPS,
   DEFAULT_POLICY,
+  DEFAULT_RETRY_POLICY,
   type NetworkName,
   type PaymentPolicy,
+  type AssetLimits,
+  type NetworkLimits,
+  type UrlRule,
+  type BlockCode,
+  type BlockDetails,
+  type PolicyRule,
+  type RuleConditions,
+  type Weekday,
   type PaymentReceipt,
+  type PaymentApproval,
+  type ReceiptReconciliation,
+  type PaymentDispute,
+  type DisputeNote,
+  type PaymentState,
+  type PaymentProgress,
+  type RequestProvenance,
+  type ResponseProvenance,
+  type ProvenanceOptions,
+  type RetryPolicy,
+  type ApprovalRequest,
   type AgentPayConfig,
 } from './config';
 
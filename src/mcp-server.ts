@@ -7,10 +7,17 @@
  * 
  * Tools exposed:
  * - x402_pay: Make a payment to an x402-enabled endpoint
+ * - x402_quote: Dry run — price and policy verdict without paying
  * - x402_discover: Find x402 services by category/price/network
- * - x402_balance: Check USDC balance on a network
+ * - x402_balance: Check a token balance (USDC, EURC, ...) on a network
  * - x402_status: Get current spending status
- * - x402_history: Get recent payment history
+ * - x402_history: Search payment history and total spending by day, recipient, host or network
+ * - x402_pending_approvals: List payments waiting for human approval
+ * - x402_approve: Approve a pending payment
+ * - x402_deny: Deny a pending payment
+ * - x402_dispute: Open, follow up or resolve a dispute over a paid request
+ * - x402_freeze: Emergency stop — block all payments
+ * - x402_unfreeze: Lift a freeze
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -21,10 +28,11 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { AgentPayClient } from './client';
-import { discoverServices, ServiceCategory } from './discovery';
+import { AgentPayClient, PaymentBlockedError } from './client';
+import { discoverServices, getDiscovery, ServiceCategory } from './discovery';
 import { checkBalance } from './balance';
 import { NetworkName } from './config';
+import { ReceiptQuery, SpendGrouping } from './receipts';
 
 // Get wallet key from environment
 const WALLET_KEY = process.env.X402_WALLET_KEY || process.env.WALLET_PRIVATE_KEY;
@@ -38,6 +46,13 @@ if (!WALLET_KEY) {
 const client = new AgentPayClient({
   privateKey: WALLET_KEY,
   network: (process.env.X402_NETWORK as NetworkName) || 'base',
+  policyFile: process.env.X402_POLICY_FILE,
+  // stdout carries the MCP protocol, so log to stderr
+  onPolicyReload: (_policy, policyFile) => console.error(`[x402] Policy reloaded from ${policyFile}`),
+  stateDir: process.env.X402_STATE_DIR,
+  facilitatorUrl: process.env.X402_FACILITATOR_URL,
+  // Hold payments at or above autoApproveUnder until approved via x402_approve
+  requireApproval: process.env.X402_REQUIRE_APPROVAL === 'true',
 });
 
 // Define MCP tools
@@ -66,6 +81,47 @@ const tools: Tool[] = [
           enum: ['base', 'ethereum', 'arbitrum', 'optimism', 'polygon', 'baseSepolia'],
           description: 'Network for payment (default: base)',
         },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Labels matched by tag conditions in policy rules',
+        },
+        traceId: {
+          type: 'string',
+          description: 'Id of your current task or trace, recorded on the receipt',
+        },
+        idempotencyKey: {
+          type: 'string',
+          description: 'Key for this request; reuse it when retrying so the request is never paid twice',
+        },
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'x402_quote',
+    description: 'Dry run: show what an x402 endpoint would charge and whether policy allows it, without paying.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'The URL to quote',
+        },
+        method: {
+          type: 'string',
+          enum: ['GET', 'POST', 'PUT', 'DELETE'],
+          description: 'HTTP method (default: GET)',
+        },
+        body: {
+          type: 'string',
+          description: 'Request body for POST/PUT requests (JSON string)',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Labels matched by tag conditions in policy rules',
+        },
       },
       required: ['url'],
     },
@@ -98,7 +154,7 @@ const tools: Tool[] = [
   },
   {
     name: 'x402_balance',
-    description: 'Check USDC balance for the configured wallet on a specific network.',
+    description: 'Check a token balance (USDC by default) for the configured wallet on a specific network.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -107,6 +163,10 @@ const tools: Tool[] = [
           enum: ['base', 'ethereum', 'arbitrum', 'optimism', 'polygon', 'baseSepolia'],
           description: 'Network to check balance on (default: base)',
         },
+        asset: {
+          type: 'string',
+          description: 'Token symbol or address, e.g. USDC or EURC (default: USDC)',
+        },
       },
     },
   },
@@ -120,13 +180,166 @@ const tools: Tool[] = [
   },
   {
     name: 'x402_history',
-    description: 'Get recent payment history with receipts.',
+    description: 'Get payment history with receipts, newest first. Filter by date, status, network, recipient, host, amount, tags or trace id; page with cursor; or set groupBy to total spending per day, month, recipient, host or network.',
     inputSchema: {
       type: 'object',
       properties: {
         limit: {
           type: 'number',
-          description: 'Number of recent payments to return (default: 10)',
+          description: 'Number of payments to return (default: 10)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page',
+        },
+        from: {
+          type: 'string',
+          description: 'Earliest payment time, inclusive (ISO 8601, e.g. "2026-01-01")',
+        },
+        to: {
+          type: 'string',
+          description: 'Latest payment time, exclusive (ISO 8601)',
+        },
+        status: {
+          type: 'string',
+          enum: ['success', 'paid_failed', 'failed', 'pending', 'blocked', 'awaiting_approval'],
+          description: 'Only payments with this status',
+        },
+        network: {
+          type: 'string',
+          description: 'Only payments on this network (e.g., base)',
+        },
+        recipient: {
+          type: 'string',
+          description: 'Only payments to this address',
+        },
+        host: {
+          type: 'string',
+          description: 'Only requests to this host (subdomains included)',
+        },
+        minAmount: {
+          type: 'number',
+          description: 'Only payments worth at least this many USD',
+        },
+        maxAmount: {
+          type: 'number',
+          description: 'Only payments worth at most this many USD',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only payments with any of these tags',
+        },
+        traceId: {
+          type: 'string',
+          description: 'Only payments made with this trace id',
+        },
+        dispute: {
+          type: 'string',
+          enum: ['open', 'resolved'],
+          description: 'Only payments with a dispute in this state',
+        },
+        groupBy: {
+          type: 'string',
+          enum: ['day', 'month', 'recipient', 'host', 'network'],
+          description: 'Return successful spending totals per group instead of receipts',
+        },
+      },
+    },
+  },
+  {
+    name: 'x402_pending_approvals',
+    description: 'List payments waiting for human approval (amount, recipient, URL, and when the request expires).',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'x402_approve',
+    description: 'Approve a payment that is waiting for human approval. Only call this when the user explicitly approves.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Receipt id of the pending payment',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'x402_deny',
+    description: 'Deny a payment that is waiting for human approval.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Receipt id of the pending payment',
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the payment was denied',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'x402_dispute',
+    description: 'Track a dispute with a provider over a paid request (e.g., a paid_failed receipt): open it, add notes, or resolve it with the refund transaction.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['open', 'note', 'resolve'],
+          description: 'What to do',
+        },
+        id: {
+          type: 'string',
+          description: 'Receipt id of the paid request',
+        },
+        text: {
+          type: 'string',
+          description: 'Reason (open), note text (note) or outcome (resolve)',
+        },
+        refundTxHash: {
+          type: 'string',
+          description: 'With resolve: transaction that refunded the payment',
+        },
+      },
+      required: ['action', 'id'],
+    },
+  },
+  {
+    name: 'x402_freeze',
+    description: 'Emergency stop: block all payments until unfrozen. Persists across restarts.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        reason: {
+          type: 'string',
+          description: 'Why payments are being frozen',
+        },
+      },
+    },
+  },
+  {
+    name: 'x402_unfreeze',
+    description: 'Lift a payment freeze, optionally after a cooldown.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cooldownMinutes: {
+          type: 'number',
+          description: 'Keep blocking payments for this many minutes before resuming',
+        },
+        reason: {
+          type: 'string',
+          description: 'Why payments are being resumed',
         },
       },
     },
@@ -158,11 +371,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     switch (name) {
       case 'x402_pay': {
-        const { url, method = 'GET', body, network } = args as {
+        const { url, method = 'GET', body, network, tags, traceId, idempotencyKey } = args as {
           url: string;
           method?: string;
           body?: string;
           network?: NetworkName;
+          tags?: string[];
+          traceId?: string;
+          idempotencyKey?: string;
         };
 
         const init: RequestInit = { method };
@@ -171,7 +387,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           init.headers = { 'Content-Type': 'application/json' };
         }
 
-        const response = await client.fetch(url, init, { network });
+        const response = await client.fetch(url, init, { network, tags, traceId, idempotencyKey });
         const data = await response.text();
 
         return {
@@ -188,6 +404,55 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'x402_quote': {
+        const { url, method = 'GET', body, tags } = args as {
+          url: string;
+          method?: string;
+          body?: string;
+          tags?: string[];
+        };
+
+        const init: RequestInit = { method };
+        if (body && (method === 'POST' || method === 'PUT')) {
+          init.body = body;
+          init.headers = { 'Content-Type': 'application/json' };
+        }
+
+        const quote = await client.dryRun(url, init, { tags });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                paymentRequired: quote.paymentRequired,
+                amount: quote.amount,
+                currency: quote.currency,
+                valueUsd: quote.valueUsd,
+                recipient: quote.recipient,
+                network: quote.network,
+                allowed: quote.allowed,
+                reason: quote.reason,
+                rule: quote.rule,
+                code: quote.block?.code,
+                // Rules that applied, in evaluation order
+                rules: quote.evaluated
+                  ?.filter(e => e.outcome !== 'not-matched')
+                  .map(e => ({ rule: e.rule, outcome: e.outcome, reason: e.reason })),
+                requiresApproval: quote.requiresApproval,
+                remaining: quote.remaining,
+                expiresAt: quote.expiresAt,
+                skipped: quote.rejected.map(r => ({
+                  amount: r.option.amount,
+                  network: r.option.networkId,
+                  reason: r.reason,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'x402_discover': {
         const { category, maxPrice, network, query } = args as {
           category?: ServiceCategory;
@@ -196,6 +461,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           query?: string;
         };
 
+        // Rank by what this wallet has seen: paid requests and paid-but-failed responses per host
+        getDiscovery().setReliability(client.getServiceReliability());
         const services = await discoverServices({ category, maxPrice, network, query });
 
         return {
@@ -211,6 +478,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   category: s.category,
                   priceRange: s.priceRange,
                   endpoints: s.endpoints,
+                  reliability: s.reliability,
                 })),
               }, null, 2),
             },
@@ -219,9 +487,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'x402_balance': {
-        const { network = 'base' } = args as { network?: NetworkName };
+        const { network = 'base', asset = 'USDC' } = args as { network?: NetworkName; asset?: string };
         const address = client.getAddress();
-        const balance = await checkBalance(address, network);
+        const balance = await checkBalance(address, network, undefined, asset);
 
         return {
           content: [
@@ -230,7 +498,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify({
                 address,
                 network,
-                balanceUsdc: balance,
+                asset: balance.symbol,
+                balance: balance.balance,
               }, null, 2),
             },
           ],
@@ -238,7 +507,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'x402_status': {
-        const status = client.getSpendingStatus();
+        const status = {
+          ...client.getSpendingStatus(),
+          freezeHistory: client.getFreezeHistory().slice(-10),
+        };
 
         return {
           content: [
@@ -251,22 +523,160 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'x402_history': {
-        const { limit = 10 } = args as { limit?: number };
-        const history = client.getHistory(limit);
+        const { limit = 10, cursor, groupBy, ...filter } = args as ReceiptQuery & { groupBy?: SpendGrouping };
+
+        if (groupBy) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  groupBy,
+                  groups: client.getSpendBreakdown(groupBy, filter),
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const page = client.queryHistory({ ...filter, limit, cursor });
 
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
-                count: history.length,
-                receipts: history,
+                count: page.receipts.length,
+                total: page.total,
+                nextCursor: page.nextCursor,
+                receipts: page.receipts,
               }, null, 2),
             },
           ],
         };
       }
 
+      case 'x402_pending_approvals': {
+        const pending = client.getPendingApprovals();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                count: pending.length,
+                pending: pending.map(r => ({
+                  id: r.id,
+                  url: r.url,
+                  amount: r.amount,
+                  currency: r.currency,
+                  recipient: r.recipient,
+                  network: r.network,
+                  requestedAt: r.approval?.requestedAt,
+                  expiresAt: r.approval?.expiresAt,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'x402_approve':
+      case 'x402_deny': {
+        const { id, reason } = args as { id: string; reason?: string };
+        const receipt = name === 'x402_approve'
+          ? client.approvePayment(id, 'mcp')
+          : client.denyPayment(id, reason, 'mcp');
+
+        if (!receipt) {
+          return {
+            content: [{ type: 'text', text: `No payment awaiting approval with id ${id}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                id: receipt.id,
+                status: receipt.status,
+                approval: receipt.approval,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'x402_dispute': {
+        const { action, id, text, refundTxHash } = args as {
+          action: 'open' | 'note' | 'resolve';
+          id: string;
+          text?: string;
+          refundTxHash?: string;
+        };
+        const receipt = action === 'open'
+          ? client.openDispute(id, text ?? 'Disputed via MCP', 'mcp')
+          : action === 'note'
+            ? client.addDisputeNote(id, text ?? '', 'mcp')
+            : client.resolveDispute(id, { refundTxHash, resolution: text, resolvedBy: 'mcp' });
+
+        if (!receipt) {
+          return {
+            content: [{
+              type: 'text',
+              text: action === 'open'
+                ? `No paid receipt without an open dispute with id ${id}`
+                : `No open dispute on receipt ${id}`,
+            }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                id: receipt.id,
+                status: receipt.status,
+                failureReason: receipt.failureReason,
+                dispute: receipt.dispute,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'x402_freeze': {
+        const { reason } = args as { reason?: string };
+        const frozen = client.freeze(reason, 'mcp');
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ frozen }, null, 2) }],
+        };
+      }
+
+      case 'x402_unfreeze': {
+        const { cooldownMinutes, reason } = args as { cooldownMinutes?: number; reason?: string };
+        const unfrozen = client.unfreeze('mcp', {
+          cooldownMs: cooldownMinutes ? cooldownMinutes * 60 * 1000 : undefined,
+          reason,
+        });
+
+        if (!unfrozen) {
+          return {
+            content: [{ type: 'text', text: 'Payments are not frozen' }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ frozen: client.getFreezeStatus() ?? null }, null, 2) }],
+        };
+      }
+
       default:
         return {
           content: [{ type: 'text', text: `Unknown tool: ${name}` }],
@@ -281,6 +691,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           text: JSON.stringify({
             error: error.message || String(error),
             name: error.name,
+            // Blocked payments say why in machine-readable form
+            ...(error instanceof PaymentBlockedError && {
+              code: error.code,
+              rule: error.rule,
+              limit: error.limit,
+              current: error.current,
+              retryAfter: error.retryAfter !== undefined ? new Date(error.retryAfter).toISOString() : undefined,
+              scope: error.scope,
+              receiptId: error.receipt.id,
+            }),
           }, null, 2),
         },
       ],
@@ -0,0 +1,92 @@
+/**
+ * Exact Money Arithmetic
+ * Amounts as bigint atomic units (1 USDC = 1_000_000)
+ *
+ * Policy limits are written in human units (e.g., 0.50) but every counter,
+ * comparison and total works on integers, so thousands of micropayments
+ * never drift by rounding.
+ */
+
+import { formatUnits, parseUnits } from 'viem';
+import type { PaymentReceipt } from './config';
+
+/** USDC uses 6 decimals on every supported network */
+export const USDC_DECIMALS = 6;
+
+/**
+ * Convert a human amount to atomic units, rounding to the asset's precision.
+ * Bigints are taken to be atomic units already.
+ */
+export function toAtomic(amount: number | string | bigint, decimals = USDC_DECIMALS): bigint {
+  if (typeof amount === 'bigint') return amount;
+
+  // toLocaleString avoids exponent notation (1e-7) that parseUnits can't read
+  const text = typeof amount === 'number'
+    ? amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+    : amount.trim();
+  if (!/^-?\d+(\.\d+)?$/.test(text)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  return parseUnits(text, decimals);
+}
+
+/**
+ * Convert atomic units to a human amount (for display and callbacks)
+ */
+export function fromAtomic(raw: bigint, decimals = USDC_DECIMALS): number {
+  return Number(formatUnits(raw, decimals));
+}
+
+/**
+ * Format atomic units with every decimal place, e.g. 500000n → "0.500000"
+ */
+export function formatAtomic(raw: bigint, decimals = USDC_DECIMALS): string {
+  const negative = raw < 0n;
+  const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals);
+  return `${negative ? '-' : ''}${whole}${decimals > 0 ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Format atomic units as dollars with cents, e.g. 1234567n → "1.23"
+ */
+export function formatUsd(raw: bigint, decimals = USDC_DECIMALS): string {
+  return fromAtomic(raw, decimals).toFixed(2);
+}
+
+/**
+ * Sum atomic amounts
+ */
+export function sumAtomic(amounts: Iterable<bigint>): bigint {
+  let total = 0n;
+  for (const amount of amounts) total += amount;
+  return total;
+}
+
+/**
+ * Fee in atomic units for a basis-point rate, rounded down
+ */
+export function feeFromBps(raw: bigint, bps: number): bigint {
+  return (raw * BigInt(bps)) / 10_000n;
+}
+
+/**
+ * Larger of two atomic amounts
+ */
+export function maxAtomic(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Exact USD value of a receipt in atomic units. Receipts written before
+ * multi-asset support are USDC, so their amount is their value.
+ */
+export function receiptValueRaw(receipt: Pick<PaymentReceipt, 'amount' | 'amountRaw' | 'valueUsdRaw'>): bigint {
+  try {
+    return BigInt(receipt.valueUsdRaw ?? receipt.amountRaw);
+  } catch {
+    // Receipts without a usable raw amount fall back to the display amount
+    return toAtomic(receipt.amount);
+  }
+}
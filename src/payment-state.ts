@@ -0,0 +1,210 @@
+/**
+ * Payment States and Recovery
+ * Tracks each payment from quote to settlement, and resolves payments a
+ * crash left half-done
+ *
+ * fetch() saves the receipt as `pending` once the budget is reserved,
+ * before anything is signed, and records each step after that:
+ *
+ *   quoted → reserved → signed → settled
+ *                 ↘        ↘  ↘ unknown → settled | failed
+ *                  failed   failed   ↖______↙ resent
+ *
+ * `unknown` means a signed payment went out and no answer came back, so
+ * it may or may not have settled. Its budget hold is kept. A retry that
+ * resends the same authorization moves it back to `signed`. Recovery
+ * settles these once the chain says: an EIP-3009 authorization that was
+ * used settled, one that expired unused never will. A payment that never
+ * got signed failed and cost nothing.
+ */
+
+import { parseAbi } from 'viem';
+import type { PublicClient } from 'viem';
+import { NetworkName, PaymentProgress, PaymentReceipt, PaymentState, USDC_ADDRESSES } from './config';
+import { ReceiptStore } from './receipts';
+
+/** States each state can move to */
+export const PAYMENT_TRANSITIONS: Record<PaymentState, readonly PaymentState[]> = {
+  quoted: ['reserved', 'failed'],
+  reserved: ['signed', 'failed'],
+  signed: ['settled', 'failed', 'unknown'],
+  unknown: ['signed', 'settled', 'failed'],
+  settled: [],
+  failed: [],
+};
+
+/** Payments whose last step is newer than this may still be in flight in another process */
+export const DEFAULT_RECOVERY_AGE_MS = 5 * 60 * 1000;
+
+const authorizationStateAbi = parseAbi([
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+]);
+
+/**
+ * A new payment, just quoted
+ */
+export function startPayment(): PaymentProgress {
+  return { state: 'quoted', history: [{ state: 'quoted', at: new Date().toISOString() }] };
+}
+
+/**
+ * Move a payment to its next state
+ *
+ * @throws Error if the payment can't go from its current state to `to`
+ */
+export function advancePayment(
+  progress: PaymentProgress,
+  to: PaymentState,
+  details: { reason?: string } & Pick<PaymentProgress, 'reservationIds' | 'authorization'> = {}
+): PaymentProgress {
+  if (!PAYMENT_TRANSITIONS[progress.state].includes(to)) {
+    throw new Error(`Payment can't go from ${progress.state} to ${to}`);
+  }
+  const { reason, ...fields } = details;
+  return {
+    ...progress,
+    ...fields,
+    state: to,
+    history: [...progress.history, { state: to, at: new Date().toISOString(), ...(reason && { reason }) }],
+  };
+}
+
+/**
+ * Receipt status for a payment state. Settled payments whose response
+ * failed are 'paid_failed'; the caller decides that.
+ */
+export function receiptStatusFor(state: PaymentState): PaymentReceipt['status'] {
+  if (state === 'settled') return 'success';
+  if (state === 'failed') return 'failed';
+  return 'pending';
+}
+
+/**
+ * What recovery needs from a viem public client
+ */
+export type AuthorizationReader = Pick<PublicClient, 'readContract'>;
+
+/**
+ * An authorization reader for every network, or one per network
+ */
+export type AuthorizationReaders = AuthorizationReader | ((network: NetworkName) => AuthorizationReader);
+
+/**
+ * Outcome for one recovered receipt
+ */
+export interface RecoveryResult {
+  receiptId: string;
+  /** State the payment was left in */
+  from: PaymentState;
+  /** unresolved: still can't tell; tried again on the next run */
+  outcome: 'settled' | 'failed' | 'unresolved';
+  reason: string;
+}
+
+/**
+ * Summary of a recovery run
+ */
+export interface RecoveryReport {
+  checked: number;
+  settled: number;
+  failed: number;
+  unresolved: number;
+  results: RecoveryResult[];
+}
+
+/**
+ * Look up where a half-done payment ended up
+ */
+async function resolvePayment(
+  receipt: PaymentReceipt,
+  readers: AuthorizationReaders | undefined,
+  now: number
+): Promise<Omit<RecoveryResult, 'receiptId' | 'from'>> {
+  const { state, authorization } = receipt.payment!;
+  if (state === 'quoted' || state === 'reserved') {
+    return { outcome: 'failed', reason: 'Interrupted before signing; nothing was paid' };
+  }
+  if (!authorization) {
+    return { outcome: 'unresolved', reason: 'No EIP-3009 authorization to look up; check the wallet by hand' };
+  }
+  if (!readers) {
+    return { outcome: 'unresolved', reason: 'No chain reader to look up the authorization' };
+  }
+
+  const reader = typeof readers === 'function' ? readers(receipt.network) : readers;
+  let used: boolean;
+  try {
+    used = await reader.readContract({
+      address: (receipt.asset ?? USDC_ADDRESSES[receipt.network]) as `0x${string}`,
+      abi: authorizationStateAbi,
+      functionName: 'authorizationState',
+      args: [authorization.from as `0x${string}`, authorization.nonce as `0x${string}`],
+    });
+  } catch (error) {
+    return { outcome: 'unresolved', reason: `Authorization lookup failed: ${error instanceof Error ? error.message : error}` };
+  }
+
+  if (used) {
+    return { outcome: 'settled', reason: 'Authorization was used on chain' };
+  }
+  const validBefore = Number(authorization.validBefore) * 1000;
+  if (validBefore <= now) {
+    return { outcome: 'failed', reason: 'Authorization expired unused' };
+  }
+  return { outcome: 'unresolved', reason: `Authorization unused; it can still settle until ${new Date(validBefore).toISOString()}` };
+}
+
+/**
+ * Resolve pending payments left behind by a crash or a lost response,
+ * and record the outcome on each receipt. Payments that moved in the
+ * last `minAgeMs` are skipped, since another process may still be paying.
+ *
+ * @param options.onSettled - Called for each payment found settled (e.g., to count its budget)
+ * @param options.onFailed - Called for each payment found failed (e.g., to release its budget)
+ */
+export async function recoverPayments(
+  store: ReceiptStore,
+  readers: AuthorizationReaders | undefined,
+  options: {
+    minAgeMs?: number;
+    onSettled?: (receipt: PaymentReceipt) => void;
+    onFailed?: (receipt: PaymentReceipt) => void;
+  } = {}
+): Promise<RecoveryReport> {
+  const now = Date.now();
+  const cutoff = now - (options.minAgeMs ?? DEFAULT_RECOVERY_AGE_MS);
+  const stranded = store.getByStatus('pending').filter(receipt => {
+    const progress = receipt.payment;
+    if (!progress || PAYMENT_TRANSITIONS[progress.state].length === 0) return false;
+    return Date.parse(progress.history[progress.history.length - 1].at) <= cutoff;
+  });
+
+  const results: RecoveryResult[] = [];
+  for (const receipt of stranded) {
+    const from = receipt.payment!.state;
+    const { outcome, reason } = await resolvePayment(receipt, readers, now);
+    results.push({ receiptId: receipt.id, from, outcome, reason });
+
+    if (outcome === 'unresolved') {
+      if (from === 'signed') {
+        store.updateReceipt(receipt.id, { payment: advancePayment(receipt.payment!, 'unknown', { reason }) });
+      }
+      continue;
+    }
+    const updated = store.updateReceipt(receipt.id, {
+      status: receiptStatusFor(outcome),
+      payment: advancePayment(receipt.payment!, outcome, { reason }),
+    })!;
+    if (outcome === 'settled') options.onSettled?.(updated);
+    else options.onFailed?.(updated);
+  }
+
+  const count = (outcome: RecoveryResult['outcome']) => results.filter(r => r.outcome === outcome).length;
+  return {
+    checked: results.length,
+    settled: count('settled'),
+    failed: count('failed'),
+    unresolved: count('unresolved'),
+    results,
+  };
+}
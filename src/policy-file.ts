@@ -0,0 +1,567 @@
+/**
+ * Policy File Loading
+ * Load spending policies from JSON/YAML files, validate them, and hot reload
+ *
+ * Lets operators keep limits outside agent code and tighten them without
+ * restarting agents. An invalid file never replaces a working policy.
+ */
+
+import { readFileSync, watchFile, unwatchFile } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { PaymentPolicy, DEFAULT_POLICY } from './config';
+import { resolveNetwork } from './requirements';
+
+/**
+ * Error thrown when a policy fails validation
+ */
+export class PolicyValidationError extends Error {
+  /** Every problem found, one human-readable line each */
+  public issues: string[];
+  /** File the policy came from, if any */
+  public source?: string;
+
+  constructor(issues: string[], source?: string) {
+    const where = source ? ` in ${source}` : '';
+    super(`Invalid payment policy${where}:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'PolicyValidationError';
+    this.issues = issues;
+    this.source = source;
+  }
+}
+
+/** Amount fields — non-negative USDC values */
+const AMOUNT_FIELDS = [
+  'maxPerTransaction',
+  'dailyLimit',
+  'weeklyLimit',
+  'monthlyLimit',
+  'perRecipientDailyLimit',
+  'autoApproveUnder',
+] as const;
+
+const COUNT_FIELDS = ['maxTransactionsPerHour'] as const;
+
+const ADDRESS_LIST_FIELDS = ['approvedRecipients', 'blockedRecipients'] as const;
+
+const BOOLEAN_FIELDS = ['requireDryRun', 'simulateBeforePay'] as const;
+
+const KNOWN_FIELDS = new Set<string>([
+  ...AMOUNT_FIELDS,
+  ...COUNT_FIELDS,
+  ...ADDRESS_LIST_FIELDS,
+  ...BOOLEAN_FIELDS,
+  'assetLimits',
+  'assetRates',
+  'allowedNetworks',
+  'autoFreeze',
+  'blockedDomains',
+  'blockedNetworks',
+  'limitWindow',
+  'networkLimits',
+  'rules',
+  'timezone',
+  'urlRules',
+]);
+
+const URL_RULE_FIELDS = new Set(['name', 'domain', 'url', 'urlRegex', 'block', 'maxPerRequest', 'dailyLimit']);
+
+const RULE_LIMIT_FIELDS = ['maxPerTransaction', 'dailyLimit', 'weeklyLimit', 'monthlyLimit', 'maxTransactionsPerHour'];
+
+const RULE_FIELDS = new Set(['id', 'effect', 'when', 'unless', 'reason', 'per', 'unit', ...RULE_LIMIT_FIELDS]);
+
+const CONDITION_LIST_FIELDS = ['recipients', 'domains', 'urls', 'networks', 'assets', 'days', 'tags'];
+
+const CONDITION_FIELDS = new Set(['minAmount', 'maxAmount', 'urlRegex', 'hours', ...CONDITION_LIST_FIELDS]);
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const UNKNOWN_FIELD = 'Unknown field';
+
+function unknownField(path: string): string {
+  return `${UNKNOWN_FIELD} "${path}"`;
+}
+
+function isValidTimezone(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a policy object, returning the list of problems (empty if valid)
+ */
+export function getPolicyIssues(input: unknown): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['Policy must be an object'];
+  }
+
+  const policy = input as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of Object.keys(policy)) {
+    if (!KNOWN_FIELDS.has(key)) {
+      issues.push(unknownField(key));
+    }
+  }
+
+  for (const field of AMOUNT_FIELDS) {
+    const value = policy[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${field} must be a number, got ${JSON.stringify(value)}`);
+    } else if (value < 0) {
+      issues.push(`${field} cannot be negative (got ${value})`);
+    }
+  }
+
+  for (const field of COUNT_FIELDS) {
+    const value = policy[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      issues.push(`${field} must be a non-negative integer, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  for (const field of BOOLEAN_FIELDS) {
+    const value = policy[field];
+    if (value !== undefined && typeof value !== 'boolean') {
+      issues.push(`${field} must be true or false, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  if (policy.limitWindow !== undefined && policy.limitWindow !== 'calendar' && policy.limitWindow !== 'rolling') {
+    issues.push(`limitWindow must be "calendar" or "rolling", got ${JSON.stringify(policy.limitWindow)}`);
+  }
+
+  if (policy.timezone !== undefined && !isValidTimezone(policy.timezone)) {
+    issues.push(`timezone must be an IANA timezone like "America/New_York", got ${JSON.stringify(policy.timezone)}`);
+  }
+
+  if (policy.autoFreeze !== undefined) {
+    const autoFreeze = policy.autoFreeze as Record<string, unknown> | null;
+    if (typeof autoFreeze !== 'object' || autoFreeze === null || Array.isArray(autoFreeze)) {
+      issues.push('autoFreeze must be an object with maxBlockedAttempts and windowMinutes');
+    } else {
+      const { maxBlockedAttempts, windowMinutes } = autoFreeze;
+      if (typeof maxBlockedAttempts !== 'number' || !Number.isInteger(maxBlockedAttempts) || maxBlockedAttempts < 1) {
+        issues.push(`autoFreeze.maxBlockedAttempts must be a positive integer, got ${JSON.stringify(maxBlockedAttempts)}`);
+      }
+      if (typeof windowMinutes !== 'number' || !Number.isFinite(windowMinutes) || windowMinutes <= 0) {
+        issues.push(`autoFreeze.windowMinutes must be a positive number, got ${JSON.stringify(windowMinutes)}`);
+      }
+    }
+  }
+
+  if (policy.assetRates !== undefined) {
+    const rates = policy.assetRates as Record<string, unknown> | null;
+    if (typeof rates !== 'object' || rates === null || Array.isArray(rates)) {
+      issues.push('assetRates must map asset symbols to USD rates');
+    } else {
+      for (const [symbol, rate] of Object.entries(rates)) {
+        if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+          issues.push(`assetRates.${symbol} must be a positive number, got ${JSON.stringify(rate)}`);
+        }
+      }
+    }
+  }
+
+  if (policy.assetLimits !== undefined) {
+    const assetLimits = policy.assetLimits as Record<string, unknown> | null;
+    if (typeof assetLimits !== 'object' || assetLimits === null || Array.isArray(assetLimits)) {
+      issues.push('assetLimits must map asset symbols to limits');
+    } else {
+      for (const [symbol, limits] of Object.entries(assetLimits)) {
+        if (typeof limits !== 'object' || limits === null || Array.isArray(limits)) {
+          issues.push(`assetLimits.${symbol} must be an object with maxPerTransaction and/or dailyLimit`);
+          continue;
+        }
+        for (const [field, value] of Object.entries(limits)) {
+          if (field !== 'maxPerTransaction' && field !== 'dailyLimit') {
+            issues.push(unknownField(`assetLimits.${symbol}.${field}`));
+          } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            issues.push(`assetLimits.${symbol}.${field} must be a non-negative number, got ${JSON.stringify(value)}`);
+          }
+        }
+      }
+    }
+  }
+
+  for (const field of ['allowedNetworks', 'blockedNetworks']) {
+    const value = policy[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+      issues.push(`${field} must be a list of network names or CAIP-2 ids`);
+      continue;
+    }
+    for (const network of value) {
+      if (!resolveNetwork(network)) {
+        issues.push(`${field} contains unknown network "${network}"`);
+      }
+    }
+  }
+
+  if (policy.networkLimits !== undefined) {
+    const networkLimits = policy.networkLimits as Record<string, unknown> | null;
+    if (typeof networkLimits !== 'object' || networkLimits === null || Array.isArray(networkLimits)) {
+      issues.push('networkLimits must map networks to limits');
+    } else {
+      for (const [network, limits] of Object.entries(networkLimits)) {
+        if (!resolveNetwork(network)) {
+          issues.push(`networkLimits contains unknown network "${network}"`);
+        }
+        if (typeof limits !== 'object' || limits === null || Array.isArray(limits)) {
+          issues.push(`networkLimits.${network} must be an object with maxPerTransaction, dailyLimit and/or monthlyLimit`);
+          continue;
+        }
+        for (const [field, value] of Object.entries(limits)) {
+          if (!['maxPerTransaction', 'dailyLimit', 'monthlyLimit'].includes(field)) {
+            issues.push(unknownField(`networkLimits.${network}.${field}`));
+          } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            issues.push(`networkLimits.${network}.${field} must be a non-negative number, got ${JSON.stringify(value)}`);
+          }
+        }
+      }
+    }
+  }
+
+  if (policy.blockedDomains !== undefined) {
+    const domains = policy.blockedDomains;
+    if (!Array.isArray(domains) || domains.some(d => typeof d !== 'string' || d.length === 0)) {
+      issues.push('blockedDomains must be a list of hostnames');
+    }
+  }
+
+  if (policy.urlRules !== undefined) {
+    if (!Array.isArray(policy.urlRules)) {
+      issues.push('urlRules must be a list of rules');
+    } else {
+      policy.urlRules.forEach((rule: unknown, i: number) => {
+        issues.push(...getUrlRuleIssues(rule, `urlRules[${i}]`));
+      });
+    }
+  }
+
+  if (policy.rules !== undefined) {
+    if (!Array.isArray(policy.rules)) {
+      issues.push('rules must be a list of rules');
+    } else {
+      const ids = new Set<string>();
+      policy.rules.forEach((rule: unknown, i: number) => {
+        issues.push(...getRuleIssues(rule, `rules[${i}]`));
+        const id = (rule as Record<string, unknown> | null)?.id;
+        if (typeof id === 'string') {
+          if (ids.has(id)) issues.push(`rules[${i}].id "${id}" is used by an earlier rule`);
+          ids.add(id);
+        }
+      });
+    }
+  }
+
+  const lists: Partial<Record<(typeof ADDRESS_LIST_FIELDS)[number], string[]>> = {};
+  for (const field of ADDRESS_LIST_FIELDS) {
+    const value = policy[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+      issues.push(`${field} must be a list of addresses`);
+    } else {
+      lists[field] = value;
+    }
+  }
+
+  // Period limits must widen as the period grows
+  const num = (field: string) => typeof policy[field] === 'number' ? policy[field] as number : undefined;
+  const daily = num('dailyLimit');
+  const weekly = num('weeklyLimit');
+  const monthly = num('monthlyLimit');
+  if (daily !== undefined && weekly !== undefined && weekly < daily) {
+    issues.push(`weeklyLimit ($${weekly}) is lower than dailyLimit ($${daily})`);
+  }
+  if (weekly !== undefined && monthly !== undefined && monthly < weekly) {
+    issues.push(`monthlyLimit ($${monthly}) is lower than weeklyLimit ($${weekly})`);
+  } else if (daily !== undefined && monthly !== undefined && monthly < daily) {
+    issues.push(`monthlyLimit ($${monthly}) is lower than dailyLimit ($${daily})`);
+  }
+
+  if (lists.approvedRecipients && lists.blockedRecipients) {
+    const blocked = new Set(lists.blockedRecipients.map(a => a.toLowerCase()));
+    const overlap = lists.approvedRecipients.filter(a => blocked.has(a.toLowerCase()));
+    if (overlap.length > 0) {
+      issues.push(`Recipients both approved and blocked: ${overlap.join(', ')}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate one entry of policy.urlRules
+ */
+function getUrlRuleIssues(input: unknown, path: string): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [`${path} must be an object`];
+  }
+
+  const rule = input as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of Object.keys(rule)) {
+    if (!URL_RULE_FIELDS.has(key)) {
+      issues.push(unknownField(`${path}.${key}`));
+    }
+  }
+
+  if (rule.domain === undefined && rule.url === undefined && rule.urlRegex === undefined) {
+    issues.push(`${path} needs a domain, url or urlRegex to match`);
+  }
+  for (const field of ['name', 'domain', 'url']) {
+    if (rule[field] !== undefined && (typeof rule[field] !== 'string' || rule[field] === '')) {
+      issues.push(`${path}.${field} must be a non-empty string`);
+    }
+  }
+  if (rule.urlRegex !== undefined) {
+    try {
+      if (typeof rule.urlRegex !== 'string') throw new TypeError('not a string');
+      new RegExp(rule.urlRegex);
+    } catch {
+      issues.push(`${path}.urlRegex must be a valid regular expression, got ${JSON.stringify(rule.urlRegex)}`);
+    }
+  }
+  if (rule.block !== undefined && typeof rule.block !== 'boolean') {
+    issues.push(`${path}.block must be true or false, got ${JSON.stringify(rule.block)}`);
+  }
+  for (const field of ['maxPerRequest', 'dailyLimit']) {
+    const value = rule[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      issues.push(`${path}.${field} must be a non-negative number, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate one entry of policy.rules
+ */
+function getRuleIssues(input: unknown, path: string): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [`${path} must be an object`];
+  }
+
+  const rule = input as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of Object.keys(rule)) {
+    if (!RULE_FIELDS.has(key)) {
+      issues.push(unknownField(`${path}.${key}`));
+    }
+  }
+
+  if (typeof rule.id !== 'string' || rule.id === '') {
+    issues.push(`${path}.id must be a non-empty string`);
+  }
+  if (rule.effect !== 'allow' && rule.effect !== 'deny' && rule.effect !== 'limit') {
+    issues.push(`${path}.effect must be "allow", "deny" or "limit", got ${JSON.stringify(rule.effect)}`);
+  }
+  if (rule.reason !== undefined && typeof rule.reason !== 'string') {
+    issues.push(`${path}.reason must be a string`);
+  }
+
+  for (const field of ['when', 'unless']) {
+    if (rule[field] !== undefined) {
+      issues.push(...getConditionIssues(rule[field], `${path}.${field}`));
+    }
+  }
+
+  const limits = RULE_LIMIT_FIELDS.filter(field => rule[field] !== undefined);
+  for (const field of limits) {
+    const value = rule[field];
+    const valid = field === 'maxTransactionsPerHour'
+      ? typeof value === 'number' && Number.isInteger(value) && value >= 0
+      : typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    if (!valid) {
+      issues.push(`${path}.${field} must be a non-negative ${field === 'maxTransactionsPerHour' ? 'integer' : 'number'}, got ${JSON.stringify(value)}`);
+    }
+  }
+  if (rule.effect === 'limit' && limits.length === 0) {
+    issues.push(`${path} is a limit rule without limits (set ${RULE_LIMIT_FIELDS.join(', ')})`);
+  }
+  if (rule.effect !== 'limit' && (limits.length > 0 || rule.per !== undefined || rule.unit !== undefined)) {
+    issues.push(`${path}: limits, per and unit only apply to limit rules`);
+  }
+
+  if (rule.per !== undefined && !['recipient', 'domain', 'network'].includes(rule.per as string)) {
+    issues.push(`${path}.per must be "recipient", "domain" or "network", got ${JSON.stringify(rule.per)}`);
+  }
+  if (rule.unit !== undefined && rule.unit !== 'usd' && rule.unit !== 'asset') {
+    issues.push(`${path}.unit must be "usd" or "asset", got ${JSON.stringify(rule.unit)}`);
+  }
+  if (rule.unit === 'asset') {
+    const assets = (rule.when as Record<string, unknown> | undefined)?.assets;
+    if (!Array.isArray(assets) || assets.length !== 1) {
+      issues.push(`${path} measures limits in asset units, so when.assets must name exactly one asset`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the when/unless conditions of a rule
+ */
+function getConditionIssues(input: unknown, path: string): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [`${path} must be an object`];
+  }
+
+  const conditions = input as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of Object.keys(conditions)) {
+    if (!CONDITION_FIELDS.has(key)) {
+      issues.push(unknownField(`${path}.${key}`));
+    }
+  }
+
+  for (const field of ['minAmount', 'maxAmount']) {
+    const value = conditions[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      issues.push(`${path}.${field} must be a non-negative number, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  for (const field of CONDITION_LIST_FIELDS) {
+    const value = conditions[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || v === '')) {
+      issues.push(`${path}.${field} must be a list of strings`);
+      continue;
+    }
+    if (field === 'networks') {
+      for (const network of value) {
+        if (!resolveNetwork(network)) issues.push(`${path}.networks contains unknown network "${network}"`);
+      }
+    }
+    if (field === 'days') {
+      for (const day of value) {
+        if (!WEEKDAYS.includes(day)) issues.push(`${path}.days contains "${day}" (use ${WEEKDAYS.join(', ')})`);
+      }
+    }
+  }
+
+  if (conditions.urlRegex !== undefined) {
+    try {
+      if (typeof conditions.urlRegex !== 'string') throw new TypeError('not a string');
+      new RegExp(conditions.urlRegex);
+    } catch {
+      issues.push(`${path}.urlRegex must be a valid regular expression, got ${JSON.stringify(conditions.urlRegex)}`);
+    }
+  }
+
+  if (conditions.hours !== undefined) {
+    const hours = conditions.hours as Record<string, unknown> | null;
+    const isHour = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 24;
+    if (typeof hours !== 'object' || hours === null || !isHour(hours.from) || !isHour(hours.to)) {
+      issues.push(`${path}.hours must be { from, to } with hours between 0 and 24`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a policy object, throwing PolicyValidationError on problems
+ */
+export function validatePolicy(input: unknown, source?: string): PaymentPolicy {
+  const issues = getPolicyIssues(input);
+  if (issues.length > 0) {
+    throw new PolicyValidationError(issues, source);
+  }
+  return input as PaymentPolicy;
+}
+
+/**
+ * Validate a policy passed in code. Invalid values throw
+ * PolicyValidationError like a policy file, but unknown fields only log a
+ * warning, so callers whose policy objects carry extra keys keep working.
+ */
+export function validateInlinePolicy(input: unknown): PaymentPolicy {
+  const issues = getPolicyIssues(input);
+  const unknown = issues.filter(issue => issue.startsWith(UNKNOWN_FIELD));
+  if (unknown.length < issues.length) {
+    throw new PolicyValidationError(issues.filter(issue => !unknown.includes(issue)));
+  }
+  if (unknown.length > 0) {
+    console.warn(`[x402] Policy fields ignored: ${unknown.join('; ')}`);
+  }
+  return input as PaymentPolicy;
+}
+
+/**
+ * Parse policy file contents (YAML for .yaml/.yml, JSON otherwise)
+ */
+export function parsePolicy(contents: string, source = 'policy.json'): PaymentPolicy {
+  const ext = extname(source).toLowerCase();
+  let parsed: unknown;
+  try {
+    parsed = ext === '.yaml' || ext === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new PolicyValidationError([`Could not parse file: ${message}`], source);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return validatePolicy(parsed, source);
+  }
+
+  // Fields left out of the file fall back to the default policy
+  return validatePolicy({ ...DEFAULT_POLICY, ...parsed }, source);
+}
+
+/**
+ * Load and validate a policy file
+ */
+export function loadPolicyFile(path: string): PaymentPolicy {
+  let contents: string;
+  try {
+    contents = readFileSync(path, 'utf-8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new PolicyValidationError([`Could not read file: ${message}`], path);
+  }
+  return parsePolicy(contents, path);
+}
+
+/**
+ * Watch a policy file and call `onChange` with each valid new version.
+ * Invalid versions are reported to `onError` and otherwise ignored, so the
+ * last good policy stays in force. Returns a function that stops watching.
+ */
+export function watchPolicyFile(
+  path: string,
+  onChange: (policy: PaymentPolicy) => void,
+  onError: (error: PolicyValidationError) => void = (error) => console.warn(`[x402] ${error.message}`),
+  intervalMs = 1000
+): () => void {
+  const listener = (curr: { mtimeMs: number }, prev: { mtimeMs: number }) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    try {
+      onChange(loadPolicyFile(path));
+    } catch (error) {
+      if (error instanceof PolicyValidationError) {
+        onError(error);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+  // Polling survives editors that replace the file via rename, and a
+  // non-persistent watcher never keeps an agent process alive
+  watchFile(path, { interval: intervalMs, persistent: false }, listener);
+  return () => unwatchFile(path, listener);
+}
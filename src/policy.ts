@@ -4,32 +4,297 @@
  * 
  * Features:
  * - Per-transaction limits
- * - Daily/weekly/monthly limits
+ * - Daily/weekly/monthly limits (calendar periods in a set timezone, or rolling windows)
  * - Velocity limits (max transactions per hour)
  * - Per-recipient limits
  * - Recipient whitelist/blacklist
+ * - Any registered asset, converted to USD for limits, with per-asset caps
+ * - Network allowlist/blocklist and per-network limits
+ * - Per-domain and per-endpoint rules, matched on the request URL
+ * - Ordered allow/deny/limit rules, with every rule's outcome in the decision
  * - Simulation mode (dry-run before paying)
+ * - Spend reservations (reserve → commit/release) for concurrent requests
+ * - Persistent emergency freeze, with automatic freezes on repeated blocks
+ * - Pluggable storage, shared safely between processes
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { PaymentPolicy, PaymentReceipt, DEFAULT_POLICY } from './config';
+import { randomUUID } from 'crypto';
+import { basename, dirname } from 'path';
+import { PaymentPolicy, DEFAULT_POLICY, NetworkLimits, NetworkName } from './config';
+import { JsonFileStorage, StorageAdapter } from './storage';
+import { fromAtomic, maxAtomic, toAtomic, USDC_DECIMALS } from './money';
+import type { AssetAmount } from './assets';
+import { resolveNetwork } from './requirements';
+import { evaluatePolicy, ledgerPeriods, PolicyDecision, RuleLedger, RulePayment, SpendPeriod } from './rules';
 
+export type { PolicyDecision } from './rules';
+
+/**
+ * Amount passed to the enforcer: USDC in human units (number), USDC
+ * atomic units (bigint), or an amount of any registered asset
+ */
+export type PolicyAmount = number | bigint | AssetAmount;
+
+/**
+ * What the payment is for, beyond amount and recipient
+ */
+export interface PaymentContext {
+  /** Request URL — needed for policy.urlRules, policy.blockedDomains and URL conditions in policy.rules */
+  url?: string;
+  /** Labels matched by `tags` conditions in policy.rules */
+  tags?: string[];
+}
+
+/** Amounts in spending state are atomic-unit strings (JSON has no bigint) */
 interface SpendingRecord {
   timestamp: number;
-  amount: number;
+  /** USD value */
+  amountRaw: string;
   recipient: string;
+  /** Asset symbol and amount in its own atomic units */
+  asset?: string;
+  assetAmountRaw?: string;
+  network?: NetworkName;
+  url?: string;
+  tags?: string[];
+}
+
+/**
+ * Amount held against all limits while a payment is in flight
+ */
+export interface SpendReservation {
+  id: string;
+  /** USD value in atomic units (1 USDC = 1000000) */
+  amountRaw: string;
+  recipient: string;
+  /** Asset symbol and amount in its own atomic units */
+  asset?: string;
+  assetAmountRaw?: string;
+  network?: NetworkName;
+  /** Request URL and tags, for URL rules and policy.rules conditions */
+  url?: string;
+  tags?: string[];
+  createdAt: number;
+  /** Reservations past this time are released automatically */
+  expiresAt: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Window lengths for limitWindow: 'rolling' */
+const ROLLING_WINDOW_MS = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+};
+
+/** Longest a calendar period can last (a DST day has 25 hours) */
+const CALENDAR_PERIOD_MS: Record<SpendPeriod, number> = {
+  daily: DAY_MS + HOUR_MS,
+  weekly: 7 * DAY_MS + HOUR_MS,
+  monthly: 31 * DAY_MS + HOUR_MS,
+};
+
+/**
+ * Calendar date (YYYY-MM-DD parts) of an instant in a timezone
+ */
+function calendarDate(timestamp: number, timeZone: string): { year: number; month: number; day: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(timestamp);
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in ms
+ */
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(timestamp);
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return local - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Instant a calendar date (YYYY-MM-DD) begins in a timezone
+ */
+function startOfDate(date: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  // Measure the offset again at the result, in case DST changes in between
+  const guess = midnightUtc - zoneOffset(midnightUtc, timeZone);
+  return midnightUtc - zoneOffset(guess, timeZone);
+}
+
+/**
+ * Spending totals the limits are checked against
+ */
+interface SpentTotals {
+  daily: bigint;
+  weekly: bigint;
+  monthly: bigint;
+  transactions: number;
+  perRecipient: Record<string, bigint>;
+  /** Daily spending per asset symbol, in the asset's atomic units */
+  perAsset: Record<string, bigint>;
+  /** Daily and monthly spending per network */
+  perNetworkDaily: Record<string, bigint>;
+  perNetworkMonthly: Record<string, bigint>;
 }
 
+/**
+ * Amount resolved for policy checks: USD value (undefined when the asset
+ * has no rate) plus the asset-denominated amount
+ */
+interface ResolvedAmount {
+  usd?: bigint;
+  symbol: string;
+  decimals: number;
+  assetRaw: bigint;
+  /** Known for asset amounts; plain USDC amounts carry no network */
+  network?: NetworkName;
+}
+
+/** Default time a reservation is held before it's released as timed out */
+export const DEFAULT_RESERVATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Active emergency freeze
+ */
+export interface FreezeState {
+  reason: string;
+  /** Who froze payments (e.g., 'cli', 'mcp', 'auto') */
+  frozenBy: string;
+  frozenAt: number;
+  /** Set by a pending unfreeze — payments resume at this time */
+  resumesAt?: number;
+  /** True when triggered by anomaly detection rather than a person */
+  automatic?: boolean;
+}
+
+/**
+ * Audit trail entry for freeze/unfreeze actions
+ */
+export interface FreezeEvent {
+  action: 'freeze' | 'unfreeze';
+  at: number;
+  by: string;
+  reason?: string;
+  automatic?: boolean;
+}
+
+/** Freeze audit entries kept in spending state */
+const MAX_FREEZE_EVENTS = 100;
+
+/**
+ * Spending state format version. Version 1 (no `version` field) stored
+ * float USDC amounts; version 2 stores atomic-unit strings.
+ */
+const STATE_VERSION = 2;
+
 interface SpendingState {
+  version: number;
   date: string;
   weekStart: string;
   monthStart: string;
-  dailySpent: number;
-  weeklySpent: number;
-  monthlySpent: number;
+  dailySpent: string;
+  weeklySpent: string;
+  monthlySpent: string;
   transactions: number;
-  recentTransactions: SpendingRecord[]; // For velocity tracking
-  perRecipient: Record<string, number>; // Daily per-recipient tracking
+  recentTransactions: SpendingRecord[]; // Velocity, rolling windows and scoped rule limits (see logRetentionMs)
+  perRecipient: Record<string, string>; // Daily per-recipient tracking
+  perAsset?: Record<string, string>; // Daily per-asset tracking, in asset units
+  perNetworkDaily?: Record<string, string>; // Daily per-network tracking
+  perNetworkMonthly?: Record<string, string>; // Monthly per-network tracking
+  reservations: SpendReservation[]; // In-flight payments not yet settled
+  freeze?: FreezeState; // Emergency freeze, survives restarts
+  freezeLog?: FreezeEvent[]; // Audit trail of freezes and unfreezes
+  recentBlocks?: number[]; // Blocked attempt times, for auto-freeze
+}
+
+interface PendingTotals {
+  amount: bigint;
+  count: number;
+  perRecipient: Record<string, bigint>;
+  perAsset: Record<string, bigint>;
+  perNetwork: Record<string, bigint>;
+}
+
+/** A log entry as version 1 wrote it, with a float `amount` instead of amountRaw */
+type LegacyEntry<T extends { amountRaw: string }> = Omit<T, 'amountRaw'> & { amount?: number; amountRaw?: string };
+
+/** Spending state as version 1 wrote it */
+type LegacySpendingState = Partial<Omit<SpendingState, 'dailySpent' | 'weeklySpent' | 'monthlySpent' | 'recentTransactions' | 'perRecipient' | 'reservations'>> & {
+  dailySpent?: number | string;
+  weeklySpent?: number | string;
+  monthlySpent?: number | string;
+  recentTransactions?: LegacyEntry<SpendingRecord>[];
+  perRecipient?: Record<string, number | string>;
+  reservations?: LegacyEntry<SpendReservation>[];
+};
+
+function isSpendingState(data: unknown): data is SpendingState {
+  return typeof data === 'object' && data !== null && 'version' in data && data.version === STATE_VERSION;
+}
+
+/** Any other object is taken to be version 1 state */
+function isLegacySpendingState(data: unknown): data is LegacySpendingState {
+  return typeof data === 'object' && data !== null && !isSpendingState(data);
+}
+
+/**
+ * Upgrade spending state written by earlier versions (float amounts) to
+ * atomic-unit strings. Floats are rounded to the nearest micro-USDC once,
+ * here, and never again. Stored state that isn't an object starts empty.
+ */
+function migrateSpendingState(data: unknown): SpendingState {
+  if (isSpendingState(data)) return data;
+  const legacy: LegacySpendingState = isLegacySpendingState(data) ? data : {};
+
+  const atomic = (value: unknown) =>
+    typeof value === 'number' ? toAtomic(value).toString() : String(value ?? '0');
+
+  return {
+    // Missing period keys don't match today's, so normalizeState resets them
+    date: '',
+    weekStart: '',
+    monthStart: '',
+    transactions: 0,
+    ...legacy,
+    version: STATE_VERSION,
+    dailySpent: atomic(legacy.dailySpent),
+    weeklySpent: atomic(legacy.weeklySpent),
+    monthlySpent: atomic(legacy.monthlySpent),
+    recentTransactions: (legacy.recentTransactions || []).map(t => ({
+      timestamp: t.timestamp,
+      amountRaw: t.amountRaw ?? atomic(t.amount),
+      recipient: t.recipient,
+    })),
+    perRecipient: Object.fromEntries(
+      Object.entries(legacy.perRecipient || {}).map(([recipient, amount]) => [recipient, atomic(amount)])
+    ),
+    reservations: (legacy.reservations || []).map(r => ({
+      id: r.id,
+      amountRaw: r.amountRaw ?? atomic(r.amount),
+      recipient: r.recipient,
+      createdAt: r.createdAt,
+      expiresAt: r.expiresAt,
+    })),
+  };
 }
 
 /**
@@ -37,236 +302,487 @@ interface SpendingState {
  */
 export class PolicyEnforcer {
   private policy: PaymentPolicy;
-  private spendingPath: string;
+  private storage: StorageAdapter;
+  private stateKey: string;
   private state: SpendingState;
 
-  constructor(policy: PaymentPolicy = DEFAULT_POLICY, spendingPath = './spending.json') {
+  /**
+   * @param storage - Path to a spending JSON file, or a storage backend
+   * @param stateKey - Key for spending state in a storage backend (default: 'spending')
+   */
+  constructor(
+    policy: PaymentPolicy = DEFAULT_POLICY,
+    storage: string | StorageAdapter = './spending.json',
+    stateKey = 'spending'
+  ) {
     this.policy = policy;
-    this.spendingPath = spendingPath;
+    if (typeof storage === 'string') {
+      this.storage = new JsonFileStorage(dirname(storage));
+      this.stateKey = basename(storage);
+    } else {
+      this.storage = storage;
+      this.stateKey = stateKey;
+    }
     this.state = this.loadState();
   }
 
+  /**
+   * Calendar period keys for now, all in the policy timezone. Working on
+   * calendar dates rather than instants keeps DST days (23 or 25 hours)
+   * inside a single period.
+   */
   private getDateKeys() {
-    const now = new Date();
-    const date = now.toISOString().split('T')[0];
-    
+    const { year, month, day } = calendarDate(Date.now(), this.policy.timezone || 'UTC');
+    const iso = (utc: number) => new Date(utc).toISOString().split('T')[0];
+
+    const date = this.dateKey(Date.now());
+
     // Get week start (Monday)
-    const dayOfWeek = now.getDay();
-    const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-    const monday = new Date(now);
-    monday.setDate(now.getDate() + mondayOffset);
-    const weekStart = monday.toISOString().split('T')[0];
-    
+    const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    const weekStart = iso(Date.UTC(year, month - 1, day - ((dayOfWeek + 6) % 7)));
+
     // Get month start
-    const monthStart = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
-    
+    const monthStart = iso(Date.UTC(year, month - 1, 1));
+
     return { date, weekStart, monthStart };
   }
 
-  private loadState(): SpendingState {
+  /**
+   * Calendar date (YYYY-MM-DD) of an instant in the policy timezone
+   */
+  private dateKey(timestamp: number): string {
+    const { year, month, day } = calendarDate(timestamp, this.policy.timezone || 'UTC');
+    return new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0];
+  }
+
+  /**
+   * When the current calendar period ends (the next one begins)
+   */
+  private getPeriodEnd(period: SpendPeriod): number {
+    const [year, month, day] = (period === 'monthly' ? this.state.monthStart
+      : period === 'weekly' ? this.state.weekStart
+      : this.state.date).split('-').map(Number);
+    const next = period === 'monthly' ? Date.UTC(year, month, 1)
+      : Date.UTC(year, month - 1, day + (period === 'weekly' ? 7 : 1));
+    return startOfDate(new Date(next).toISOString().split('T')[0], this.policy.timezone || 'UTC');
+  }
+
+  /**
+   * Apply period resets and drop expired entries from stored state
+   */
+  private normalizeState(data: SpendingState | undefined): SpendingState {
     const { date, weekStart, monthStart } = this.getDateKeys();
     
-    const defaultState: SpendingState = {
-      date,
-      weekStart,
-      monthStart,
-      dailySpent: 0,
-      weeklySpent: 0,
-      monthlySpent: 0,
+    if (!data) {
+      return {
+        version: STATE_VERSION,
+        date,
+        weekStart,
+        monthStart,
+        dailySpent: '0',
+        weeklySpent: '0',
+        monthlySpent: '0',
+        transactions: 0,
+        recentTransactions: [],
+        perRecipient: {},
+        reservations: [],
+      };
+    }
+
+    data = migrateSpendingState(data);
+
+    // Reset daily if new day
+    if (data.date !== date) {
+      data.date = date;
+      data.dailySpent = '0';
+      data.transactions = 0;
+      data.perRecipient = {};
+      data.perAsset = {};
+      data.perNetworkDaily = {};
+    }
+    
+    // Reset weekly if new week
+    if (data.weekStart !== weekStart) {
+      data.weekStart = weekStart;
+      data.weeklySpent = '0';
+    }
+    
+    // Reset monthly if new month
+    if (data.monthStart !== monthStart) {
+      data.monthStart = monthStart;
+      data.monthlySpent = '0';
+      data.perNetworkMonthly = {};
+    }
+    
+    // Clean old transactions (keep the longest window any limit looks at)
+    const windowStart = Date.now() - this.logRetentionMs();
+    data.recentTransactions = (data.recentTransactions || []).filter(
+      t => t.timestamp > windowStart
+    );
+
+    // Reservations past their timeout are released
+    data.reservations = (data.reservations || []).filter(r => r.expiresAt > Date.now());
+
+    // A scheduled unfreeze takes effect once its cooldown has passed
+    if (data.freeze?.resumesAt !== undefined && data.freeze.resumesAt <= Date.now()) {
+      delete data.freeze;
+    }
+    
+    return data;
+  }
+
+  /**
+   * How far back the transaction log has to reach: an hour for velocity
+   * limits, the monthly window in rolling mode, and in calendar mode the
+   * longest period a scoped limit rule sums over. Calendar totals come
+   * from the counters, so the log stays short without such rules.
+   */
+  private logRetentionMs(): number {
+    if (this.policy.limitWindow === 'rolling') return ROLLING_WINDOW_MS.monthly;
+    return Math.max(HOUR_MS, ...ledgerPeriods(this.policy).map(period => CALENDAR_PERIOD_MS[period]));
+  }
+
+  /**
+   * Read the latest state (other processes may have written since)
+   */
+  private loadState(): SpendingState {
+    return this.normalizeState(this.storage.readDocument<SpendingState>(this.stateKey));
+  }
+
+  /**
+   * Run a state change under the storage lock, against the freshest state
+   */
+  private mutate<R>(change: () => R): R {
+    let result!: R;
+    this.state = this.storage.updateDocument<SpendingState>(this.stateKey, current => {
+      this.state = this.normalizeState(current);
+      result = change();
+      return this.state;
+    });
+    return result;
+  }
+
+  /**
+   * Settled spending for each limit: calendar counters, or sums over the
+   * transaction log in rolling mode
+   */
+  private getSpent(): SpentTotals {
+    if (this.policy.limitWindow !== 'rolling') {
+      const toBigints = (amounts: Record<string, string>) =>
+        Object.fromEntries(Object.entries(amounts).map(([key, amount]) => [key, BigInt(amount)]));
+      return {
+        daily: BigInt(this.state.dailySpent),
+        weekly: BigInt(this.state.weeklySpent),
+        monthly: BigInt(this.state.monthlySpent),
+        transactions: this.state.transactions,
+        perRecipient: toBigints(this.state.perRecipient),
+        perAsset: toBigints(this.state.perAsset || {}),
+        perNetworkDaily: toBigints(this.state.perNetworkDaily || {}),
+        perNetworkMonthly: toBigints(this.state.perNetworkMonthly || {}),
+      };
+    }
+
+    const now = Date.now();
+    const totals: SpentTotals = {
+      daily: 0n,
+      weekly: 0n,
+      monthly: 0n,
       transactions: 0,
-      recentTransactions: [],
       perRecipient: {},
+      perAsset: {},
+      perNetworkDaily: {},
+      perNetworkMonthly: {},
     };
-
-    if (existsSync(this.spendingPath)) {
-      try {
-        const data = JSON.parse(readFileSync(this.spendingPath, 'utf-8')) as SpendingState;
-        
-        // Reset daily if new day
-        if (data.date !== date) {
-          data.date = date;
-          data.dailySpent = 0;
-          data.transactions = 0;
-          data.perRecipient = {};
+    for (const t of this.state.recentTransactions) {
+      const age = now - t.timestamp;
+      const amount = BigInt(t.amountRaw);
+      if (age < ROLLING_WINDOW_MS.monthly) {
+        totals.monthly += amount;
+        if (t.network) {
+          totals.perNetworkMonthly[t.network] = (totals.perNetworkMonthly[t.network] || 0n) + amount;
         }
-        
-        // Reset weekly if new week
-        if (data.weekStart !== weekStart) {
-          data.weekStart = weekStart;
-          data.weeklySpent = 0;
+      }
+      if (age < ROLLING_WINDOW_MS.weekly) totals.weekly += amount;
+      if (age < ROLLING_WINDOW_MS.daily) {
+        totals.daily += amount;
+        totals.transactions += 1;
+        totals.perRecipient[t.recipient] = (totals.perRecipient[t.recipient] || 0n) + amount;
+        if (t.asset) {
+          totals.perAsset[t.asset] = (totals.perAsset[t.asset] || 0n) + BigInt(t.assetAmountRaw || '0');
         }
-        
-        // Reset monthly if new month
-        if (data.monthStart !== monthStart) {
-          data.monthStart = monthStart;
-          data.monthlySpent = 0;
+        if (t.network) {
+          totals.perNetworkDaily[t.network] = (totals.perNetworkDaily[t.network] || 0n) + amount;
         }
-        
-        // Clean old transactions from velocity tracking (keep last hour only)
-        const oneHourAgo = Date.now() - 60 * 60 * 1000;
-        data.recentTransactions = (data.recentTransactions || []).filter(
-          t => t.timestamp > oneHourAgo
-        );
-        
-        return data;
-      } catch {
-        return defaultState;
       }
     }
-    
-    return defaultState;
+    return totals;
   }
 
-  private saveState(): void {
-    writeFileSync(this.spendingPath, JSON.stringify(this.state, null, 2));
+  /**
+   * Sum of amounts held by in-flight reservations
+   */
+  private getPendingTotals(): PendingTotals {
+    const totals: PendingTotals = { amount: 0n, count: 0, perRecipient: {}, perAsset: {}, perNetwork: {} };
+    for (const r of this.state.reservations) {
+      const amount = BigInt(r.amountRaw);
+      totals.amount += amount;
+      totals.count += 1;
+      totals.perRecipient[r.recipient] = (totals.perRecipient[r.recipient] || 0n) + amount;
+      if (r.asset) {
+        totals.perAsset[r.asset] = (totals.perAsset[r.asset] || 0n) + BigInt(r.assetAmountRaw || '0');
+      }
+      if (r.network) {
+        totals.perNetwork[r.network] = (totals.perNetwork[r.network] || 0n) + amount;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * USD value of an asset amount in atomic units (6 decimals), rounded up
+   * so limits never undercount. Undefined when a non-dollar asset has no
+   * rate in policy.assetRates.
+   */
+  toUsd(amount: AssetAmount): bigint | undefined {
+    const { asset, amountRaw } = amount;
+    const rate = this.policy.assetRates?.[asset.symbol] ?? (asset.peggedTo === 'USD' ? 1 : undefined);
+    if (rate === undefined) return undefined;
+
+    const scale = 10n ** BigInt(asset.decimals);
+    return (amountRaw * toAtomic(rate) + scale - 1n) / scale;
+  }
+
+  private resolve(amount: PolicyAmount): ResolvedAmount {
+    if (typeof amount === 'number' || typeof amount === 'bigint') {
+      const raw = toAtomic(amount);
+      return { usd: raw, symbol: 'USDC', decimals: USDC_DECIMALS, assetRaw: raw };
+    }
+    return {
+      usd: this.toUsd(amount),
+      symbol: amount.asset.symbol,
+      decimals: amount.asset.decimals,
+      assetRaw: amount.amountRaw,
+      network: amount.asset.network,
+    };
+  }
+
+  /**
+   * Limits configured for a network (keys may be names or CAIP-2 ids)
+   */
+  private getNetworkLimits(network: NetworkName): NetworkLimits | undefined {
+    const entry = Object.entries(this.policy.networkLimits || {}).find(([key]) => resolveNetwork(key) === network);
+    return entry?.[1];
+  }
+
+  /**
+   * Spending history for the rule engine. Calendar periods are matched on
+   * the policy-timezone date, rolling periods on age.
+   */
+  private getLedger(): RuleLedger {
+    const pending = this.getPendingTotals();
+    const spent = this.getSpent();
+    const now = Date.now();
+    const periodStart: Record<SpendPeriod, string> = {
+      daily: this.state.date,
+      weekly: this.state.weekStart,
+      monthly: this.state.monthStart,
+    };
+    const toPayment = (t: SpendingRecord | SpendReservation, timestamp: number): RulePayment => ({
+      timestamp,
+      usd: BigInt(t.amountRaw),
+      assetRaw: BigInt(t.assetAmountRaw ?? t.amountRaw),
+      symbol: t.asset || 'USDC',
+      recipient: t.recipient,
+      network: t.network,
+      url: t.url,
+      tags: t.tags,
+    });
+
+    return {
+      settled: this.state.recentTransactions.map(t => toPayment(t, t.timestamp)),
+      pending: this.state.reservations.map(r => toPayment(r, r.createdAt)),
+      inPeriod: (timestamp, period) => this.policy.limitWindow === 'rolling'
+        ? now - timestamp < ROLLING_WINDOW_MS[period]
+        : this.dateKey(timestamp) >= periodStart[period],
+      total: (period) => spent[period] + pending.amount,
+      expiresAt: (timestamp, period) => this.policy.limitWindow === 'rolling'
+        ? timestamp + ROLLING_WINDOW_MS[period]
+        : this.getPeriodEnd(period),
+    };
   }
 
   /**
    * Check if a payment is allowed by policy
-   * Returns { allowed: true } or { allowed: false, reason: string }
+   * Returns { allowed: true } or { allowed: false, reason, code, ... } with
+   * the block details, plus `evaluated` listing how every rule fared
+   *
+   * In-flight reservations count as spent, so a check made while other
+   * payments are pending sees the budget those payments will consume.
+   *
+   * @param amount - USDC in human units (number) or atomic units (bigint),
+   *                 or an amount of any registered asset. Network rules
+   *                 only apply to asset amounts, which carry their network.
+   * @param context - Request URL and tags, for domain, URL and tag rules
    */
-  checkPayment(amountUsdc: number, recipient: string): { allowed: boolean; reason?: string } {
-    const normalizedRecipient = recipient.toLowerCase();
+  checkPayment(amount: PolicyAmount, recipient: string, context: PaymentContext = {}): PolicyDecision {
+    this.state = this.loadState();
+    return this.evaluate(this.resolve(amount), recipient, context);
+  }
 
-    // Check per-transaction limit
-    if (amountUsdc > this.policy.maxPerTransaction) {
+  /**
+   * Run the policy rules against the currently loaded state. A freeze or a
+   * missing USD rate blocks before any rule is evaluated.
+   */
+  private evaluate(resolved: ResolvedAmount, recipient: string, context: PaymentContext): PolicyDecision {
+    if (this.state.freeze) {
+      const { reason, resumesAt } = this.state.freeze;
       return {
         allowed: false,
-        reason: `Amount $${amountUsdc.toFixed(2)} exceeds per-transaction limit of $${this.policy.maxPerTransaction.toFixed(2)}`,
+        reason: resumesAt !== undefined
+          ? `Payments frozen: ${reason} (resuming at ${new Date(resumesAt).toISOString()})`
+          : `Payments frozen: ${reason}`,
+        code: 'FROZEN',
+        retryAfter: resumesAt,
       };
     }
 
-    // Check daily limit
-    const projectedDaily = this.state.dailySpent + amountUsdc;
-    if (projectedDaily > this.policy.dailyLimit) {
+    const { usd: amount, symbol } = resolved;
+    if (amount === undefined) {
       return {
         allowed: false,
-        reason: `Payment would exceed daily limit. Current: $${this.state.dailySpent.toFixed(2)}, Limit: $${this.policy.dailyLimit.toFixed(2)}`,
+        reason: `No USD rate for ${symbol} (set policy.assetRates.${symbol})`,
+        code: 'NO_ASSET_RATE',
       };
     }
 
-    // Check weekly limit (if configured)
-    if (this.policy.weeklyLimit !== undefined) {
-      const projectedWeekly = this.state.weeklySpent + amountUsdc;
-      if (projectedWeekly > this.policy.weeklyLimit) {
-        return {
-          allowed: false,
-          reason: `Payment would exceed weekly limit. Current: $${this.state.weeklySpent.toFixed(2)}, Limit: $${this.policy.weeklyLimit.toFixed(2)}`,
-        };
-      }
-    }
+    return evaluatePolicy(this.policy, {
+      timestamp: Date.now(),
+      usd: amount,
+      assetRaw: resolved.assetRaw,
+      symbol,
+      decimals: resolved.decimals,
+      recipient,
+      network: resolved.network,
+      url: context.url,
+      tags: context.tags,
+    }, this.getLedger());
+  }
 
-    // Check monthly limit (if configured)
-    if (this.policy.monthlyLimit !== undefined) {
-      const projectedMonthly = this.state.monthlySpent + amountUsdc;
-      if (projectedMonthly > this.policy.monthlyLimit) {
-        return {
-          allowed: false,
-          reason: `Payment would exceed monthly limit. Current: $${this.state.monthlySpent.toFixed(2)}, Limit: $${this.policy.monthlyLimit.toFixed(2)}`,
-        };
+  /**
+   * Check policy and, if allowed, hold the amount against every limit
+   * until the payment is committed or released. Check and hold happen in
+   * one step, so concurrent callers can never overshoot a limit.
+   */
+  reserve(
+    amount: PolicyAmount,
+    recipient: string,
+    ttlMs = DEFAULT_RESERVATION_TTL_MS,
+    context: PaymentContext = {}
+  ): PolicyDecision & { reservation?: SpendReservation } {
+    const resolved = this.resolve(amount);
+    return this.mutate(() => {
+      const result = this.evaluate(resolved, recipient, context);
+      if (!result.allowed) {
+        return result;
       }
-    }
 
-    // Check velocity limit (max transactions per hour)
-    if (this.policy.maxTransactionsPerHour !== undefined) {
-      const oneHourAgo = Date.now() - 60 * 60 * 1000;
-      const recentCount = this.state.recentTransactions.filter(t => t.timestamp > oneHourAgo).length;
-      if (recentCount >= this.policy.maxTransactionsPerHour) {
-        return {
-          allowed: false,
-          reason: `Velocity limit exceeded. ${recentCount} transactions in the last hour (limit: ${this.policy.maxTransactionsPerHour})`,
-        };
-      }
-    }
+      const now = Date.now();
+      const reservation: SpendReservation = {
+        id: randomUUID(),
+        amountRaw: (resolved.usd ?? 0n).toString(),
+        recipient: recipient.toLowerCase(),
+        asset: resolved.symbol,
+        assetAmountRaw: resolved.assetRaw.toString(),
+        network: resolved.network,
+        url: context.url,
+        tags: context.tags,
+        createdAt: now,
+        expiresAt: now + ttlMs,
+      };
+      this.state.reservations.push(reservation);
 
-    // Check per-recipient daily limit (if configured)
-    if (this.policy.perRecipientDailyLimit !== undefined) {
-      const recipientSpent = this.state.perRecipient[normalizedRecipient] || 0;
-      const projectedRecipient = recipientSpent + amountUsdc;
-      if (projectedRecipient > this.policy.perRecipientDailyLimit) {
-        return {
-          allowed: false,
-          reason: `Per-recipient limit exceeded for ${recipient}. Current: $${recipientSpent.toFixed(2)}, Limit: $${this.policy.perRecipientDailyLimit.toFixed(2)}`,
-        };
-      }
-    }
+      return { allowed: true, reservation };
+    });
+  }
 
-    // Check recipient blacklist FIRST (takes priority over whitelist)
-    if (this.policy.blockedRecipients && this.policy.blockedRecipients.length > 0) {
-      const blocked = this.policy.blockedRecipients.some(
-        addr => addr.toLowerCase() === normalizedRecipient
-      );
-      if (blocked) {
-        return {
-          allowed: false,
-          reason: `Recipient ${recipient} is blocked`,
-        };
-      }
-    }
+  /**
+   * Convert a reservation into recorded spending (payment settled).
+   * Returns false if the reservation is unknown or already expired.
+   */
+  commit(reservationId: string): boolean {
+    return this.mutate(() => {
+      const reservation = this.takeReservation(reservationId);
+      if (!reservation) return false;
+      this.applyPayment({
+        usd: BigInt(reservation.amountRaw),
+        symbol: reservation.asset || 'USDC',
+        decimals: USDC_DECIMALS,
+        assetRaw: BigInt(reservation.assetAmountRaw ?? reservation.amountRaw),
+        network: reservation.network,
+      }, reservation.recipient, { url: reservation.url, tags: reservation.tags });
+      return true;
+    });
+  }
 
-    // Check recipient whitelist
-    if (this.policy.approvedRecipients && this.policy.approvedRecipients.length > 0) {
-      const approved = this.policy.approvedRecipients.some(
-        addr => addr.toLowerCase() === normalizedRecipient
-      );
-      if (!approved) {
-        return {
-          allowed: false,
-          reason: `Recipient ${recipient} is not in approved whitelist`,
-        };
-      }
-    }
+  /**
+   * Release a reservation without spending it (payment failed or abandoned)
+   */
+  release(reservationId: string): boolean {
+    return this.mutate(() => this.takeReservation(reservationId) !== undefined);
+  }
 
-    return { allowed: true };
+  private takeReservation(reservationId: string): SpendReservation | undefined {
+    const idx = this.state.reservations.findIndex(r => r.id === reservationId);
+    if (idx === -1) return undefined;
+    return this.state.reservations.splice(idx, 1)[0];
   }
 
   /**
-   * Record a successful payment
+   * Record a successful payment. An asset without a USD rate counts only
+   * against its own asset limits.
    */
-  recordPayment(amountUsdc: number, recipient: string): void {
+  recordPayment(amount: PolicyAmount, recipient: string, context: PaymentContext = {}): void {
+    const resolved = this.resolve(amount);
+    this.mutate(() => this.applyPayment(resolved, recipient, context));
+  }
+
+  private applyPayment(resolved: ResolvedAmount, recipient: string, context: PaymentContext): void {
     const normalizedRecipient = recipient.toLowerCase();
-    const { date, weekStart, monthStart } = this.getDateKeys();
-    
-    // Reset if new period
-    if (this.state.date !== date) {
-      this.state.date = date;
-      this.state.dailySpent = 0;
-      this.state.transactions = 0;
-      this.state.perRecipient = {};
-    }
-    if (this.state.weekStart !== weekStart) {
-      this.state.weekStart = weekStart;
-      this.state.weeklySpent = 0;
-    }
-    if (this.state.monthStart !== monthStart) {
-      this.state.monthStart = monthStart;
-      this.state.monthlySpent = 0;
-    }
+    const amount = resolved.usd ?? 0n;
+    const add = (current: string | undefined, value = amount) => (BigInt(current || '0') + value).toString();
 
     // Update totals
-    this.state.dailySpent += amountUsdc;
-    this.state.weeklySpent += amountUsdc;
-    this.state.monthlySpent += amountUsdc;
+    this.state.dailySpent = add(this.state.dailySpent);
+    this.state.weeklySpent = add(this.state.weeklySpent);
+    this.state.monthlySpent = add(this.state.monthlySpent);
     this.state.transactions += 1;
     
     // Update per-recipient
-    this.state.perRecipient[normalizedRecipient] = 
-      (this.state.perRecipient[normalizedRecipient] || 0) + amountUsdc;
+    this.state.perRecipient[normalizedRecipient] = add(this.state.perRecipient[normalizedRecipient]);
+
+    // Update per-asset (asset units)
+    this.state.perAsset = this.state.perAsset || {};
+    this.state.perAsset[resolved.symbol] = add(this.state.perAsset[resolved.symbol], resolved.assetRaw);
+
+    // Update per-network
+    if (resolved.network) {
+      this.state.perNetworkDaily = this.state.perNetworkDaily || {};
+      this.state.perNetworkMonthly = this.state.perNetworkMonthly || {};
+      this.state.perNetworkDaily[resolved.network] = add(this.state.perNetworkDaily[resolved.network]);
+      this.state.perNetworkMonthly[resolved.network] = add(this.state.perNetworkMonthly[resolved.network]);
+    }
     
     // Add to velocity tracking
     this.state.recentTransactions.push({
       timestamp: Date.now(),
-      amount: amountUsdc,
+      amountRaw: amount.toString(),
       recipient: normalizedRecipient,
+      asset: resolved.symbol,
+      assetAmountRaw: resolved.assetRaw.toString(),
+      network: resolved.network,
+      url: context.url,
+      tags: context.tags,
     });
-    
-    // Clean old velocity records
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    this.state.recentTransactions = this.state.recentTransactions.filter(
-      t => t.timestamp > oneHourAgo
-    );
-    
-    this.saveState();
   }
 
   /**
@@ -277,61 +793,214 @@ export class PolicyEnforcer {
     weekly?: { spent: number; limit: number; remaining: number };
     monthly?: { spent: number; limit: number; remaining: number };
     velocity?: { count: number; limit: number; remaining: number };
+    assets?: Record<string, { spent: number; limit?: number; remaining?: number }>;
+    networks: Record<string, {
+      daily: { spent: number; limit?: number; remaining?: number };
+      monthly: { spent: number; limit?: number; remaining?: number };
+    }>;
+    reserved: { amount: number; count: number };
+    frozen?: FreezeState;
     policy: PaymentPolicy;
   } {
+    this.state = this.loadState();
+    const pending = this.getPendingTotals();
+    const spent = this.getSpent();
+    // Computed exactly, converted to human units only for the result
+    const remaining = (limit: number | undefined, used: bigint) => limit === undefined
+      ? Infinity
+      : fromAtomic(maxAtomic(0n, toAtomic(limit) - used - pending.amount));
     const result: any = {
       daily: {
-        spent: this.state.dailySpent,
+        spent: fromAtomic(spent.daily),
         limit: this.policy.dailyLimit,
-        remaining: Math.max(0, this.policy.dailyLimit - this.state.dailySpent),
-        transactions: this.state.transactions,
+        remaining: remaining(this.policy.dailyLimit, spent.daily),
+        transactions: spent.transactions,
       },
+      reserved: { amount: fromAtomic(pending.amount), count: pending.count },
       policy: this.policy,
     };
 
+    if (this.state.freeze) {
+      result.frozen = this.state.freeze;
+    }
+
     if (this.policy.weeklyLimit !== undefined) {
       result.weekly = {
-        spent: this.state.weeklySpent,
+        spent: fromAtomic(spent.weekly),
         limit: this.policy.weeklyLimit,
-        remaining: Math.max(0, this.policy.weeklyLimit - this.state.weeklySpent),
+        remaining: remaining(this.policy.weeklyLimit, spent.weekly),
       };
     }
 
     if (this.policy.monthlyLimit !== undefined) {
       result.monthly = {
-        spent: this.state.monthlySpent,
+        spent: fromAtomic(spent.monthly),
         limit: this.policy.monthlyLimit,
-        remaining: Math.max(0, this.policy.monthlyLimit - this.state.monthlySpent),
+        remaining: remaining(this.policy.monthlyLimit, spent.monthly),
       };
     }
 
     if (this.policy.maxTransactionsPerHour !== undefined) {
-      const oneHourAgo = Date.now() - 60 * 60 * 1000;
+      const oneHourAgo = Date.now() - HOUR_MS;
       const recentCount = this.state.recentTransactions.filter(t => t.timestamp > oneHourAgo).length;
       result.velocity = {
         count: recentCount,
         limit: this.policy.maxTransactionsPerHour,
-        remaining: Math.max(0, this.policy.maxTransactionsPerHour - recentCount),
+        remaining: Math.max(0, this.policy.maxTransactionsPerHour - recentCount - pending.count),
       };
     }
 
+    // Usage on every network paid on this month, plus networks with limits
+    const networks = new Set<string>([
+      ...Object.keys(spent.perNetworkMonthly),
+      ...Object.keys(pending.perNetwork),
+      ...Object.keys(this.policy.networkLimits || {}).map(key => resolveNetwork(key)).filter(Boolean) as string[],
+    ]);
+    result.networks = {};
+    for (const network of networks) {
+      const limits = this.getNetworkLimits(network as NetworkName) || {};
+      const pendingOnNetwork = pending.perNetwork[network] || 0n;
+      const usage = (limit: number | undefined, used: bigint) => ({
+        spent: fromAtomic(used),
+        limit,
+        remaining: limit === undefined
+          ? undefined
+          : fromAtomic(maxAtomic(0n, toAtomic(limit) - used - pendingOnNetwork)),
+      });
+      result.networks[network] = {
+        daily: usage(limits.dailyLimit, spent.perNetworkDaily[network] || 0n),
+        monthly: usage(limits.monthlyLimit, spent.perNetworkMonthly[network] || 0n),
+      };
+    }
+
+    if (this.policy.assetLimits) {
+      // Asset decimals aren't kept in state; every registered stablecoin uses 6
+      result.assets = {};
+      for (const [symbol, limits] of Object.entries(this.policy.assetLimits)) {
+        const used = (spent.perAsset[symbol] || 0n) + (pending.perAsset[symbol] || 0n);
+        result.assets[symbol] = {
+          spent: fromAtomic(spent.perAsset[symbol] || 0n),
+          limit: limits.dailyLimit,
+          remaining: limits.dailyLimit === undefined
+            ? undefined
+            : fromAtomic(maxAtomic(0n, toAtomic(limits.dailyLimit) - used)),
+        };
+      }
+    }
+
     return result;
   }
 
+  /**
+   * Replace the active policy (e.g., after the policy file changed).
+   * Spending already recorded is kept and counts against the new limits.
+   */
+  updatePolicy(policy: PaymentPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Get the active policy
+   */
+  getPolicy(): PaymentPolicy {
+    return this.policy;
+  }
+
   /**
    * Check if amount requires explicit approval (vs auto-approve)
    */
-  requiresApproval(amountUsdc: number): boolean {
+  requiresApproval(amount: PolicyAmount): boolean {
     if (this.policy.autoApproveUnder === undefined) return true;
-    return amountUsdc >= this.policy.autoApproveUnder;
+    const { usd } = this.resolve(amount);
+    return usd === undefined || usd >= toAtomic(this.policy.autoApproveUnder);
   }
 
   /**
-   * Emergency freeze - block all payments
+   * Emergency freeze - block all payments until unfreeze().
+   * The freeze is stored with spending state, so it survives restarts and
+   * applies to every process sharing the storage.
    */
-  freeze(): void {
-    this.policy.maxPerTransaction = 0;
-    this.policy.dailyLimit = 0;
-    this.saveState();
+  freeze(reason = 'Emergency freeze', frozenBy = 'manual'): FreezeState {
+    return this.mutate(() => this.applyFreeze(reason, frozenBy, false));
+  }
+
+  private applyFreeze(reason: string, frozenBy: string, automatic: boolean): FreezeState {
+    const now = Date.now();
+    const freeze: FreezeState = { reason, frozenBy, frozenAt: now };
+    const event: FreezeEvent = { action: 'freeze', at: now, by: frozenBy, reason };
+    if (automatic) {
+      freeze.automatic = true;
+      event.automatic = true;
+    }
+    this.state.freeze = freeze;
+    this.logFreezeEvent(event);
+    return freeze;
+  }
+
+  /**
+   * Lift a freeze. With a cooldown, payments stay blocked until it has
+   * passed. Returns false if payments weren't frozen.
+   */
+  unfreeze(unfrozenBy = 'manual', options: { cooldownMs?: number; reason?: string } = {}): boolean {
+    return this.mutate(() => {
+      if (!this.state.freeze) return false;
+
+      const now = Date.now();
+      if (options.cooldownMs && options.cooldownMs > 0) {
+        this.state.freeze.resumesAt = now + options.cooldownMs;
+      } else {
+        delete this.state.freeze;
+      }
+      this.state.recentBlocks = [];
+      this.logFreezeEvent({ action: 'unfreeze', at: now, by: unfrozenBy, reason: options.reason });
+      return true;
+    });
+  }
+
+  /**
+   * Current freeze, or undefined if payments are allowed
+   */
+  getFreezeStatus(): FreezeState | undefined {
+    this.state = this.loadState();
+    return this.state.freeze;
+  }
+
+  /**
+   * Freeze/unfreeze audit trail, oldest first
+   */
+  getFreezeHistory(): FreezeEvent[] {
+    this.state = this.loadState();
+    return this.state.freezeLog || [];
+  }
+
+  private logFreezeEvent(event: FreezeEvent): void {
+    this.state.freezeLog = [...(this.state.freezeLog || []), event].slice(-MAX_FREEZE_EVENTS);
+  }
+
+  /**
+   * Count a blocked payment attempt toward policy.autoFreeze.
+   * Freezes payments and returns the freeze when the threshold is reached.
+   */
+  recordBlockedAttempt(): FreezeState | undefined {
+    const autoFreeze = this.policy.autoFreeze;
+    if (!autoFreeze) return undefined;
+
+    return this.mutate(() => {
+      if (this.state.freeze) return undefined;
+
+      const now = Date.now();
+      const windowStart = now - autoFreeze.windowMinutes * 60 * 1000;
+      const blocks = [...(this.state.recentBlocks || []).filter(t => t > windowStart), now];
+      this.state.recentBlocks = blocks;
+
+      if (blocks.length < autoFreeze.maxBlockedAttempts) return undefined;
+
+      this.state.recentBlocks = [];
+      return this.applyFreeze(
+        `${blocks.length} blocked payment attempts within ${autoFreeze.windowMinutes} minutes`,
+        'auto',
+        true
+      );
+    });
   }
 }
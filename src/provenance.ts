@@ -0,0 +1,198 @@
+/**
+ * Payment Provenance
+ * What was requested and what came back, recorded on receipts
+ *
+ * A txHash proves that money moved; provenance shows what it paid for.
+ * Receipts keep the request method and a hash of its body, and the
+ * response status, content type, size, hash and latency, so a receipt can
+ * be matched to the exact content delivered and a server that took payment
+ * and returned an error stands out. Headers and body text are only kept
+ * when asked for, with credentials redacted.
+ *
+ * Paid response bodies are hashed as the caller reads them
+ * (trackResponseBody), so fetch() never waits for a streamed response to
+ * finish and the body is never buffered twice.
+ */
+
+import { createHash } from 'crypto';
+import { ProvenanceOptions, RequestProvenance, ResponseProvenance } from './config';
+
+/** Headers never recorded in the clear */
+export const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'payment-signature',
+  'x-payment',
+];
+
+export const REDACTED = '[redacted]';
+
+const DEFAULT_MAX_BODY_BYTES = 4096;
+
+function sha256(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Headers as a plain object with sensitive values replaced
+ */
+export function redactHeaders(headers: HeadersInit | undefined, extra: string[] = []): Record<string, string> {
+  const redact = new Set([...DEFAULT_REDACTED_HEADERS, ...extra.map(h => h.toLowerCase())]);
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    result[name] = redact.has(name) ? REDACTED : value;
+  });
+  return result;
+}
+
+/**
+ * Request body as bytes, or undefined for bodies that can't be read
+ * without consuming them (streams, multipart forms)
+ */
+async function bodyBytes(body: RequestInit['body']): Promise<Uint8Array | undefined> {
+  if (typeof body === 'string') return new TextEncoder().encode(body);
+  if (body instanceof URLSearchParams) return new TextEncoder().encode(body.toString());
+  if (body instanceof ArrayBuffer) return new Uint8Array(body);
+  if (ArrayBuffer.isView(body)) return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  if (body instanceof Blob) return new Uint8Array(await body.arrayBuffer());
+  return undefined;
+}
+
+function isText(contentType: string | undefined): boolean {
+  return !contentType || /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
+/**
+ * Body text cut to maxBytes and passed through redactBody
+ */
+function bodyText(bytes: Uint8Array, kind: 'request' | 'response', options: ProvenanceOptions): string {
+  const maxBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const text = new TextDecoder().decode(bytes.subarray(0, maxBytes));
+  return options.redactBody ? options.redactBody(text, kind) : text;
+}
+
+/**
+ * Describe an outgoing request
+ */
+export async function describeRequest(init: RequestInit | undefined, options: ProvenanceOptions = {}): Promise<RequestProvenance> {
+  const request: RequestProvenance = { method: (init?.method ?? 'GET').toUpperCase() };
+
+  if (init?.body != null && options.bodies !== 'none') {
+    const bytes = await bodyBytes(init.body);
+    if (bytes) {
+      request.bodyHash = sha256(bytes);
+      const contentType = new Headers(init.headers).get('content-type') ?? undefined;
+      if (options.bodies === 'full' && isText(contentType)) {
+        request.body = bodyText(bytes, 'request', options);
+      }
+    }
+  }
+  if (options.headers) {
+    request.headers = redactHeaders(init?.headers, options.redactHeaders);
+  }
+  return request;
+}
+
+/**
+ * What a fully read response body adds to its provenance
+ */
+export type ResponseBodyProvenance = Pick<ResponseProvenance, 'contentHash' | 'contentLength' | 'body'>;
+
+/**
+ * Describe a response without touching its body: status, content type,
+ * latency and (when asked for) headers
+ *
+ * @param startedAt - When the request was sent (ms since epoch)
+ */
+export function describeResponseHead(response: Response, startedAt: number, options: ProvenanceOptions = {}): ResponseProvenance {
+  const described: ResponseProvenance = {
+    status: response.status,
+    contentType: response.headers.get('content-type') ?? undefined,
+    latencyMs: Date.now() - startedAt,
+  };
+  if (options.headers) {
+    described.headers = redactHeaders(response.headers, options.redactHeaders);
+  }
+  return described;
+}
+
+/**
+ * Describe a response, reading a clone of the body to hash it so the
+ * caller can still read the original. Waits for the whole body; fetch()
+ * uses trackResponseBody() instead.
+ *
+ * @param startedAt - When the request was sent (ms since epoch)
+ */
+export async function describeResponse(
+  response: Response,
+  startedAt: number,
+  options: ProvenanceOptions = {}
+): Promise<ResponseProvenance> {
+  const described = describeResponseHead(response, startedAt, options);
+
+  if (options.bodies !== 'none' && response.body && !response.bodyUsed) {
+    try {
+      const bytes = new Uint8Array(await response.clone().arrayBuffer());
+      described.contentHash = sha256(bytes);
+      described.contentLength = bytes.byteLength;
+      if (options.bodies === 'full' && isText(described.contentType)) {
+        described.body = bodyText(bytes, 'response', options);
+      }
+    } catch {
+      // A body that fails mid-stream has no hash; the caller sees the same error reading it
+    }
+  }
+  return described;
+}
+
+/**
+ * Hash a response body as the caller reads it. Returns a response with the
+ * same status, headers and body bytes; once the body has been read to the
+ * end, `onBody` gets its hash and size (and text with bodies: 'full').
+ * Nothing is read ahead of the caller, so a body that is never read, or a
+ * stream that never ends, is never reported.
+ */
+export function trackResponseBody(
+  response: Response,
+  options: ProvenanceOptions,
+  onBody: (body: ResponseBodyProvenance) => void
+): Response {
+  if (options.bodies === 'none' || !response.body || response.bodyUsed) return response;
+
+  const hash = createHash('sha256');
+  const maxBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const keepText = options.bodies === 'full' && isText(response.headers.get('content-type') ?? undefined);
+  const kept: Uint8Array[] = [];
+  let keptBytes = 0;
+  let length = 0;
+
+  const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      hash.update(chunk);
+      length += chunk.byteLength;
+      if (keepText && keptBytes < maxBytes) {
+        kept.push(chunk.subarray(0, maxBytes - keptBytes));
+        keptBytes += kept[kept.length - 1].byteLength;
+      }
+      controller.enqueue(chunk);
+    },
+    flush() {
+      onBody({
+        contentHash: hash.digest('hex'),
+        contentLength: length,
+        ...(keepText && { body: bodyText(Buffer.concat(kept), 'response', options) }),
+      });
+    },
+  }));
+
+  const tracked = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  // Response's constructor can't set these
+  Object.defineProperties(tracked, {
+    url: { value: response.url },
+    redirected: { value: response.redirected },
+  });
+  return tracked;
+}
@@ -0,0 +1,223 @@
+/**
+ * Receipt Retention and Archives
+ * Keeps the hot receipt store small by moving old receipts into
+ * compressed monthly archives
+ *
+ * Hot storage is read (and, for JSON files, rewritten) on every payment,
+ * so it slows down as receipts pile up. Compaction moves settled receipts
+ * older than `hotDays`, and the oldest settled receipts while hot storage
+ * is over `maxHotBytes`, into one gzipped JSON Lines file per month
+ * (`<archiveDir>/receipts-2026-03.jsonl.gz`). ReceiptStore queries,
+ * aggregates and exports read the archives too, so monthly spend still
+ * adds up. Pending receipts, receipts awaiting approval and receipts with
+ * an open dispute always stay hot, and so does today's spending.
+ *
+ * Each compaction also moves the receipt log's entries into monthly log
+ * archives (`receipts-log-2026-03.jsonl.gz`) and leaves a checkpoint the
+ * hot log continues from (see receipt-log.ts).
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { PaymentReceipt } from './config';
+import { ReceiptLogEntry } from './receipt-log';
+import { withFileLock, writeFileAtomic } from './storage';
+
+/** Receipts created between automatic compactions, unless configured */
+export const DEFAULT_COMPACT_EVERY = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionPolicy {
+  /** Directory for the monthly archives */
+  archiveDir: string;
+  /** Archive settled receipts older than this many days */
+  hotDays?: number;
+  /** Archive the oldest settled receipts while hot receipts take more than this many bytes of JSON */
+  maxHotBytes?: number;
+  /** Compact after every this many new receipts; 0 to only compact on request (default: 1000) */
+  compactEvery?: number;
+}
+
+/**
+ * Outcome of a compaction
+ */
+export interface CompactionResult {
+  /** Receipts moved to archives */
+  archived: number;
+  /** Receipt log entries moved to archives */
+  logEntries: number;
+  /** Months (YYYY-MM) whose archives were written */
+  months: string[];
+  /** Receipts left in hot storage */
+  hot: number;
+}
+
+/**
+ * Check a retention policy, throwing on invalid values
+ */
+export function validateRetention(retention: RetentionPolicy): RetentionPolicy {
+  if (typeof retention.archiveDir !== 'string' || retention.archiveDir === '') {
+    throw new Error('Retention archiveDir must be a directory path');
+  }
+  for (const field of ['hotDays', 'maxHotBytes', 'compactEvery'] as const) {
+    const value = retention[field];
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      throw new Error(`Retention ${field} must be a non-negative number, got ${value}`);
+    }
+  }
+  return retention;
+}
+
+/** Month of a receipt, YYYY-MM (UTC) */
+function monthOf(timestamp: string): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+/**
+ * Settled receipts due for archiving under a retention policy, oldest first
+ */
+export function receiptsToArchive(receipts: PaymentReceipt[], retention: RetentionPolicy, now = Date.now()): PaymentReceipt[] {
+  const today = new Date(now).toISOString().split('T')[0];
+  const settled = (r: PaymentReceipt) =>
+    r.status !== 'pending' &&
+    r.status !== 'awaiting_approval' &&
+    r.dispute?.status !== 'open' &&
+    !r.timestamp.startsWith(today);
+
+  const archive = new Set<PaymentReceipt>();
+  if (retention.hotDays !== undefined) {
+    const cutoff = now - retention.hotDays * DAY_MS;
+    for (const r of receipts) {
+      if (settled(r) && Date.parse(r.timestamp) < cutoff) archive.add(r);
+    }
+  }
+
+  if (retention.maxHotBytes !== undefined) {
+    let bytes = 0;
+    for (const r of receipts) {
+      if (!archive.has(r)) bytes += Buffer.byteLength(JSON.stringify(r));
+    }
+    const oldestFirst = [...receipts].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    for (const r of oldestFirst) {
+      if (bytes <= retention.maxHotBytes) break;
+      if (!settled(r) || archive.has(r)) continue;
+      archive.add(r);
+      bytes -= Buffer.byteLength(JSON.stringify(r));
+    }
+  }
+
+  return receipts.filter(r => archive.has(r));
+}
+
+/**
+ * Compressed monthly archives of id-keyed records in a directory
+ */
+class MonthlyArchive<T extends { id: string }> {
+  private dir: string;
+  private stem: string;
+  private timeOf: (record: T) => string;
+  private compare: (a: T, b: T) => number;
+
+  constructor(dir: string, stem: string, timeOf: (record: T) => string, compare: (a: T, b: T) => number) {
+    this.dir = dir;
+    this.stem = stem;
+    this.timeOf = timeOf;
+    this.compare = compare;
+  }
+
+  private pathFor(month: string): string {
+    return join(this.dir, `${this.stem}-${month}.jsonl.gz`);
+  }
+
+  /**
+   * Archived months (YYYY-MM), oldest first
+   */
+  months(): string[] {
+    if (!existsSync(this.dir)) return [];
+    const pattern = new RegExp(`^${this.stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-(\\d{4}-\\d{2})\\.jsonl\\.gz$`);
+    return readdirSync(this.dir)
+      .map(name => pattern.exec(name)?.[1])
+      .filter((month): month is string => month !== undefined)
+      .sort();
+  }
+
+  /**
+   * Records archived for a month
+   */
+  read(month: string): T[] {
+    const path = this.pathFor(month);
+    if (!existsSync(path)) return [];
+    const records: T[] = [];
+    for (const line of gunzipSync(readFileSync(path)).toString('utf-8').split('\n')) {
+      if (line.trim()) records.push(JSON.parse(line));
+    }
+    return records;
+  }
+
+  /**
+   * Archived months that overlap a time range (ms), oldest first
+   */
+  monthsInRange(from?: number, to?: number): string[] {
+    const first = from !== undefined ? new Date(from).toISOString().slice(0, 7) : undefined;
+    const last = to !== undefined ? new Date(to).toISOString().slice(0, 7) : undefined;
+    return this.months()
+      .filter(month => (first === undefined || month >= first) && (last === undefined || month <= last));
+  }
+
+  /**
+   * Archived records from months that overlap a time range (ms), oldest month first
+   */
+  readRange(from?: number, to?: number): T[] {
+    return this.monthsInRange(from, to).flatMap(month => this.read(month));
+  }
+
+  /**
+   * Add records to their months' archives. A record already archived is
+   * replaced. Returns the months written.
+   */
+  append(records: T[]): string[] {
+    const byMonth = new Map<string, T[]>();
+    for (const record of records) {
+      const month = monthOf(this.timeOf(record));
+      byMonth.set(month, [...(byMonth.get(month) ?? []), record]);
+    }
+
+    for (const [month, added] of byMonth) {
+      const path = this.pathFor(month);
+      withFileLock(path, () => {
+        const merged = new Map(this.read(month).map(r => [r.id, r]));
+        for (const record of added) merged.set(record.id, record);
+        const lines = [...merged.values()].sort(this.compare).map(r => JSON.stringify(r) + '\n');
+        writeFileAtomic(path, gzipSync(lines.join('')));
+      });
+    }
+    return [...byMonth.keys()].sort();
+  }
+}
+
+/**
+ * Compressed monthly receipt archives in a directory, oldest receipt first
+ */
+export class ReceiptArchive extends MonthlyArchive<PaymentReceipt> {
+  /**
+   * @param stem - File name prefix, e.g. 'receipts' for receipts-2026-03.jsonl.gz
+   */
+  constructor(dir: string, stem = 'receipts') {
+    super(dir, stem, r => r.timestamp, (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }
+}
+
+/**
+ * Compressed monthly archives of receipt log entries (by when they were
+ * appended), in log order
+ */
+export class ReceiptLogArchive extends MonthlyArchive<ReceiptLogEntry> {
+  /**
+   * @param stem - File name prefix, e.g. 'receipts-log' for receipts-log-2026-03.jsonl.gz
+   */
+  constructor(dir: string, stem = 'receipts-log') {
+    super(dir, stem, e => e.at, (a, b) => a.seq - b.seq);
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Receipt Export
+ * Receipts as CSV, JSON Lines, OFX or QIF for spreadsheets and bookkeeping
+ *
+ * Exports are generated a line at a time so a large receipt history can
+ * be written to a file or socket without building the whole document in
+ * memory. CSV follows RFC 4180 (CRLF line breaks, quoted fields); OFX and
+ * QIF list settled payments only, as debits in USD, with paid-but-failed
+ * ones marked in the memo.
+ */
+
+import { PaymentReceipt } from './config';
+import { formatAtomic, receiptValueRaw } from './money';
+import { getHostname } from './url-rules';
+import type { ReceiptFilter } from './receipts';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'ofx' | 'qif';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'jsonl', 'ofx', 'qif'];
+
+/**
+ * Columns available to CSV and JSONL exports. Most are receipt fields;
+ * `host` is the URL host, `valueUsd` the USD value counted against limits,
+ * `approval` and `approvedBy` the approval decision and who made it,
+ * `reconciliation` the on-chain reconciliation status, `dispute` and
+ * `refundTxHash` the dispute status and refund, and `method`,
+ * `bodyHash`, `responseStatus`, `contentType`, `contentHash` and
+ * `latencyMs` the recorded request and response.
+ */
+export const EXPORT_COLUMNS = [
+  'id',
+  'timestamp',
+  'url',
+  'host',
+  'amount',
+  'amountRaw',
+  'currency',
+  'asset',
+  'valueUsd',
+  'valueUsdRaw',
+  'network',
+  'recipient',
+  'txHash',
+  'status',
+  'blockReason',
+  'blockRule',
+  'blockCode',
+  'blockLimit',
+  'blockCurrent',
+  'retryAfter',
+  'scope',
+  'tags',
+  'approval',
+  'approvedBy',
+  'reconciliation',
+  'failureReason',
+  'dispute',
+  'refundTxHash',
+  'traceId',
+  'idempotencyKey',
+  'attempt',
+  'retryOf',
+  'description',
+  'mimeType',
+  'method',
+  'bodyHash',
+  'responseStatus',
+  'contentType',
+  'contentHash',
+  'latencyMs',
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+/** Columns exported to CSV when none are selected */
+export const DEFAULT_EXPORT_COLUMNS: readonly ExportColumn[] = [
+  'id',
+  'timestamp',
+  'url',
+  'amount',
+  'amountRaw',
+  'currency',
+  'asset',
+  'valueUsd',
+  'network',
+  'recipient',
+  'txHash',
+  'status',
+  'blockReason',
+  'blockRule',
+  'blockCode',
+  'retryAfter',
+  'scope',
+  'tags',
+  'host',
+];
+
+export interface ExportOptions extends ReceiptFilter {
+  /** Output format (default: 'csv') */
+  format?: ExportFormat;
+  /** CSV/JSONL columns, in order (default: DEFAULT_EXPORT_COLUMNS for CSV, the whole receipt for JSONL) */
+  columns?: ExportColumn[];
+  /** OFX account id (usually the wallet address) */
+  account?: string;
+}
+
+type ColumnValue = string | number | string[] | undefined;
+
+function columnValue(receipt: PaymentReceipt, column: ExportColumn): ColumnValue {
+  switch (column) {
+    case 'host':
+      return getHostname(receipt.url);
+    case 'valueUsd':
+      return formatAtomic(receiptValueRaw(receipt));
+    case 'valueUsdRaw':
+      return receiptValueRaw(receipt).toString();
+    case 'approval':
+      return receipt.approval?.decision;
+    case 'approvedBy':
+      return receipt.approval?.decidedBy;
+    case 'reconciliation':
+      return receipt.reconciliation?.status;
+    case 'dispute':
+      return receipt.dispute?.status;
+    case 'refundTxHash':
+      return receipt.dispute?.refundTxHash;
+    case 'method':
+      return receipt.request?.method;
+    case 'bodyHash':
+      return receipt.request?.bodyHash;
+    case 'responseStatus':
+      return receipt.response?.status;
+    case 'contentType':
+      return receipt.response?.contentType;
+    case 'contentHash':
+      return receipt.response?.contentHash;
+    case 'latencyMs':
+      return receipt.response?.latencyMs;
+    default:
+      return receipt[column];
+  }
+}
+
+/**
+ * RFC 4180 field: quoted when it contains a comma, quote or line break,
+ * with quotes doubled
+ */
+function csvField(value: ColumnValue): string {
+  if (value === undefined) return '';
+  const text = Array.isArray(value) ? value.join(';') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function* csvLines(receipts: Iterable<PaymentReceipt>, columns: readonly ExportColumn[]): Generator<string> {
+  yield `${columns.join(',')}\r\n`;
+  for (const receipt of receipts) {
+    yield `${columns.map(c => csvField(columnValue(receipt, c))).join(',')}\r\n`;
+  }
+}
+
+function* jsonLines(receipts: Iterable<PaymentReceipt>, columns?: readonly ExportColumn[]): Generator<string> {
+  for (const receipt of receipts) {
+    const row = columns
+      ? Object.fromEntries(columns.map(c => [c, columnValue(receipt, c)]))
+      : receipt;
+    yield `${JSON.stringify(row)}\n`;
+  }
+}
+
+/** OFX date-time in UTC, e.g. 20261019143000.000[0:GMT] */
+function ofxDate(time: string | number): string {
+  const iso = new Date(time).toISOString();
+  return `${iso.slice(0, 19).replace(/[-T:]/g, '')}.${iso.slice(20, 23)}[0:GMT]`;
+}
+
+function xmlText(value: string, maxLength = Infinity): string {
+  return value
+    .slice(0, maxLength)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Whether money left the wallet — statements list paid-but-failed payments
+ * too, flagged in the memo
+ */
+function isPaid(receipt: PaymentReceipt): boolean {
+  return receipt.status === 'success' || receipt.status === 'paid_failed';
+}
+
+function statementMemo(receipt: PaymentReceipt): string {
+  const memo = receipt.txHash ? `${receipt.url} (tx ${receipt.txHash})` : receipt.url;
+  return receipt.status === 'paid_failed' ? `FAILED: ${receipt.failureReason ?? 'paid_failed'} - ${memo}` : memo;
+}
+
+function* ofxLines(receipts: Iterable<PaymentReceipt>, account: string): Generator<string> {
+  // The statement header needs the date range, so paid receipts are collected first
+  const paid: PaymentReceipt[] = [];
+  for (const receipt of receipts) {
+    if (isPaid(receipt)) paid.push(receipt);
+  }
+  const now = ofxDate(Date.now());
+  const start = paid.length > 0 ? ofxDate(paid[0].timestamp) : now;
+  const end = paid.length > 0 ? ofxDate(paid[paid.length - 1].timestamp) : now;
+
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n';
+  yield '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>\n';
+  yield '<OFX>\n';
+  yield `<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS><DTSERVER>${now}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>\n`;
+  yield '<BANKMSGSRSV1><STMTTRNRS><TRNUID>0</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>\n';
+  yield '<STMTRS><CURDEF>USD</CURDEF>\n';
+  yield `<BANKACCTFROM><BANKID>x402</BANKID><ACCTID>${xmlText(account)}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>\n`;
+  yield `<BANKTRANLIST><DTSTART>${start}</DTSTART><DTEND>${end}</DTEND>\n`;
+
+  let total = 0n;
+  for (const receipt of paid) {
+    const value = receiptValueRaw(receipt);
+    total += value;
+    const memo = statementMemo(receipt);
+    yield '<STMTTRN><TRNTYPE>DEBIT</TRNTYPE>'
+      + `<DTPOSTED>${ofxDate(receipt.timestamp)}</DTPOSTED>`
+      + `<TRNAMT>${formatAtomic(-value)}</TRNAMT>`
+      + `<FITID>${xmlText(receipt.id, 255)}</FITID>`
+      + `<NAME>${xmlText(getHostname(receipt.url) ?? receipt.recipient, 32)}</NAME>`
+      + `<MEMO>${xmlText(memo, 255)}</MEMO>`
+      + '</STMTTRN>\n';
+  }
+
+  yield '</BANKTRANLIST>\n';
+  // The wallet's balance isn't known here, so the ledger balance is the net of the listed payments
+  yield `<LEDGERBAL><BALAMT>${formatAtomic(-total)}</BALAMT><DTASOF>${end}</DTASOF></LEDGERBAL>\n`;
+  yield '</STMTRS></STMTTRNRS></BANKMSGSRSV1>\n';
+  yield '</OFX>\n';
+}
+
+/** QIF date, MM/DD/YYYY in UTC */
+function qifDate(time: string): string {
+  const [year, month, day] = new Date(time).toISOString().slice(0, 10).split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/** QIF fields are one line each */
+function qifText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+function* qifLines(receipts: Iterable<PaymentReceipt>): Generator<string> {
+  yield '!Type:Bank\n';
+  for (const receipt of receipts) {
+    if (!isPaid(receipt)) continue;
+    yield `D${qifDate(receipt.timestamp)}\n`;
+    yield `T${formatAtomic(-receiptValueRaw(receipt))}\n`;
+    yield `P${qifText(getHostname(receipt.url) ?? receipt.recipient)}\n`;
+    yield `M${qifText(statementMemo(receipt))}\n`;
+    if (receipt.scope) yield `L${qifText(receipt.scope)}\n`;
+    yield '^\n';
+  }
+}
+
+/**
+ * Write receipts in an export format, a line (or a few) at a time.
+ * Receipts are written in the order given; filter them beforehand. CSV,
+ * JSONL and QIF read `receipts` as they go, so it can be a generator.
+ *
+ * @throws Error for an unknown format or column
+ */
+export function exportReceipts(receipts: Iterable<PaymentReceipt>, options: ExportOptions = {}): Generator<string> {
+  const format = options.format ?? 'csv';
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown export format "${format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+  const unknown = options.columns?.find(c => !EXPORT_COLUMNS.includes(c));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown export column "${unknown}" (expected any of ${EXPORT_COLUMNS.join(', ')})`);
+  }
+
+  switch (format) {
+    case 'csv':
+      return csvLines(receipts, options.columns ?? DEFAULT_EXPORT_COLUMNS);
+    case 'jsonl':
+      return jsonLines(receipts, options.columns);
+    case 'ofx':
+      return ofxLines(receipts, options.account ?? 'x402');
+    case 'qif':
+      return qifLines(receipts);
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Tamper-Evident Receipt Log
+ * Append-only, hash-chained history of every receipt change
+ *
+ * Each time ReceiptStore creates or updates a receipt it appends an entry
+ * with the full receipt, the hash of the previous entry and a signature
+ * over its own hash made with the agent wallet key. Editing an entry
+ * changes its hash, deleting or reordering entries breaks the chain, and
+ * re-hashing after an edit needs the wallet key to re-sign. The log head
+ * (last sequence number and hash) is kept separately to catch a truncated
+ * tail; a log can't prove that nobody truncated both, so anchor the head
+ * elsewhere if that matters.
+ *
+ * With retention, compaction moves older entries into monthly archives
+ * and leaves a signed checkpoint (the last archived entry's hash, plus a
+ * digest of each hot receipt's last archived version), so the hot log can
+ * be verified on its own.
+ */
+
+import { createECDH, createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { publicKeyToAddress } from 'viem/accounts';
+import { PaymentReceipt } from './config';
+
+/** prevHash of the first entry */
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface ReceiptLogEntry {
+  /** Record id (the sequence number as a string) */
+  id: string;
+  /** Position in the log, starting at 0 */
+  seq: number;
+  /** When the entry was appended (ISO 8601) */
+  at: string;
+  /** The receipt as it was saved */
+  receipt: PaymentReceipt;
+  /** Hash of the previous entry */
+  prevHash: string;
+  /** SHA-256 of seq, at, receipt and prevHash (hex) */
+  hash: string;
+  /** Wallet address of the signer */
+  signer?: string;
+  /** Signer's uncompressed secp256k1 public key (0x04...), which must hash to `signer` */
+  publicKey?: string;
+  /** ECDSA signature over `hash` (base64) */
+  signature?: string;
+}
+
+/**
+ * Last entry of the log, kept apart from the entries
+ */
+export interface ReceiptLogHead {
+  seq: number;
+  hash: string;
+}
+
+/**
+ * Start of the hot log after older entries were archived
+ */
+export interface ReceiptLogCheckpoint {
+  /** Sequence number of the last archived entry */
+  seq: number;
+  /** Hash of the last archived entry */
+  hash: string;
+  /** When the last archived entry was appended (ISO 8601) */
+  at: string;
+  /** receiptDigest() of the last archived version of each receipt still hot, by id */
+  receipts: Record<string, string>;
+  /** SHA-256 of seq, hash, at and receipts (hex) */
+  checkpointHash: string;
+  signer?: string;
+  publicKey?: string;
+  /** ECDSA signature over `checkpointHash` (base64) */
+  signature?: string;
+}
+
+/**
+ * Signs log entries with a wallet key
+ */
+export interface ReceiptSigner {
+  address: string;
+  publicKey: string;
+  sign(hash: string): string;
+}
+
+export type LogProblem =
+  | 'sequence'
+  | 'link'
+  | 'hash'
+  | 'unsigned'
+  | 'signature'
+  | 'signer'
+  | 'truncated'
+  | 'receipt-mismatch'
+  | 'receipt-missing'
+  | 'receipt-unlogged'
+  | 'checkpoint';
+
+/**
+ * Result of verifyReceiptLog()
+ */
+export interface LogVerification {
+  valid: boolean;
+  /** Entries checked */
+  entries: number;
+  /** First broken link, if any */
+  broken?: {
+    problem: LogProblem;
+    /** Sequence number the entry should have had */
+    seq?: number;
+    receiptId?: string;
+    message: string;
+  };
+}
+
+/**
+ * JSON with object keys sorted, so a value always hashes the same way
+ * no matter how it was stored
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Hash of an entry's content
+ */
+export function hashEntry(entry: Pick<ReceiptLogEntry, 'seq' | 'at' | 'receipt' | 'prevHash'>): string {
+  return sha256(canonicalJson({ seq: entry.seq, at: entry.at, receipt: entry.receipt, prevHash: entry.prevHash }));
+}
+
+/**
+ * Hash of a receipt's content, as kept in checkpoints
+ */
+export function receiptDigest(receipt: PaymentReceipt): string {
+  return sha256(canonicalJson(receipt));
+}
+
+function hashCheckpoint(checkpoint: Pick<ReceiptLogCheckpoint, 'seq' | 'hash' | 'at' | 'receipts'>): string {
+  return sha256(canonicalJson({ seq: checkpoint.seq, hash: checkpoint.hash, at: checkpoint.at, receipts: checkpoint.receipts }));
+}
+
+/**
+ * Checkpoint after `last`, the newest entry being archived
+ *
+ * @param receipts - receiptDigest() of each hot receipt's last archived version, by id
+ */
+export function createLogCheckpoint(
+  last: ReceiptLogEntry,
+  receipts: Record<string, string>,
+  signer?: ReceiptSigner
+): ReceiptLogCheckpoint {
+  const content = { seq: last.seq, hash: last.hash, at: last.at, receipts };
+  const checkpointHash = hashCheckpoint(content);
+  return {
+    ...content,
+    checkpointHash,
+    ...(signer && {
+      signer: signer.address,
+      publicKey: signer.publicKey,
+      signature: signer.sign(checkpointHash),
+    }),
+  };
+}
+
+function publicJwk(publicKey: Buffer) {
+  return {
+    kty: 'EC',
+    crv: 'secp256k1',
+    x: publicKey.subarray(1, 33).toString('base64url'),
+    y: publicKey.subarray(33, 65).toString('base64url'),
+  };
+}
+
+/**
+ * Signer for log entries using the agent wallet's private key
+ */
+export function createReceiptSigner(privateKey: string): ReceiptSigner {
+  const secret = Buffer.from(privateKey.replace(/^0x/, ''), 'hex');
+  const ecdh = createECDH('secp256k1');
+  ecdh.setPrivateKey(secret);
+  const publicKey = ecdh.getPublicKey();
+
+  const key: KeyObject = createPrivateKey({
+    key: { ...publicJwk(publicKey), d: secret.toString('base64url') },
+    format: 'jwk',
+  });
+  const publicHex = `0x${publicKey.toString('hex')}` as `0x${string}`;
+
+  return {
+    address: publicKeyToAddress(publicHex),
+    publicKey: publicHex,
+    sign: (hash) => sign('sha256', Buffer.from(hash), key).toString('base64'),
+  };
+}
+
+/**
+ * Check a signed entry or checkpoint: the signature over `hash` is valid
+ * for its public key, and the key belongs to the claimed signer. Returns
+ * the problem, if any.
+ */
+function checkSignature(
+  entry: Pick<ReceiptLogEntry, 'signer' | 'publicKey' | 'signature'>,
+  hash: string
+): string | undefined {
+  if (!entry.signature || !entry.publicKey || !entry.signer) {
+    return 'is not signed';
+  }
+  try {
+    const publicKey = Buffer.from(entry.publicKey.replace(/^0x/, ''), 'hex');
+    if (publicKeyToAddress(entry.publicKey as `0x${string}`).toLowerCase() !== entry.signer.toLowerCase()) {
+      return `has a public key that doesn't belong to ${entry.signer}`;
+    }
+    const key = createPublicKey({ key: publicJwk(publicKey), format: 'jwk' });
+    return verify('sha256', Buffer.from(hash), key, Buffer.from(entry.signature, 'base64'))
+      ? undefined
+      : 'has an invalid signature';
+  } catch {
+    return 'has an invalid signature';
+  }
+}
+
+/**
+ * Verify a receipt log and report the first broken link.
+ *
+ * Detects edited entries (hash), deleted or reordered entries (sequence
+ * and link), forged signatures, and — given the head — a truncated tail.
+ * Given the current receipts, also checks that each one matches its last
+ * log entry, that no logged receipt was deleted, and that no receipt was
+ * added without being logged. Receipts older than the log are allowed.
+ *
+ * @param options.address - Require every entry to be signed by this wallet
+ * @param options.checkpoint - Entries start after this checkpoint (the
+ *                             older ones were archived)
+ */
+export function verifyReceiptLog(
+  entries: ReceiptLogEntry[],
+  options: {
+    address?: string;
+    head?: ReceiptLogHead;
+    receipts?: PaymentReceipt[];
+    checkpoint?: ReceiptLogCheckpoint;
+  } = {}
+): LogVerification {
+  const fail = (problem: LogProblem, message: string, at: { seq?: number; receiptId?: string } = {}): LogVerification => ({
+    valid: false,
+    entries: entries.length,
+    broken: { problem, message, ...at },
+  });
+  const signatureProblem = (
+    signed: Pick<ReceiptLogEntry, 'signer' | 'publicKey' | 'signature'>,
+    hash: string
+  ): { problem: LogProblem; message: string } | undefined => {
+    if (!options.address && !signed.signature) return undefined;
+    const message = checkSignature(signed, hash);
+    if (message) return { problem: signed.signature ? 'signature' : 'unsigned', message };
+    if (options.address && signed.signer!.toLowerCase() !== options.address.toLowerCase()) {
+      return { problem: 'signer', message: `was signed by ${signed.signer}, not ${options.address}` };
+    }
+    return undefined;
+  };
+
+  const { checkpoint } = options;
+  const first = checkpoint ? checkpoint.seq + 1 : 0;
+  let prevHash = GENESIS_HASH;
+  // Digest of each receipt's last logged version
+  const latest = new Map<string, string>();
+
+  if (checkpoint) {
+    if (hashCheckpoint(checkpoint) !== checkpoint.checkpointHash) {
+      return fail('checkpoint', `Checkpoint at entry ${checkpoint.seq} was modified after it was written`, { seq: checkpoint.seq });
+    }
+    const signature = signatureProblem(checkpoint, checkpoint.checkpointHash);
+    if (signature) {
+      return fail('checkpoint', `Checkpoint at entry ${checkpoint.seq} ${signature.message}`, { seq: checkpoint.seq });
+    }
+    prevHash = checkpoint.hash;
+    for (const [id, digest] of Object.entries(checkpoint.receipts)) latest.set(id, digest);
+  }
+
+  for (const [index, entry] of entries.entries()) {
+    const seq = first + index;
+    const at = { seq, receiptId: entry.receipt?.id };
+    if (entry.seq !== seq) {
+      return fail('sequence', `Entry ${seq} has sequence number ${entry.seq} (entries were deleted or reordered)`, at);
+    }
+    if (entry.prevHash !== prevHash) {
+      return fail('link', `Entry ${seq} doesn't link to the entry before it`, at);
+    }
+    if (hashEntry(entry) !== entry.hash) {
+      return fail('hash', `Entry ${seq} was modified after it was written`, at);
+    }
+    const signature = signatureProblem(entry, entry.hash);
+    if (signature) {
+      return fail(signature.problem, `Entry ${seq} ${signature.message}`, at);
+    }
+    prevHash = entry.hash;
+    latest.set(entry.receipt.id, receiptDigest(entry.receipt));
+  }
+
+  const { head } = options;
+  const last = first + entries.length - 1;
+  if (head && (head.seq !== last || head.hash !== prevHash)) {
+    return fail('truncated', head.seq > last
+      ? `Log ends at entry ${last} but entry ${head.seq} was written (the tail was removed)`
+      : `Log head doesn't match entry ${head.seq}`, { seq: head.seq });
+  }
+
+  if (options.receipts) {
+    const current = new Map(options.receipts.map(r => [r.id, r]));
+    for (const [id, logged] of latest) {
+      const receipt = current.get(id);
+      if (!receipt) {
+        return fail('receipt-missing', `Receipt ${id} is in the log but was deleted`, { receiptId: id });
+      }
+      if (receiptDigest(receipt) !== logged) {
+        return fail('receipt-mismatch', `Receipt ${id} differs from its last log entry`, { receiptId: id });
+      }
+    }
+
+    // Receipts from before the checkpoint may have been archived with their entries
+    const logStart = checkpoint
+      ? Date.parse(checkpoint.at) + 1
+      : entries.length > 0 ? Date.parse(entries[0].at) : Infinity;
+    const unlogged = options.receipts.find(r => !latest.has(r.id) && Date.parse(r.timestamp) >= logStart);
+    if (unlogged) {
+      return fail('receipt-unlogged', `Receipt ${unlogged.id} was added without a log entry`, { receiptId: unlogged.id });
+    }
+  }
+
+  return { valid: true, entries: entries.length };
+}
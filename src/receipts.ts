@@ -3,54 +3,352 @@
  * Audit trail for all payment attempts
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
-import { PaymentReceipt } from './config';
+import { basename, dirname, extname } from 'path';
+import { NetworkName, PaymentDispute, PaymentReceipt } from './config';
 import { randomUUID } from 'crypto';
+import { JsonFileStorage, StorageAdapter } from './storage';
+import { fromAtomic, receiptValueRaw, sumAtomic, toAtomic } from './money';
+import { getHostname, matchesDomain } from './url-rules';
+import { ExportOptions, exportReceipts } from './receipt-export';
+import {
+  CompactionResult,
+  DEFAULT_COMPACT_EVERY,
+  ReceiptArchive,
+  ReceiptLogArchive,
+  RetentionPolicy,
+  receiptsToArchive,
+  validateRetention,
+} from './receipt-archive';
+import {
+  GENESIS_HASH,
+  LogVerification,
+  ReceiptLogCheckpoint,
+  ReceiptLogEntry,
+  ReceiptLogHead,
+  ReceiptSigner,
+  createLogCheckpoint,
+  hashEntry,
+  receiptDigest,
+  verifyReceiptLog,
+} from './receipt-log';
+
+/**
+ * Filters for ReceiptStore.query(). Every filter that is set must match;
+ * a list matches any of its entries.
+ */
+export interface ReceiptFilter {
+  /** Earliest receipt time, inclusive (ISO 8601 date or time, or ms since epoch) */
+  from?: string | number;
+  /** Latest receipt time, exclusive (ISO 8601 date or time, or ms since epoch) */
+  to?: string | number;
+  status?: PaymentReceipt['status'] | PaymentReceipt['status'][];
+  network?: NetworkName | NetworkName[];
+  /** Recipient address (case-insensitive) */
+  recipient?: string | string[];
+  /** URL host — 'example.com' includes subdomains; '*.example.com' only subdomains */
+  host?: string | string[];
+  /** USD value bounds, inclusive */
+  minAmount?: number;
+  maxAmount?: number;
+  /** Receipts carrying any of these tags */
+  tags?: string[];
+  /** Budget scope the payment was made in */
+  scope?: string | string[];
+  /** Trace id passed to fetch() */
+  traceId?: string | string[];
+  /** Idempotency key of the request (every try of it) */
+  idempotencyKey?: string | string[];
+  /** Receipts with a dispute in this state */
+  dispute?: PaymentDispute['status'] | PaymentDispute['status'][];
+}
+
+/**
+ * Filters plus pagination for ReceiptStore.query()
+ */
+export interface ReceiptQuery extends ReceiptFilter {
+  /** Receipts per page (default: all) */
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+  /** 'desc' for newest first (default), 'asc' for oldest first */
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * One page of query results
+ */
+export interface ReceiptPage {
+  receipts: PaymentReceipt[];
+  /** Receipts matching the filters, across all pages */
+  total: number;
+  /** Pass as `cursor` to get the next page; unset on the last page */
+  nextCursor?: string;
+}
+
+/** How spending is grouped by ReceiptStore.aggregate() */
+export type SpendGrouping = 'day' | 'month' | 'recipient' | 'host' | 'network';
+
+/**
+ * Successful spending within one group
+ */
+export interface SpendGroup {
+  /** UTC date (YYYY-MM-DD) or month (YYYY-MM), recipient address, URL host or network */
+  key: string;
+  /** USD value */
+  total: number;
+  /** USD value in atomic units (6 decimals) */
+  totalRaw: string;
+  count: number;
+}
+
+/**
+ * Receipt time in ms, or a bound given as a date, time or ms
+ */
+function toTime(value: string | number): number {
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return time;
+}
+
+function asList<T>(value: T | T[] | undefined): T[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Build a predicate for a receipt filter
+ */
+function receiptMatcher(filter: ReceiptFilter): (receipt: PaymentReceipt) => boolean {
+  const from = filter.from !== undefined ? toTime(filter.from) : undefined;
+  const to = filter.to !== undefined ? toTime(filter.to) : undefined;
+  const statuses = asList(filter.status);
+  const networks = asList(filter.network);
+  const recipients = asList(filter.recipient)?.map(r => r.toLowerCase());
+  const hosts = asList(filter.host);
+  const scopes = asList(filter.scope);
+  const traceIds = asList(filter.traceId);
+  const idempotencyKeys = asList(filter.idempotencyKey);
+  const disputes = asList(filter.dispute);
+  const min = filter.minAmount !== undefined ? toAtomic(filter.minAmount) : undefined;
+  const max = filter.maxAmount !== undefined ? toAtomic(filter.maxAmount) : undefined;
+
+  return (receipt) => {
+    const time = Date.parse(receipt.timestamp);
+    if (from !== undefined && time < from) return false;
+    if (to !== undefined && time >= to) return false;
+    if (statuses && !statuses.includes(receipt.status)) return false;
+    if (networks && !networks.includes(receipt.network)) return false;
+    if (recipients && !recipients.includes(receipt.recipient.toLowerCase())) return false;
+    if (scopes && (receipt.scope === undefined || !scopes.includes(receipt.scope))) return false;
+    if (traceIds && (receipt.traceId === undefined || !traceIds.includes(receipt.traceId))) return false;
+    if (idempotencyKeys && (receipt.idempotencyKey === undefined || !idempotencyKeys.includes(receipt.idempotencyKey))) return false;
+    if (disputes && (receipt.dispute === undefined || !disputes.includes(receipt.dispute.status))) return false;
+    if (filter.tags && !filter.tags.some(tag => receipt.tags?.includes(tag))) return false;
+    if (hosts) {
+      const hostname = getHostname(receipt.url);
+      if (!hostname || !hosts.some(host => matchesDomain(hostname, host))) return false;
+    }
+    if (min !== undefined || max !== undefined) {
+      const value = receiptValueRaw(receipt);
+      if (min !== undefined && value < min) return false;
+      if (max !== undefined && value > max) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Receipts passing the filter, read lazily
+ */
+function* matching(receipts: Iterable<PaymentReceipt>, filter: ReceiptFilter): Generator<PaymentReceipt> {
+  const matches = receiptMatcher(filter);
+  for (const receipt of receipts) {
+    if (matches(receipt)) yield receipt;
+  }
+}
+
+/**
+ * Group key of a receipt
+ */
+function groupKey(receipt: PaymentReceipt, groupBy: SpendGrouping): string {
+  switch (groupBy) {
+    case 'day':
+      return new Date(receipt.timestamp).toISOString().split('T')[0];
+    case 'month':
+      return new Date(receipt.timestamp).toISOString().slice(0, 7);
+    case 'recipient':
+      return receipt.recipient.toLowerCase();
+    case 'host':
+      return getHostname(receipt.url) ?? 'unknown';
+    case 'network':
+      return receipt.network;
+  }
+}
 
 /**
  * Receipt storage manager
  */
 export class ReceiptStore {
-  private receiptsPath: string;
-  private receipts: PaymentReceipt[];
+  private storage: StorageAdapter;
+  private logKey: string;
+  /** Hash-chained history of every save (see receipt-log.ts) */
+  private chainKey: string;
+  private signer?: ReceiptSigner;
+  private retention?: RetentionPolicy;
+  private archive?: ReceiptArchive;
+  private logArchive?: ReceiptLogArchive;
+  /** Locked while compacting; records the last run */
+  private compactionKey: string;
+  /** Locked while a conditional update checks and writes a receipt */
+  private updateKey: string;
+  private createdSinceCompaction = 0;
+  /** Hot receipts as last read, with the storage version they were read at */
+  private cached?: { version: string; receipts: PaymentReceipt[] };
 
-  constructor(receiptsPath = './receipts.json') {
-    this.receiptsPath = receiptsPath;
-    this.receipts = this.loadReceipts();
+  /**
+   * @param storage - Path to a receipts JSON file, or a storage backend
+   *                  (receipts are kept under the 'receipts' key)
+   * @param signer - Signs receipt log entries (usually with the agent wallet key)
+   * @param retention - Move old receipts into monthly archives (see receipt-archive.ts)
+   */
+  constructor(storage: string | StorageAdapter = './receipts.json', signer?: ReceiptSigner, retention?: RetentionPolicy) {
+    if (typeof storage === 'string') {
+      this.storage = new JsonFileStorage(dirname(storage));
+      this.logKey = basename(storage);
+    } else {
+      this.storage = storage;
+      this.logKey = 'receipts';
+    }
+    // receipts.json keeps its log in receipts-log.json
+    const stem = basename(this.logKey, extname(this.logKey));
+    this.chainKey = `${stem}-log`;
+    this.compactionKey = `${stem}-compaction`;
+    this.updateKey = `${stem}-updates`;
+    this.signer = signer;
+
+    if (retention) {
+      if (!this.storage.deleteRecords) {
+        throw new Error("Receipt retention needs a storage backend that can delete records (deleteRecords)");
+      }
+      this.retention = validateRetention(retention);
+      this.archive = new ReceiptArchive(retention.archiveDir, stem);
+      this.logArchive = new ReceiptLogArchive(retention.archiveDir, this.chainKey);
+    }
+  }
+
+  /**
+   * Receipts as currently stored (other processes may have added some).
+   * Re-read only when the backend reports a change.
+   */
+  private get receipts(): PaymentReceipt[] {
+    const version = this.storage.recordsVersion?.(this.logKey);
+    if (version !== undefined && this.cached?.version === version) return this.cached.receipts;
+    const receipts = this.storage.readRecords<PaymentReceipt>(this.logKey);
+    this.cached = version !== undefined ? { version, receipts } : undefined;
+    return receipts;
   }
 
-  private loadReceipts(): PaymentReceipt[] {
-    if (existsSync(this.receiptsPath)) {
-      try {
-        return JSON.parse(readFileSync(this.receiptsPath, 'utf-8'));
-      } catch {
-        return [];
+  /**
+   * Hot receipts plus archived receipts from the months a filter's date
+   * range touches (all months without one). Hot copies win.
+   */
+  private withArchived(filter: ReceiptFilter = {}): PaymentReceipt[] {
+    return this.archive ? [...this.eachWithArchived(filter)] : this.receipts;
+  }
+
+  /**
+   * withArchived() one archived month at a time, so only that month and
+   * the hot receipts are held in memory
+   */
+  private *eachWithArchived(filter: ReceiptFilter = {}): Generator<PaymentReceipt> {
+    const hot = this.receipts;
+    if (this.archive) {
+      const from = filter.from !== undefined ? toTime(filter.from) : undefined;
+      const to = filter.to !== undefined ? toTime(filter.to) : undefined;
+      const hotById = new Map(hot.map(r => [r.id, r]));
+      const emitted = new Set<string>();
+      for (const month of this.archive.monthsInRange(from, to)) {
+        for (const archived of this.archive.read(month)) {
+          const receipt = hotById.get(archived.id);
+          if (receipt) emitted.add(receipt.id);
+          yield receipt ?? archived;
+        }
       }
+      for (const receipt of hot) {
+        if (!emitted.has(receipt.id)) yield receipt;
+      }
+    } else {
+      yield* hot;
     }
-    return [];
   }
 
-  private saveReceipts(): void {
-    const dir = dirname(this.receiptsPath);
-    if (dir && !existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
+  private saveReceipt(receipt: PaymentReceipt): void {
+    this.storage.putRecord(this.logKey, receipt);
+    this.appendToLog(receipt);
+  }
+
+  /**
+   * Compact every `compactEvery` new receipts. A failed compaction is
+   * retried next time rather than failing the payment.
+   */
+  private compactIfDue(): void {
+    const every = this.retention?.compactEvery ?? DEFAULT_COMPACT_EVERY;
+    if (!this.retention || every === 0 || ++this.createdSinceCompaction < every) return;
+    try {
+      this.compact();
+    } catch (error) {
+      console.warn(`[x402] Receipt compaction failed: ${error instanceof Error ? error.message : error}`);
     }
-    writeFileSync(this.receiptsPath, JSON.stringify(this.receipts, null, 2));
   }
 
   /**
-   * Create a new receipt (pending state)
+   * Append a receipt snapshot to the log. The head document is updated
+   * under its lock, so concurrent writers get consecutive entries. Entries
+   * are never replaced, so backends that can append do.
+   */
+  private appendToLog(receipt: PaymentReceipt): void {
+    this.storage.updateDocument<ReceiptLogHead>(`${this.chainKey}-head`, head => {
+      const entry: Omit<ReceiptLogEntry, 'hash'> = {
+        id: String(head ? head.seq + 1 : 0),
+        seq: head ? head.seq + 1 : 0,
+        at: new Date().toISOString(),
+        receipt,
+        prevHash: head?.hash ?? GENESIS_HASH,
+      };
+      const hash = hashEntry(entry);
+      const signed: ReceiptLogEntry = {
+        ...entry,
+        hash,
+        ...(this.signer && {
+          signer: this.signer.address,
+          publicKey: this.signer.publicKey,
+          signature: this.signer.sign(hash),
+        }),
+      };
+      if (this.storage.appendRecord) {
+        this.storage.appendRecord(this.chainKey, signed);
+      } else {
+        this.storage.putRecord(this.chainKey, signed);
+      }
+      return { seq: entry.seq, hash };
+    });
+  }
+
+  /**
+   * Create a new receipt (pending state unless a status is given)
    */
-  createReceipt(partial: Omit<PaymentReceipt, 'id' | 'timestamp' | 'status'>): PaymentReceipt {
+  createReceipt(
+    partial: Omit<PaymentReceipt, 'id' | 'timestamp' | 'status'> & { status?: PaymentReceipt['status'] }
+  ): PaymentReceipt {
     const receipt: PaymentReceipt = {
       id: randomUUID(),
       timestamp: new Date().toISOString(),
       status: 'pending',
       ...partial,
     };
-    this.receipts.push(receipt);
-    this.saveReceipts();
+    this.saveReceipt(receipt);
+    this.compactIfDue();
     return receipt;
   }
 
@@ -58,12 +356,36 @@ export class ReceiptStore {
    * Update receipt status
    */
   updateReceipt(id: string, update: Partial<PaymentReceipt>): PaymentReceipt | null {
-    const idx = this.receipts.findIndex(r => r.id === id);
-    if (idx === -1) return null;
+    const existing = this.receipts.find(r => r.id === id);
+    if (!existing) return null;
     
-    this.receipts[idx] = { ...this.receipts[idx], ...update };
-    this.saveReceipts();
-    return this.receipts[idx];
+    const updated = { ...existing, ...update };
+    this.saveReceipt(updated);
+    return updated;
+  }
+
+  /**
+   * Update a receipt only if `condition` holds for its stored version. The
+   * check and the write happen under one storage lock, so when two
+   * processes update the same receipt at once only one of them wins.
+   * Returns null if the receipt is missing or the condition fails.
+   */
+  updateReceiptIf(
+    id: string,
+    condition: (receipt: PaymentReceipt) => boolean,
+    update: (receipt: PaymentReceipt) => Partial<PaymentReceipt>
+  ): PaymentReceipt | null {
+    let updated: PaymentReceipt | undefined;
+    this.storage.updateDocument<{ lastUpdate?: { id: string; at: string } }>(this.updateKey, current => {
+      const existing = this.getById(id);
+      if (!existing || !condition(existing)) return current ?? {};
+      updated = { ...existing, ...update(existing) };
+      this.storage.putRecord(this.logKey, updated);
+      return { lastUpdate: { id, at: new Date().toISOString() } };
+    });
+    // Logged after the lock is released, like any other save
+    if (updated) this.appendToLog(updated);
+    return updated ?? null;
   }
 
   /**
@@ -75,7 +397,12 @@ export class ReceiptStore {
     amountRaw: string,
     recipient: string,
     network: PaymentReceipt['network'],
-    reason: string
+    reason: string,
+    details: Pick<
+      PaymentReceipt,
+      'currency' | 'asset' | 'valueUsdRaw' | 'blockRule' | 'blockCode' | 'blockLimit' | 'blockCurrent' | 'retryAfter' | 'scope' | 'tags'
+      | 'traceId' | 'description' | 'mimeType' | 'request' | 'payment' | 'idempotencyKey' | 'attempt' | 'retryOf'
+    > = { currency: 'USDC' }
   ): PaymentReceipt {
     const receipt: PaymentReceipt = {
       id: randomUUID(),
@@ -83,24 +410,31 @@ export class ReceiptStore {
       url,
       amount,
       amountRaw,
-      currency: 'USDC',
+      ...details,
       network,
       recipient,
       status: 'blocked',
       blockReason: reason,
     };
-    this.receipts.push(receipt);
-    this.saveReceipts();
+    this.saveReceipt(receipt);
+    this.compactIfDue();
     return receipt;
   }
 
   /**
-   * Get all receipts
+   * Get all receipts in hot storage (query() also reads archives)
    */
   getAll(): PaymentReceipt[] {
     return [...this.receipts];
   }
 
+  /**
+   * Get a receipt by id
+   */
+  getById(id: string): PaymentReceipt | undefined {
+    return this.receipts.find(r => r.id === id);
+  }
+
   /**
    * Get receipts by status
    */
@@ -108,6 +442,13 @@ export class ReceiptStore {
     return this.receipts.filter(r => r.status === status);
   }
 
+  /**
+   * Get receipts of payments made in any of these budget scopes
+   */
+  getByScope(scopes: string[]): PaymentReceipt[] {
+    return this.receipts.filter(r => r.scope !== undefined && scopes.includes(r.scope));
+  }
+
   /**
    * Get receipts for today
    */
@@ -117,12 +458,21 @@ export class ReceiptStore {
   }
 
   /**
-   * Get total spent today (successful payments only)
+   * Get total spent today in USD (successful payments only)
    */
   getTodayTotal(): number {
-    return this.getToday()
-      .filter(r => r.status === 'success')
-      .reduce((sum, r) => sum + parseFloat(r.amount), 0);
+    return fromAtomic(this.getTodayTotalRaw());
+  }
+
+  /**
+   * Get total spent today in USD atomic units (successful payments only)
+   */
+  getTodayTotalRaw(): bigint {
+    return sumAtomic(
+      this.getToday()
+        .filter(r => r.status === 'success')
+        .map(receiptValueRaw)
+    );
   }
 
   /**
@@ -133,18 +483,186 @@ export class ReceiptStore {
   }
 
   /**
-   * Export receipts as CSV
+   * Find receipts matching the filters, a page at a time.
+   * Pages stay consistent while new receipts are added.
+   *
+   * @example
+   * const page = store.query({ status: 'success', host: 'api.example.com', limit: 20 });
+   * const next = store.query({ status: 'success', host: 'api.example.com', limit: 20, cursor: page.nextCursor });
+   */
+  query(query: ReceiptQuery = {}): ReceiptPage {
+    const matching = this.withArchived(query).filter(receiptMatcher(query));
+    if (query.order !== 'asc') matching.reverse();
+
+    let start = 0;
+    if (query.cursor !== undefined) {
+      const index = matching.findIndex(r => r.id === query.cursor);
+      if (index === -1) {
+        throw new Error(`Unknown cursor "${query.cursor}" (the receipt no longer matches the filters)`);
+      }
+      start = index + 1;
+    }
+
+    const end = query.limit !== undefined ? start + query.limit : matching.length;
+    const receipts = matching.slice(start, end);
+    return {
+      receipts,
+      total: matching.length,
+      nextCursor: end < matching.length && receipts.length > 0 ? receipts[receipts.length - 1].id : undefined,
+    };
+  }
+
+  /**
+   * Successful spending matching the filters, grouped by day or month
+   * (UTC), recipient, URL host or network. Days and months are oldest
+   * first; other groups largest first. Paid-but-failed payments are left
+   * out (see serviceReliability).
    */
-  exportCsv(): string {
-    const headers = ['id', 'timestamp', 'url', 'amount', 'currency', 'network', 'recipient', 'txHash', 'status', 'blockReason'];
-    const rows = this.receipts.map(r => 
-      headers.map(h => {
-        const val = r[h as keyof PaymentReceipt];
-        if (val === undefined || val === null) return '';
-        if (typeof val === 'string' && val.includes(',')) return `"${val}"`;
-        return String(val);
-      }).join(',')
+  aggregate(groupBy: SpendGrouping, filter: ReceiptFilter = {}): SpendGroup[] {
+    const matches = receiptMatcher({ ...filter, status: 'success' });
+    const groups = new Map<string, { total: bigint; count: number }>();
+    for (const receipt of this.withArchived(filter)) {
+      if (!matches(receipt)) continue;
+      const key = groupKey(receipt, groupBy);
+      const group = groups.get(key) ?? { total: 0n, count: 0 };
+      group.total += receiptValueRaw(receipt);
+      group.count += 1;
+      groups.set(key, group);
+    }
+
+    const sorted = [...groups].sort(([keyA, a], [keyB, b]) =>
+      groupBy === 'day' || groupBy === 'month' || a.total === b.total ? keyA.localeCompare(keyB) : b.total > a.total ? 1 : -1
     );
-    return [headers.join(','), ...rows].join('\n');
+    return sorted.map(([key, { total, count }]) => ({
+      key,
+      total: fromAtomic(total),
+      totalRaw: total.toString(),
+      count,
+    }));
+  }
+
+  /**
+   * Where the hot log starts, if compaction archived older entries
+   */
+  private get checkpoint(): ReceiptLogCheckpoint | undefined {
+    return this.storage.readDocument<ReceiptLogCheckpoint>(`${this.chainKey}-checkpoint`);
+  }
+
+  /**
+   * Receipt log entries, oldest first — every saved version of every
+   * receipt, or only those of one receipt. Entries moved to the archives
+   * by compaction are included with `archived`.
+   */
+  getLog(receiptId?: string, options: { archived?: boolean } = {}): ReceiptLogEntry[] {
+    const checkpoint = this.checkpoint;
+    let entries = this.storage.readRecords<ReceiptLogEntry>(this.chainKey);
+    if (options.archived && this.logArchive) {
+      const all = new Map(this.logArchive.readRange().map(e => [e.seq, e]));
+      for (const entry of entries) all.set(entry.seq, entry);
+      entries = [...all.values()].sort((a, b) => a.seq - b.seq);
+    } else if (checkpoint) {
+      // Left behind by a compaction that stopped before deleting them
+      entries = entries.filter(e => e.seq > checkpoint.seq);
+    }
+    return receiptId ? entries.filter(e => e.receipt.id === receiptId) : entries;
+  }
+
+  /**
+   * Check the receipt log for edits, deletions and reorderings, and check
+   * the stored receipts against it. After compaction the hot log is
+   * checked from its checkpoint; `archived` checks the whole log.
+   *
+   * @param address - Require every entry to be signed by this wallet
+   */
+  verifyLog(address?: string, options: { archived?: boolean } = {}): LogVerification {
+    const archived = options.archived === true && this.logArchive !== undefined;
+    return verifyReceiptLog(this.getLog(undefined, { archived }), {
+      address,
+      head: this.storage.readDocument<ReceiptLogHead>(`${this.chainKey}-head`),
+      receipts: this.withArchived(),
+      checkpoint: archived ? undefined : this.checkpoint,
+    });
+  }
+
+  /**
+   * Move receipts due under the retention policy into the monthly
+   * archives. Runs on its own every `compactEvery` receipts.
+   *
+   * @throws Error if no retention policy was given
+   */
+  compact(): CompactionResult {
+    const { retention, archive } = this;
+    if (!retention || !archive) {
+      throw new Error('Receipt retention is not configured');
+    }
+
+    let result!: CompactionResult;
+    // The compaction document's lock keeps processes from compacting at once
+    this.storage.updateDocument<{ lastRun: string; archived: number }>(this.compactionKey, previous => {
+      const entries = this.storage.readRecords<ReceiptLogEntry>(this.chainKey);
+      const hot = this.receipts;
+      const due = receiptsToArchive(hot, retention);
+      const dueIds = new Set(due.map(r => r.id));
+      // Archive first: a crash in between leaves a receipt in both places, and hot copies win
+      const months = due.length > 0 ? archive.append(due) : [];
+      this.archiveLog(entries, hot.filter(r => !dueIds.has(r.id)));
+      if (due.length > 0) this.storage.deleteRecords!(this.logKey, [...dueIds]);
+      result = { archived: due.length, logEntries: entries.length, months, hot: hot.length - due.length };
+      return { lastRun: new Date().toISOString(), archived: (previous?.archived ?? 0) + due.length };
+    });
+    this.createdSinceCompaction = 0;
+    return result;
+  }
+
+  /**
+   * Move log entries into the log archives, then checkpoint the last one
+   * with a digest of each receipt staying hot, so the hot log still
+   * verifies on its own. A crash before the entries are deleted leaves
+   * them in both places; the checkpoint says where the hot log starts.
+   */
+  private archiveLog(entries: ReceiptLogEntry[], hot: PaymentReceipt[]): void {
+    if (entries.length === 0) return;
+    const previous = this.checkpoint;
+    const fresh = entries.filter(e => !previous || e.seq > previous.seq);
+
+    this.logArchive!.append(entries);
+    if (fresh.length > 0) {
+      const digests = new Map(Object.entries(previous?.receipts ?? {}));
+      for (const entry of fresh) digests.set(entry.receipt.id, receiptDigest(entry.receipt));
+      const kept = new Set(hot.map(r => r.id));
+      const last = fresh.reduce((a, b) => (b.seq > a.seq ? b : a));
+      const checkpoint = createLogCheckpoint(
+        last,
+        Object.fromEntries([...digests].filter(([id]) => kept.has(id))),
+        this.signer
+      );
+      this.storage.updateDocument<ReceiptLogCheckpoint>(`${this.chainKey}-checkpoint`, () => checkpoint);
+    }
+    this.storage.deleteRecords!(this.chainKey, entries.map(e => e.id));
+  }
+
+  /**
+   * Export receipts matching the filters as CSV, JSON Lines, OFX or QIF,
+   * oldest first, a chunk at a time
+   *
+   * @example
+   * for (const chunk of store.exportStream({ format: 'jsonl', from: '2026-01-01' })) out.write(chunk);
+   */
+  exportStream(options: ExportOptions = {}): Generator<string> {
+    return exportReceipts(matching(this.eachWithArchived(options), options), options);
+  }
+
+  /**
+   * Export receipts matching the filters as one string
+   */
+  export(options: ExportOptions = {}): string {
+    return [...this.exportStream(options)].join('');
+  }
+
+  /**
+   * Export receipts as CSV (RFC 4180)
+   */
+  exportCsv(options: Omit<ExportOptions, 'format'> = {}): string {
+    return this.export({ ...options, format: 'csv' });
   }
 }
@@ -0,0 +1,207 @@
+/**
+ * On-Chain Reconciliation
+ * Checks paid receipts against their settlement transactions
+ *
+ * A receipt's txHash comes from the server's payment response, so on its
+ * own it only says what the server claimed. The reconciler fetches each
+ * transaction and its ERC-20 Transfer logs and confirms that the recorded
+ * amount of the recorded asset went to the recorded recipient. Any
+ * difference between what the server charged and what policy approved is
+ * reported as a discrepancy.
+ */
+
+import { erc20Abi, parseEventLogs, TransactionReceiptNotFoundError } from 'viem';
+import type { PublicClient } from 'viem';
+import { NetworkName, PaymentReceipt, ReceiptReconciliation, USDC_ADDRESSES } from './config';
+import { getAsset } from './assets';
+import { formatAtomic } from './money';
+import { ReceiptStore } from './receipts';
+
+/**
+ * What the reconciler needs from a viem public client
+ */
+export type ChainReader = Pick<PublicClient, 'getTransactionReceipt'>;
+
+/**
+ * A chain reader for every network, or one per network
+ */
+export type ChainReaders = ChainReader | ((network: NetworkName) => ChainReader);
+
+/**
+ * Outcome for one receipt
+ */
+export interface ReconcileResult {
+  receiptId: string;
+  url: string;
+  network: NetworkName;
+  txHash?: string;
+  /** error: the lookup itself failed (rate limit, RPC timeout); the receipt is checked again next run */
+  status: ReconciliationStatus | 'error';
+  /** Amount policy approved, in the asset's atomic units */
+  approvedRaw: string;
+  /** Amount the transaction paid the recipient, in the asset's atomic units */
+  chargedRaw?: string;
+  /** Block the transaction was included in */
+  blockNumber?: bigint;
+  /** What doesn't match, in words */
+  discrepancies: string[];
+}
+
+export type ReconciliationStatus = ReceiptReconciliation['status'];
+
+/**
+ * Summary of a reconciliation run
+ */
+export interface ReconciliationReport {
+  checked: number;
+  confirmed: number;
+  mismatch: number;
+  notFound: number;
+  /** Receipts whose transaction couldn't be looked up */
+  errors: number;
+  results: ReconcileResult[];
+  /** Results where the chain disagrees with the receipt */
+  discrepancies: ReconcileResult[];
+}
+
+/**
+ * Check one receipt against its transaction
+ *
+ * @param options.payer - Wallet that should have paid (checked when set)
+ */
+export async function reconcileReceipt(
+  receipt: PaymentReceipt,
+  reader: ChainReader,
+  options: { payer?: string } = {}
+): Promise<ReconcileResult & { status: ReconciliationStatus }> {
+  const result: ReconcileResult & { status: ReconciliationStatus } = {
+    receiptId: receipt.id,
+    url: receipt.url,
+    network: receipt.network,
+    txHash: receipt.txHash,
+    status: 'not_found',
+    approvedRaw: receipt.amountRaw,
+    discrepancies: [],
+  };
+
+  if (!receipt.txHash) {
+    result.discrepancies.push('No transaction hash was recorded');
+    return result;
+  }
+
+  let transaction;
+  try {
+    transaction = await reader.getTransactionReceipt({ hash: receipt.txHash as `0x${string}` });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      result.discrepancies.push(`Transaction ${receipt.txHash} was not found on ${receipt.network}`);
+      return result;
+    }
+    throw error;
+  }
+
+  result.status = 'mismatch';
+  result.blockNumber = transaction.blockNumber;
+  if (transaction.status !== 'success') {
+    result.discrepancies.push('Transaction reverted');
+    return result;
+  }
+
+  const asset = receipt.asset ?? USDC_ADDRESSES[receipt.network];
+  const symbol = receipt.currency;
+  const decimals = getAsset(receipt.network, asset)?.decimals;
+  const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: transaction.logs })
+    .filter(log => sameAddress(log.address, asset));
+  const toRecipient = transfers.filter(log => sameAddress(log.args.to, receipt.recipient));
+
+  if (toRecipient.length === 0) {
+    result.discrepancies.push(transfers.length > 0
+      ? `${symbol} went to ${transfers.map(t => t.args.to).join(', ')}, not the recipient ${receipt.recipient}`
+      : `Transaction has no ${symbol} transfer`);
+    return result;
+  }
+
+  const charged = toRecipient.reduce((sum, log) => sum + log.args.value, 0n);
+  result.chargedRaw = charged.toString();
+
+  const approved = BigInt(receipt.amountRaw);
+  if (charged !== approved) {
+    result.discrepancies.push(
+      `Server charged ${formatAtomic(charged, decimals)} ${symbol} but policy approved ${formatAtomic(approved, decimals)} ${symbol}`
+    );
+  }
+
+  if (options.payer) {
+    const others = toRecipient.filter(log => !sameAddress(log.args.from, options.payer!));
+    if (others.length > 0) {
+      result.discrepancies.push(`Paid from ${others.map(t => t.args.from).join(', ')}, not the wallet ${options.payer}`);
+    }
+  }
+
+  if (result.discrepancies.length === 0) {
+    result.status = 'confirmed';
+  }
+  return result;
+}
+
+/**
+ * Reconcile paid receipts and record the outcome on each receipt
+ * (`receipt.reconciliation`). Confirmed receipts are skipped unless
+ * `recheck` is set. A failed lookup is reported as an error and doesn't
+ * stop the run; that receipt keeps its previous reconciliation.
+ */
+export async function reconcileReceipts(
+  store: ReceiptStore,
+  readers: ChainReaders,
+  options: { payer?: string; recheck?: boolean } = {}
+): Promise<ReconciliationReport> {
+  const receipts = [...store.getByStatus('success'), ...store.getByStatus('paid_failed')]
+    .filter(r => options.recheck || r.reconciliation?.status !== 'confirmed');
+
+  const results: ReconcileResult[] = [];
+  for (const receipt of receipts) {
+    let result: ReconcileResult & { status: ReconciliationStatus };
+    try {
+      const reader = typeof readers === 'function' ? readers(receipt.network) : readers;
+      result = await reconcileReceipt(receipt, reader, options);
+    } catch (error) {
+      // Leave the receipt as it was and go on with the others
+      results.push({
+        receiptId: receipt.id,
+        url: receipt.url,
+        network: receipt.network,
+        txHash: receipt.txHash,
+        status: 'error',
+        approvedRaw: receipt.amountRaw,
+        discrepancies: [`Transaction lookup failed: ${error instanceof Error ? error.message : error}`],
+      });
+      continue;
+    }
+    results.push(result);
+
+    store.updateReceipt(receipt.id, {
+      reconciliation: {
+        status: result.status,
+        checkedAt: new Date().toISOString(),
+        chargedRaw: result.chargedRaw,
+        blockNumber: result.blockNumber?.toString(),
+        discrepancies: result.discrepancies.length > 0 ? result.discrepancies : undefined,
+      },
+    });
+  }
+
+  const count = (status: ReconcileResult['status']) => results.filter(r => r.status === status).length;
+  return {
+    checked: results.length,
+    confirmed: count('confirmed'),
+    mismatch: count('mismatch'),
+    notFound: count('not_found'),
+    errors: count('error'),
+    results,
+    discrepancies: results.filter(r => r.status === 'mismatch' || r.status === 'not_found'),
+  };
+}
+
+function sameAddress(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.toLowerCase() === b.toLowerCase();
+}
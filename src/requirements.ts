@@ -0,0 +1,247 @@
+/**
+ * Payment Requirement Selection
+ * Parses the options a server offers in a 402 response and picks the one to pay
+ *
+ * x402 v2 servers send an `accepts[]` array where each entry can use a different
+ * scheme, network and asset. We normalize every option, drop the ones our wallet
+ * can't pay, run each remaining option through the spending policy, and select
+ * the cheapest allowed one (or whatever a custom selector prefers).
+ */
+
+import type { PaymentRequirements } from '@x402/fetch';
+import { BlockDetails, NETWORK_IDS, NetworkName } from './config';
+import { AssetInfo, getAsset } from './assets';
+import { fromAtomic, USDC_DECIMALS } from './money';
+
+/**
+ * A single payment option offered by a server, normalized across x402 v1/v2
+ */
+export interface PaymentOption {
+  /** Payment scheme (e.g., 'exact') */
+  scheme: string;
+  /** Network identifier exactly as sent by the server */
+  networkId: string;
+  /** Our network name, if the network is one we know */
+  network?: NetworkName;
+  /** Token contract address (CAIP-19 ids are reduced to the address) */
+  asset: string;
+  /** Registered token for `asset`, if we know it */
+  assetInfo?: AssetInfo;
+  /** Asset symbol, or the address for unknown tokens */
+  symbol: string;
+  /** Amount in atomic units */
+  amountRaw: string;
+  /** Amount in human units of the asset */
+  amount: number;
+  /** Recipient address */
+  payTo: string;
+  /** Resource description advertised by the server */
+  description?: string;
+  /** Response MIME type advertised by the server */
+  mimeType?: string;
+  /** Original requirement object, passed through untouched for signing */
+  requirement: PaymentRequirements;
+}
+
+/**
+ * Option that was not eligible for payment, and why
+ */
+export interface RejectedOption {
+  option: PaymentOption;
+  reason: string;
+  /** True when the option was rejected by the spending policy (vs. unsupported) */
+  policy: boolean;
+  /** Policy rule that fired, when the policy names one */
+  rule?: string;
+  /** Machine-readable block details, when the policy gives them */
+  block?: BlockDetails;
+}
+
+/**
+ * Result of running the selection over all offered options
+ */
+export interface RequirementSelection {
+  /** The option to pay, or null if none is eligible */
+  selected: PaymentOption | null;
+  /** Options that passed wallet support and policy checks */
+  candidates: PaymentOption[];
+  /** Options that were filtered out */
+  rejected: RejectedOption[];
+}
+
+/**
+ * Pluggable selector — picks one of the eligible candidates.
+ * Candidates are pre-sorted cheapest first. Return undefined to decline all.
+ */
+export type RequirementSelector = (candidates: PaymentOption[]) => PaymentOption | undefined;
+
+export interface SelectionOptions {
+  /** Networks the wallet is willing to pay on (default: all known networks) */
+  networks?: NetworkName[];
+  /** Policy check applied to each supported option */
+  check?: (option: PaymentOption) => { allowed: boolean; reason?: string } & Partial<BlockDetails>;
+  /** Custom selector (default: cheapest) */
+  selector?: RequirementSelector;
+  /**
+   * Comparable value of an option for cheapest-first sorting, e.g. its USD
+   * value (default: amount normalized to 6 decimals). Undefined sorts last.
+   */
+  value?: (option: PaymentOption) => bigint | undefined;
+}
+
+/** Legacy (x402 v1) network names that don't match our keys */
+const V1_NETWORK_ALIASES: Record<string, NetworkName> = {
+  'base-sepolia': 'baseSepolia',
+};
+
+/**
+ * Resolve a server-provided network id (CAIP-2 or v1 name) to our network name
+ */
+export function resolveNetwork(networkId: string): NetworkName | undefined {
+  const entry = Object.entries(NETWORK_IDS).find(([, id]) => id === networkId);
+  if (entry) return entry[0] as NetworkName;
+  if (networkId in NETWORK_IDS) return networkId as NetworkName;
+  return V1_NETWORK_ALIASES[networkId];
+}
+
+/**
+ * Reduce a CAIP-19 asset id (eip155:8453/erc20:0x...) to its token address
+ */
+export function parseAssetAddress(asset: string): string {
+  const match = asset.match(/\/erc20:(0x[0-9a-fA-F]{40})$/);
+  return match ? match[1] : asset;
+}
+
+/**
+ * Decode a base64 payment-required header into its JSON body
+ */
+export function decodePaymentRequired(header: string): { x402Version?: number; accepts?: unknown[] } & Record<string, unknown> {
+  return JSON.parse(Buffer.from(header, 'base64').toString('utf-8'));
+}
+
+/**
+ * Normalize a single requirement (v1 or v2 shape) into a PaymentOption
+ */
+export function toPaymentOption(requirement: PaymentRequirements): PaymentOption {
+  // v1 and legacy servers send fields the v2 type doesn't declare
+  const req: Record<string, unknown> = requirement;
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const amount = req.amount ?? req.maxAmountRequired;
+  const amountRaw = typeof amount === 'string' || typeof amount === 'number' || typeof amount === 'bigint'
+    ? String(amount)
+    : '0';
+  const networkId = String(req.network);
+  const network = resolveNetwork(networkId);
+  const asset = parseAssetAddress(text(req.asset) ?? '');
+  const assetInfo = network ? getAsset(network, asset) : undefined;
+
+  return {
+    scheme: requirement.scheme,
+    networkId,
+    network,
+    asset,
+    assetInfo,
+    symbol: assetInfo?.symbol ?? asset,
+    amountRaw,
+    amount: fromAtomic(BigInt(amountRaw), assetInfo?.decimals ?? USDC_DECIMALS),
+    payTo: text(req.payTo) ?? text(req.recipient) ?? 'unknown',
+    description: text(req.description),
+    mimeType: text(req.mimeType),
+    requirement,
+  };
+}
+
+/**
+ * Parse every offered option from a decoded payment-required body.
+ * Accepts v2 `accepts[]` bodies as well as legacy single-requirement bodies.
+ */
+export function parsePaymentOptions(paymentRequired: Record<string, unknown>): PaymentOption[] {
+  if (Array.isArray(paymentRequired.accepts)) {
+    return paymentRequired.accepts.map(r => toPaymentOption(r as PaymentRequirements));
+  }
+  return [toPaymentOption(paymentRequired as unknown as PaymentRequirements)];
+}
+
+/**
+ * Default selector — cheapest eligible option
+ */
+export const cheapestSelector: RequirementSelector = (candidates) => candidates[0];
+
+/**
+ * Default sort value — atomic amount scaled to 6 decimals
+ */
+function normalizedAmount(option: PaymentOption): bigint {
+  const raw = BigInt(option.amountRaw);
+  const decimals = option.assetInfo?.decimals ?? USDC_DECIMALS;
+  return decimals >= USDC_DECIMALS
+    ? raw / 10n ** BigInt(decimals - USDC_DECIMALS)
+    : raw * 10n ** BigInt(USDC_DECIMALS - decimals);
+}
+
+/**
+ * Check whether our wallet can pay an option at all
+ */
+function checkSupport(option: PaymentOption, networks: NetworkName[]): string | undefined {
+  if (option.scheme !== 'exact') {
+    return `Unsupported scheme: ${option.scheme}`;
+  }
+  if (!option.network || !networks.includes(option.network)) {
+    return `Unsupported network: ${option.networkId}`;
+  }
+  if (!option.assetInfo) {
+    return `Unsupported asset on ${option.network}: ${option.asset}`;
+  }
+  return undefined;
+}
+
+/**
+ * Filter offered options by wallet support and policy, then pick one
+ */
+export function selectRequirement(
+  options: PaymentOption[],
+  config: SelectionOptions = {}
+): RequirementSelection {
+  const networks = config.networks || (Object.keys(NETWORK_IDS) as NetworkName[]);
+  const candidates: PaymentOption[] = [];
+  const rejected: RejectedOption[] = [];
+
+  for (const option of options) {
+    const unsupported = checkSupport(option, networks);
+    if (unsupported) {
+      rejected.push({ option, reason: unsupported, policy: false });
+      continue;
+    }
+
+    const verdict = config.check?.(option);
+    if (verdict && !verdict.allowed) {
+      const { code, rule, limit, current, retryAfter, scope } = verdict;
+      rejected.push({
+        option,
+        reason: verdict.reason || 'Blocked by policy',
+        policy: true,
+        rule,
+        block: code ? { code, rule, limit, current, retryAfter, scope } : undefined,
+      });
+      continue;
+    }
+
+    candidates.push(option);
+  }
+
+  const value = config.value || normalizedAmount;
+  const values = new Map(candidates.map(c => [c, value(c)]));
+  candidates.sort((a, b) => {
+    const va = values.get(a);
+    const vb = values.get(b);
+    if (va === undefined || vb === undefined) {
+      return va === vb ? 0 : va === undefined ? 1 : -1;
+    }
+    const diff = va - vb;
+    return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+  });
+
+  const selector = config.selector || cheapestSelector;
+  const selected = candidates.length > 0 ? selector(candidates) ?? null : null;
+
+  return { selected, candidates, rejected };
+}
@@ -0,0 +1,552 @@
+/**
+ * Policy Rule Engine
+ * Ordered allow/deny/limit rules, with every decision explained
+ *
+ * PaymentPolicy's fields (maxPerTransaction, dailyLimit, recipient lists,
+ * network and URL rules, ...) compile to a default rule set that runs after
+ * policy.rules, so existing policies behave exactly as before while new ones
+ * can say things the fields can't — "up to $5 to this recipient, weekdays
+ * only". Every rule is evaluated, and the decision lists each one.
+ */
+
+import { BlockCode, BlockDetails, NetworkName, PaymentPolicy, PolicyRule, RuleConditions, Weekday } from './config';
+import { formatAtomic, formatUsd, fromAtomic, toAtomic } from './money';
+import { resolveNetwork } from './requirements';
+import { getHostname, globToRegExp, matchesDomain, ruleLabel } from './url-rules';
+
+/**
+ * A payment as the engine sees it — being checked, settled, or in flight
+ */
+export interface RulePayment {
+  timestamp: number;
+  /** USD value in atomic units */
+  usd: bigint;
+  /** Amount in the asset's own atomic units */
+  assetRaw: bigint;
+  symbol?: string;
+  decimals?: number;
+  recipient: string;
+  network?: NetworkName;
+  url?: string;
+  tags?: string[];
+}
+
+export type SpendPeriod = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Spending history that limit rules are checked against
+ */
+export interface RuleLedger {
+  /** Settled payments still in the transaction log */
+  settled: RulePayment[];
+  /** In-flight reservations */
+  pending: RulePayment[];
+  /** Whether a settled payment counts toward the current period */
+  inPeriod(timestamp: number, period: SpendPeriod): boolean;
+  /** USD spent by all payments (settled and pending) in the current period */
+  total(period: SpendPeriod): bigint;
+  /** When a settled payment stops counting toward a period */
+  expiresAt(timestamp: number, period: SpendPeriod): number;
+}
+
+/**
+ * How one rule fared for a payment
+ */
+export interface RuleEvaluation {
+  rule: string;
+  effect: PolicyRule['effect'];
+  /** 'rules' for policy.rules, 'policy' for rules compiled from PaymentPolicy fields */
+  source: 'rules' | 'policy';
+  outcome: 'allowed' | 'denied' | 'passed' | 'failed' | 'not-matched' | 'skipped';
+  reason?: string;
+  /** Set when the rule denied or failed the payment */
+  code?: BlockCode;
+  /** Budget scope whose policy the rule belongs to (unset for the wallet policy) */
+  scope?: string;
+}
+
+/**
+ * Policy verdict. A blocked payment carries the details of the first rule
+ * that blocked it (`code`, `rule`, `limit`, ...); `evaluated` lists every
+ * rule in order.
+ */
+export interface PolicyDecision extends Partial<BlockDetails> {
+  allowed: boolean;
+  reason?: string;
+  evaluated?: RuleEvaluation[];
+}
+
+type LimitField = 'maxPerTransaction' | 'dailyLimit' | 'weeklyLimit' | 'monthlyLimit' | 'maxTransactionsPerHour';
+
+/**
+ * Why a limit rule failed
+ */
+interface LimitFailure {
+  field: LimitField;
+  limit: number;
+  /** Spent in the period before this payment (period limits) */
+  current: bigint;
+  /** Payments in the last hour (velocity limits) */
+  count: number;
+  retryAfter?: number;
+}
+
+/**
+ * Rule ready to evaluate
+ */
+interface CompiledRule extends PolicyRule {
+  source: 'rules' | 'policy';
+  /** Block code for deny rules (default RULE_DENIED) */
+  code?: BlockCode;
+  /** Block reason worded for the field the rule was compiled from */
+  message?: (payment: RulePayment, failure?: LimitFailure) => string;
+}
+
+const PERIOD_FIELDS: Record<SpendPeriod, LimitField> = {
+  daily: 'dailyLimit',
+  weekly: 'weeklyLimit',
+  monthly: 'monthlyLimit',
+};
+
+const LIMIT_CODES: Record<LimitField, BlockCode> = {
+  maxPerTransaction: 'MAX_PER_TRANSACTION',
+  dailyLimit: 'DAILY_LIMIT',
+  weeklyLimit: 'WEEKLY_LIMIT',
+  monthlyLimit: 'MONTHLY_LIMIT',
+  maxTransactionsPerHour: 'VELOCITY',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Day of the week and fractional hour of an instant in a timezone
+ */
+function localTime(timestamp: number, timeZone: string): { day: Weekday; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(timestamp);
+  const get = (type: string) => parts.find(p => p.type === type)!.value;
+  return {
+    day: get('weekday').slice(0, 3).toLowerCase() as Weekday,
+    hour: Number(get('hour')) + Number(get('minute')) / 60,
+  };
+}
+
+/**
+ * Whether a payment meets a rule's conditions. Undefined when a condition
+ * needs something the payment doesn't carry (no URL, unknown network).
+ */
+export function matchConditions(
+  conditions: RuleConditions,
+  payment: RulePayment,
+  timeZone = 'UTC'
+): boolean | undefined {
+  const checks: (boolean | undefined)[] = [];
+  const { url, network, symbol } = payment;
+
+  if (conditions.minAmount !== undefined) checks.push(payment.usd >= toAtomic(conditions.minAmount));
+  if (conditions.maxAmount !== undefined) checks.push(payment.usd <= toAtomic(conditions.maxAmount));
+  if (conditions.recipients) {
+    const recipient = payment.recipient.toLowerCase();
+    checks.push(conditions.recipients.some(r => r.toLowerCase() === recipient));
+  }
+  if (conditions.domains) {
+    const hostname = url ? getHostname(url) : undefined;
+    checks.push(hostname ? conditions.domains.some(d => matchesDomain(hostname, d)) : undefined);
+  }
+  if (conditions.urls) {
+    checks.push(url ? conditions.urls.some(glob => globToRegExp(glob).test(url)) : undefined);
+  }
+  if (conditions.urlRegex !== undefined) {
+    checks.push(url ? new RegExp(conditions.urlRegex).test(url) : undefined);
+  }
+  if (conditions.networks) {
+    checks.push(network ? conditions.networks.some(n => resolveNetwork(n) === network) : undefined);
+  }
+  if (conditions.assets) {
+    checks.push(symbol ? conditions.assets.some(a => a.toUpperCase() === symbol.toUpperCase()) : undefined);
+  }
+  if (conditions.days || conditions.hours) {
+    const { day, hour } = localTime(payment.timestamp, timeZone);
+    if (conditions.days) checks.push(conditions.days.includes(day));
+    if (conditions.hours) {
+      const { from, to } = conditions.hours;
+      checks.push(from <= to ? hour >= from && hour < to : hour >= from || hour < to);
+    }
+  }
+  if (conditions.tags) {
+    checks.push(conditions.tags.some(tag => payment.tags?.includes(tag) ?? false));
+  }
+
+  if (checks.includes(undefined)) return undefined;
+  return checks.every(Boolean);
+}
+
+/**
+ * Whether a rule applies to a payment (`when` holds and `unless` doesn't)
+ */
+function matchRule(rule: PolicyRule, payment: RulePayment, timeZone: string): boolean | undefined {
+  const when = rule.when ? matchConditions(rule.when, payment, timeZone) : true;
+  const unless = rule.unless ? matchConditions(rule.unless, payment, timeZone) : false;
+  if (when === undefined || unless === undefined) return undefined;
+  return when && !unless;
+}
+
+/**
+ * Key a limit rule with `per` groups payments by
+ */
+function groupKey(rule: PolicyRule, payment: RulePayment): string | undefined {
+  switch (rule.per) {
+    case 'recipient': return payment.recipient.toLowerCase();
+    case 'domain': return payment.url ? getHostname(payment.url) : undefined;
+    case 'network': return payment.network;
+    default: return '';
+  }
+}
+
+/**
+ * Unscoped USD limits use the ledger's counters, which cover the whole period
+ */
+function usesCounters(rule: PolicyRule): boolean {
+  return !rule.when && !rule.unless && !rule.per && rule.unit !== 'asset';
+}
+
+/**
+ * Periods some limit rule sums settled payments over itself (scoped or
+ * asset-unit limits), so the ledger has to list payments that far back
+ */
+export function ledgerPeriods(policy: PaymentPolicy): SpendPeriod[] {
+  const periods = new Set<SpendPeriod>();
+  for (const rule of [...(policy.rules || []), ...compileDefaults(policy)]) {
+    if (rule.effect !== 'limit' || usesCounters(rule)) continue;
+    for (const period of ['daily', 'weekly', 'monthly'] as const) {
+      if (rule[PERIOD_FIELDS[period]] !== undefined) periods.add(period);
+    }
+  }
+  return [...periods];
+}
+
+/**
+ * Check a limit rule's caps for a payment it matches
+ */
+function checkLimits(
+  rule: CompiledRule,
+  payment: RulePayment,
+  ledger: RuleLedger,
+  timeZone: string
+): LimitFailure | undefined {
+  const inAssetUnits = rule.unit === 'asset';
+  const amountOf = (p: RulePayment) => inAssetUnits ? p.assetRaw : p.usd;
+  const toUnits = (limit: number) => toAtomic(limit, inAssetUnits ? payment.decimals : undefined);
+
+  const global = usesCounters(rule);
+  const key = groupKey(rule, payment);
+  const inScope = (p: RulePayment) => matchRule(rule, p, timeZone) === true && groupKey(rule, p) === key;
+  const settled = global ? ledger.settled : ledger.settled.filter(inScope);
+  const pending = global ? ledger.pending : ledger.pending.filter(inScope);
+
+  const amount = amountOf(payment);
+  if (rule.maxPerTransaction !== undefined && amount > toUnits(rule.maxPerTransaction)) {
+    return { field: 'maxPerTransaction', limit: rule.maxPerTransaction, current: 0n, count: 0 };
+  }
+
+  for (const period of ['daily', 'weekly', 'monthly'] as const) {
+    const field = PERIOD_FIELDS[period];
+    const limit = rule[field];
+    if (limit === undefined) continue;
+
+    const counted = settled.filter(p => ledger.inPeriod(p.timestamp, period));
+    let current = 0n;
+    if (global) {
+      current = ledger.total(period);
+    } else {
+      for (const p of counted) current += amountOf(p);
+      for (const p of pending) current += amountOf(p);
+    }
+    const excess = current + amount - toUnits(limit);
+    if (excess > 0n) {
+      const retryAfter = amount <= toUnits(limit) ? reopensAt(counted, excess, amountOf, period, ledger) : undefined;
+      return { field, limit, current, count: 0, retryAfter };
+    }
+  }
+
+  if (rule.maxTransactionsPerHour !== undefined) {
+    const oneHourAgo = Date.now() - HOUR_MS;
+    const lastHour = settled.filter(p => p.timestamp > oneHourAgo).sort((a, b) => a.timestamp - b.timestamp);
+    const count = lastHour.length + pending.length;
+    if (count >= rule.maxTransactionsPerHour) {
+      // Room for one more once enough of the last hour's payments age out
+      const oldest = lastHour[count - rule.maxTransactionsPerHour];
+      return {
+        field: 'maxTransactionsPerHour',
+        limit: rule.maxTransactionsPerHour,
+        current: 0n,
+        count,
+        retryAfter: oldest && oldest.timestamp + HOUR_MS,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * When enough settled spending leaves a period for `excess` to fit: payments
+ * drop out oldest first. Spending that can't age out (reservations, or
+ * counters older than the log) is assumed to clear when the last payment
+ * does, so the answer errs late rather than early.
+ */
+function reopensAt(
+  counted: RulePayment[],
+  excess: bigint,
+  amountOf: (p: RulePayment) => bigint,
+  period: SpendPeriod,
+  ledger: RuleLedger
+): number | undefined {
+  const oldestFirst = [...counted].sort((a, b) => a.timestamp - b.timestamp);
+  let freed = 0n;
+  for (const p of oldestFirst) {
+    freed += amountOf(p);
+    if (freed >= excess) return ledger.expiresAt(p.timestamp, period);
+  }
+  const last = oldestFirst[oldestFirst.length - 1];
+  return ledger.expiresAt(last?.timestamp ?? Date.now(), period);
+}
+
+/**
+ * Block reason for a failed limit, e.g. "payment would exceed daily limit on
+ * base. Current: $4.00, Limit: $5.00". `scope` is inserted after the limit name.
+ */
+function describeLimitFailure(
+  failure: LimitFailure,
+  payment: RulePayment,
+  rule: PolicyRule,
+  scope = ''
+): string {
+  const inAssetUnits = rule.unit === 'asset';
+  const symbol = payment.symbol ?? '';
+  const amount = (raw: bigint) => inAssetUnits ? `${formatAtomic(raw, payment.decimals)} ${symbol}` : `$${formatUsd(raw)}`;
+  const limit = inAssetUnits ? `${failure.limit} ${symbol}` : `$${failure.limit.toFixed(2)}`;
+
+  switch (failure.field) {
+    case 'maxPerTransaction':
+      return `Amount ${amount(inAssetUnits ? payment.assetRaw : payment.usd)} exceeds per-transaction limit${scope} of ${limit}`;
+    case 'maxTransactionsPerHour':
+      return `Velocity limit exceeded${scope}. ${failure.count} transactions in the last hour (limit: ${failure.limit})`;
+    default: {
+      const period = failure.field.replace('Limit', '');
+      return `Payment would exceed ${period} limit${scope}. Current: ${amount(failure.current)}, Limit: ${limit}`;
+    }
+  }
+}
+
+/**
+ * Compile PaymentPolicy fields into the default rule set, in the order the
+ * checks ran before the rule engine
+ */
+export function compilePolicy(policy: PaymentPolicy): PolicyRule[] {
+  return compileDefaults(policy).map(({ source, code, message, ...rule }) => rule);
+}
+
+function compileDefaults(policy: PaymentPolicy): CompiledRule[] {
+  const rules: CompiledRule[] = [];
+  const add = (rule: Omit<CompiledRule, 'source'>) => rules.push({ ...rule, source: 'policy' });
+
+  if (policy.maxPerTransaction !== undefined) {
+    add({ id: 'maxPerTransaction', effect: 'limit', maxPerTransaction: policy.maxPerTransaction });
+  }
+
+  for (const [symbol, limits] of Object.entries(policy.assetLimits || {})) {
+    add({
+      id: `assetLimits.${symbol}`,
+      effect: 'limit',
+      when: { assets: [symbol] },
+      unit: 'asset',
+      maxPerTransaction: limits.maxPerTransaction,
+      dailyLimit: limits.dailyLimit,
+      message: (payment, failure) => failure!.field === 'dailyLimit'
+        ? `Payment would exceed daily ${symbol} limit. Current: ${formatAtomic(failure!.current, payment.decimals)} ${symbol}, Limit: ${failure!.limit} ${symbol}`
+        : describeLimitFailure(failure!, payment, { id: '', effect: 'limit', unit: 'asset' }),
+    });
+  }
+
+  if (policy.blockedNetworks && policy.blockedNetworks.length > 0) {
+    add({
+      id: 'blockedNetworks',
+      effect: 'deny',
+      code: 'NETWORK_BLOCKED',
+      when: { networks: policy.blockedNetworks },
+      message: (payment) => `Network ${payment.network} is blocked`,
+    });
+  }
+
+  if (policy.allowedNetworks && policy.allowedNetworks.length > 0) {
+    add({
+      id: 'allowedNetworks',
+      effect: 'deny',
+      code: 'NETWORK_NOT_ALLOWED',
+      unless: { networks: policy.allowedNetworks },
+      message: (payment) => `Network ${payment.network} is not in allowed networks`,
+    });
+  }
+
+  for (const [key, limits] of Object.entries(policy.networkLimits || {})) {
+    const network = resolveNetwork(key) ?? key;
+    add({
+      id: `networkLimits.${network}`,
+      effect: 'limit',
+      when: { networks: [key] },
+      ...limits,
+      message: (payment, failure) => describeLimitFailure(failure!, payment, { id: '', effect: 'limit' }, ` on ${network}`),
+    });
+  }
+
+  for (const domain of policy.blockedDomains || []) {
+    add({
+      id: domain,
+      effect: 'deny',
+      code: 'DOMAIN_BLOCKED',
+      when: { domains: [domain] },
+      message: (payment) => `Domain ${getHostname(payment.url!)} is blocked (${domain})`,
+    });
+  }
+
+  for (const urlRule of policy.urlRules || []) {
+    const label = ruleLabel(urlRule);
+    const when: RuleConditions = {};
+    if (urlRule.domain !== undefined) when.domains = [urlRule.domain];
+    if (urlRule.url !== undefined) when.urls = [urlRule.url];
+    if (urlRule.urlRegex !== undefined) when.urlRegex = urlRule.urlRegex;
+    // A URL rule without matchers matches nothing
+    if (Object.keys(when).length === 0) continue;
+
+    if (urlRule.block) {
+      add({ id: label, effect: 'deny', code: 'URL_BLOCKED', when, message: (payment) => `URL rule "${label}" blocks ${payment.url}` });
+    } else if (urlRule.maxPerRequest !== undefined || urlRule.dailyLimit !== undefined) {
+      add({
+        id: label,
+        effect: 'limit',
+        when,
+        maxPerTransaction: urlRule.maxPerRequest,
+        dailyLimit: urlRule.dailyLimit,
+        message: (payment, failure) => failure!.field === 'maxPerTransaction'
+          ? `URL rule "${label}": amount $${formatUsd(payment.usd)} exceeds max per request of $${failure!.limit.toFixed(2)}`
+          : `URL rule "${label}": payment would exceed daily limit. Current: $${formatUsd(failure!.current)}, Limit: $${failure!.limit.toFixed(2)}`,
+      });
+    }
+  }
+
+  for (const field of ['dailyLimit', 'weeklyLimit', 'monthlyLimit'] as const) {
+    if (policy[field] !== undefined) {
+      add({ id: field, effect: 'limit', [field]: policy[field] });
+    }
+  }
+
+  if (policy.maxTransactionsPerHour !== undefined) {
+    add({ id: 'maxTransactionsPerHour', effect: 'limit', maxTransactionsPerHour: policy.maxTransactionsPerHour });
+  }
+
+  if (policy.perRecipientDailyLimit !== undefined) {
+    add({
+      id: 'perRecipientDailyLimit',
+      effect: 'limit',
+      per: 'recipient',
+      dailyLimit: policy.perRecipientDailyLimit,
+      message: (payment, failure) =>
+        `Per-recipient limit exceeded for ${payment.recipient}. Current: $${formatUsd(failure!.current)}, Limit: $${failure!.limit.toFixed(2)}`,
+    });
+  }
+
+  if (policy.blockedRecipients && policy.blockedRecipients.length > 0) {
+    add({
+      id: 'blockedRecipients',
+      effect: 'deny',
+      code: 'RECIPIENT_BLOCKED',
+      when: { recipients: policy.blockedRecipients },
+      message: (payment) => `Recipient ${payment.recipient} is blocked`,
+    });
+  }
+
+  if (policy.approvedRecipients && policy.approvedRecipients.length > 0) {
+    add({
+      id: 'approvedRecipients',
+      effect: 'deny',
+      code: 'RECIPIENT_NOT_APPROVED',
+      unless: { recipients: policy.approvedRecipients },
+      message: (payment) => `Recipient ${payment.recipient} is not in approved whitelist`,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Evaluate policy.rules, then the compiled defaults, for a payment
+ */
+export function evaluatePolicy(policy: PaymentPolicy, payment: RulePayment, ledger: RuleLedger): PolicyDecision {
+  const rules: CompiledRule[] = [
+    ...(policy.rules || []).map(rule => ({ ...rule, source: 'rules' as const })),
+    ...compileDefaults(policy),
+  ];
+  const timeZone = policy.timezone || 'UTC';
+  const evaluated: RuleEvaluation[] = [];
+  let decided = false;
+  let block: (BlockDetails & { reason?: string }) | undefined;
+
+  for (const rule of rules) {
+    const entry: RuleEvaluation = { rule: rule.id, effect: rule.effect, source: rule.source, outcome: 'not-matched' };
+    evaluated.push(entry);
+
+    if (rule.effect !== 'limit' && decided) {
+      entry.outcome = 'skipped';
+      continue;
+    }
+    if (matchRule(rule, payment, timeZone) !== true || groupKey(rule, payment) === undefined) {
+      continue;
+    }
+
+    if (rule.effect === 'allow') {
+      entry.outcome = 'allowed';
+      decided = true;
+    } else if (rule.effect === 'deny') {
+      entry.outcome = 'denied';
+      entry.reason = rule.message?.(payment) ?? rule.reason ?? `Denied by rule "${rule.id}"`;
+      entry.code = rule.code ?? 'RULE_DENIED';
+      decided = true;
+      block ??= { code: entry.code, rule: rule.id, reason: entry.reason };
+    } else {
+      const failure = checkLimits(rule, payment, ledger, timeZone);
+      if (failure) {
+        const described = describeLimitFailure(failure, payment, rule);
+        entry.outcome = 'failed';
+        entry.reason = rule.message?.(payment, failure) ??
+          (rule.source === 'rules'
+            ? `Rule "${rule.id}": ${described[0].toLowerCase()}${described.slice(1)}`
+            : described);
+        entry.code = LIMIT_CODES[failure.field];
+        block ??= {
+          code: entry.code,
+          rule: rule.id,
+          reason: entry.reason,
+          limit: failure.limit,
+          current: failure.field === 'maxTransactionsPerHour'
+            ? failure.count
+            : failure.field === 'maxPerTransaction'
+              ? undefined
+              : fromAtomic(failure.current, rule.unit === 'asset' ? payment.decimals : undefined),
+          retryAfter: failure.retryAfter,
+        };
+      } else {
+        entry.outcome = 'passed';
+      }
+    }
+  }
+
+  return block
+    ? { allowed: false, ...block, evaluated }
+    : { allowed: true, evaluated };
+}
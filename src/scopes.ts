@@ -0,0 +1,317 @@
+/**
+ * Budget Scopes
+ * Separate budgets for sub-agents and tasks sharing one wallet
+ *
+ * A scope has its own limits (any PaymentPolicy fields) and its own
+ * spending state, kept in the wallet's storage. A payment made in a scope
+ * also counts against each parent scope and the wallet policy, so a child
+ * can never spend more than its parents allow. Scopes with a ttl expire on
+ * their own, taking whatever budget they didn't use with them. A closed
+ * scope's spending state is deleted right away, an expired one's on the
+ * next create() or close().
+ */
+
+import { randomUUID } from 'crypto';
+import { PaymentPolicy, PaymentReceipt } from './config';
+import { PolicyEnforcer } from './policy';
+import { validatePolicy } from './policy-file';
+import { StorageAdapter } from './storage';
+import type { AgentPayClient, PaymentQuote } from './client';
+
+export interface ScopeOptions {
+  /** Unique name, recorded on receipts and cited in block reasons */
+  name: string;
+  /** Limits for this scope — any PaymentPolicy fields. Limits left unset don't apply. */
+  limits: Partial<PaymentPolicy>;
+  /** Expire the scope this many ms after it is created (never later than its parent) */
+  ttl?: number;
+  /** Name of the parent scope (default: none, so only the wallet policy is above it) */
+  parent?: string;
+}
+
+/**
+ * Stored scope definition
+ */
+export interface ScopeRecord {
+  /** Storage key suffix for the scope's spending state (new for every scope created) */
+  id: string;
+  name: string;
+  parent?: string;
+  limits: Partial<PaymentPolicy>;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+/**
+ * Spending status of a scope, as returned by PolicyEnforcer.getStatus()
+ */
+export type ScopeStatus = ReturnType<PolicyEnforcer['getStatus']> & { scope: ScopeRecord };
+
+/** Scope definitions by name */
+type ScopeDocument = Record<string, ScopeRecord>;
+
+/**
+ * Scope definitions and spending state, shared by every process using
+ * the same storage
+ */
+export class ScopeRegistry {
+  private storage: StorageAdapter;
+  private keyPrefix: string;
+  private enforcers = new Map<string, PolicyEnforcer>();
+
+  /**
+   * @param keyPrefix - Prefix for storage keys: definitions are kept under
+   *                    '<prefix>-scopes', spending under '<prefix>-scope-<id>'
+   */
+  constructor(storage: StorageAdapter, keyPrefix = 'spending') {
+    this.storage = storage;
+    this.keyPrefix = keyPrefix;
+  }
+
+  private get key(): string {
+    return `${this.keyPrefix}-scopes`;
+  }
+
+  /**
+   * Scopes that haven't expired
+   */
+  private active(now = Date.now()): ScopeDocument {
+    const scopes = this.storage.readDocument<ScopeDocument>(this.key) ?? {};
+    return withoutExpired(scopes, now);
+  }
+
+  /**
+   * Create a scope. Creating a scope whose name is still active returns
+   * that scope with its limits replaced; its expiry doesn't change.
+   */
+  create(options: ScopeOptions): ScopeRecord {
+    const { name, parent, ttl } = options;
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error('Scope name must be a non-empty string');
+    }
+    if (ttl !== undefined && !(Number.isFinite(ttl) && ttl > 0)) {
+      throw new Error(`Scope ttl must be a positive number of milliseconds, got ${ttl}`);
+    }
+    const limits = validatePolicy(options.limits, `scope "${name}"`);
+
+    let created!: ScopeRecord;
+    let removed: string[] = [];
+    this.storage.updateDocument<ScopeDocument>(this.key, current => {
+      const now = Date.now();
+      const scopes = withoutExpired(current ?? {}, now);
+      removed = removedIds(current ?? {}, scopes);
+
+      const existing = scopes[name];
+      if (existing) {
+        if (existing.parent !== parent) {
+          throw new Error(`Scope "${name}" already exists ${existing.parent ? `under "${existing.parent}"` : 'at the top level'}`);
+        }
+        created = { ...existing, limits };
+        return { ...scopes, [name]: created };
+      }
+
+      const parentRecord = parent !== undefined ? scopes[parent] : undefined;
+      if (parent !== undefined && !parentRecord) {
+        throw new Error(`Parent scope "${parent}" does not exist or has expired`);
+      }
+
+      const expiries = [ttl !== undefined ? now + ttl : undefined, parentRecord?.expiresAt]
+        .filter((at): at is number => at !== undefined);
+      created = {
+        id: randomUUID(),
+        name,
+        parent,
+        limits,
+        createdAt: now,
+        expiresAt: expiries.length > 0 ? Math.min(...expiries) : undefined,
+      };
+      return { ...scopes, [name]: created };
+    });
+
+    this.forget(removed);
+    return created;
+  }
+
+  /**
+   * Active scope by name
+   */
+  get(name: string): ScopeRecord | undefined {
+    return this.active()[name];
+  }
+
+  /**
+   * All active scopes, oldest first
+   */
+  list(): ScopeRecord[] {
+    return Object.values(this.active()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Close a scope and every scope under it before they expire.
+   * Returns false if the scope isn't active.
+   */
+  close(name: string): boolean {
+    let closed = false;
+    let removed: string[] = [];
+    this.storage.updateDocument<ScopeDocument>(this.key, current => {
+      let scopes = withoutExpired(current ?? {}, Date.now());
+      if (scopes[name]) {
+        closed = true;
+        const remove = new Set(descendants(scopes, name));
+        scopes = Object.fromEntries(Object.entries(scopes).filter(([key]) => !remove.has(key)));
+      }
+      removed = removedIds(current ?? {}, scopes);
+      return scopes;
+    });
+    this.forget(removed);
+    return closed;
+  }
+
+  /**
+   * The scope and each of its parents, outermost first. Undefined if any
+   * of them has expired or was closed.
+   */
+  chain(name: string): ScopeRecord[] | undefined {
+    const scopes = this.active();
+    const chain: ScopeRecord[] = [];
+    let scope: ScopeRecord | undefined = scopes[name];
+    while (scope) {
+      chain.unshift(scope);
+      if (scope.parent === undefined) return chain;
+      scope = scopes[scope.parent];
+    }
+    return undefined;
+  }
+
+  /**
+   * Names of the scope and every active scope under it
+   */
+  descendants(name: string): string[] {
+    return descendants(this.active(), name);
+  }
+
+  /**
+   * Policy enforcer for a scope's limits and spending state
+   */
+  enforcer(scope: ScopeRecord): PolicyEnforcer {
+    // Scope limits leave maxPerTransaction and dailyLimit optional;
+    // the rule engine skips limits that aren't set
+    const policy = scope.limits as PaymentPolicy;
+    let enforcer = this.enforcers.get(scope.id);
+    if (!enforcer) {
+      enforcer = new PolicyEnforcer(policy, this.storage, this.spendingKey(scope.id));
+      this.enforcers.set(scope.id, enforcer);
+    } else {
+      // Another process may have updated the limits
+      enforcer.updatePolicy(policy);
+    }
+    return enforcer;
+  }
+
+  private spendingKey(id: string): string {
+    return `${this.keyPrefix}-scope-${id}`;
+  }
+
+  /**
+   * Delete the spending state of scopes removed from the definitions, and
+   * drop cached enforcers of every scope that is no longer active
+   */
+  private forget(removed: string[]): void {
+    for (const id of removed) {
+      this.storage.deleteDocument?.(this.spendingKey(id));
+    }
+    const ids = new Set(Object.values(this.active()).map(scope => scope.id));
+    for (const id of this.enforcers.keys()) {
+      if (!ids.has(id)) this.enforcers.delete(id);
+    }
+  }
+}
+
+function withoutExpired(scopes: ScopeDocument, now: number): ScopeDocument {
+  return Object.fromEntries(
+    Object.entries(scopes).filter(([, scope]) => scope.expiresAt === undefined || scope.expiresAt > now)
+  );
+}
+
+/** Ids of scopes in `before` that aren't in `after` */
+function removedIds(before: ScopeDocument, after: ScopeDocument): string[] {
+  const kept = new Set(Object.values(after).map(scope => scope.id));
+  return Object.values(before).filter(scope => !kept.has(scope.id)).map(scope => scope.id);
+}
+
+function descendants(scopes: ScopeDocument, name: string): string[] {
+  const names = [name];
+  for (let i = 0; i < names.length; i++) {
+    for (const scope of Object.values(scopes)) {
+      if (scope.parent === names[i]) names.push(scope.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * A budget scope of an AgentPayClient. `fetch` pays from this scope's
+ * budget (and its parents' and the wallet's), and can be handed to a
+ * sub-agent on its own.
+ */
+export class BudgetScope {
+  readonly name: string;
+  readonly parent?: string;
+  /** When the scope expires (ms since epoch), if it has a ttl */
+  readonly expiresAt?: number;
+  private client: AgentPayClient;
+
+  constructor(client: AgentPayClient, record: ScopeRecord) {
+    this.client = client;
+    this.name = record.name;
+    this.parent = record.parent;
+    this.expiresAt = record.expiresAt;
+  }
+
+  /**
+   * AgentPayClient.fetch() paying from this scope
+   */
+  fetch = (
+    url: string,
+    init?: RequestInit,
+    options?: Omit<NonNullable<Parameters<AgentPayClient['fetch']>[2]>, 'scope'>
+  ): Promise<Response> => {
+    return this.client.fetch(url, init, { ...options, scope: this.name });
+  };
+
+  /**
+   * AgentPayClient.dryRun() against this scope's budget
+   */
+  dryRun(url: string, init?: RequestInit, options?: { tags?: string[] }): Promise<PaymentQuote> {
+    return this.client.dryRun(url, init, { tags: options?.tags, scope: this.name });
+  }
+
+  /**
+   * Create a child scope whose spending also counts against this one
+   */
+  scope(options: Omit<ScopeOptions, 'parent'>): BudgetScope {
+    return this.client.scope({ ...options, parent: this.name });
+  }
+
+  /**
+   * Spending against this scope's limits, including its child scopes.
+   * Undefined once the scope has expired or was closed.
+   */
+  getStatus(): ScopeStatus | undefined {
+    return this.client.getScopeStatus(this.name);
+  }
+
+  /**
+   * Receipts of payments made in this scope and its child scopes
+   */
+  getHistory(limit?: number): PaymentReceipt[] {
+    return this.client.getScopeHistory(this.name, limit);
+  }
+
+  /**
+   * Close this scope and its child scopes; their unused budget is gone
+   */
+  close(): boolean {
+    return this.client.closeScope(this.name);
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * Pluggable Storage Backends
+ * Persistence for spending state and receipts
+ *
+ * Backends:
+ * - MemoryStorage: process-local, nothing touches disk (tests, ephemeral agents)
+ * - JsonFileStorage: one JSON file per key, lock file + atomic rename on write
+ * - JsonlStorage: append-only JSON Lines logs, crash-safe mid-write
+ * - SqliteStorage: single SQLite database (requires Node 22.5+ `node:sqlite`)
+ *
+ * Every backend except memory is safe to share between processes, so several
+ * agents using one wallet see the same limits and the same receipts.
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+  writeSync,
+} from 'fs';
+import { dirname, extname, join } from 'path';
+
+/**
+ * Storage interface used by PolicyEnforcer and ReceiptStore.
+ *
+ * Documents are single JSON values updated read-modify-write; records are
+ * id-keyed entries kept in insertion order.
+ */
+export interface StorageAdapter {
+  /** Read a document, or undefined if it doesn't exist */
+  readDocument<T>(key: string): T | undefined;
+  /**
+   * Atomically read, modify and write a document. An exclusive lock is held
+   * while `update` runs, so concurrent writers never lose updates.
+   */
+  updateDocument<T>(key: string, update: (current: T | undefined) => T): T;
+  /** Remove a document (used to drop the spending state of closed scopes) */
+  deleteDocument?(key: string): void;
+  /** Insert a record, or replace the record with the same id */
+  putRecord<T extends { id: string }>(key: string, record: T): void;
+  /**
+   * Add a record that is never replaced (log entries). Cheaper than
+   * putRecord on backends that rewrite a file per write; callers fall back
+   * to putRecord without it.
+   */
+  appendRecord?<T extends { id: string }>(key: string, record: T): void;
+  /** Read all records, oldest first */
+  readRecords<T extends { id: string }>(key: string): T[];
+  /** Remove records by id (used to move old receipts into archives) */
+  deleteRecords?(key: string, ids: string[]): void;
+  /**
+   * Token that changes whenever the records under `key` change, in this
+   * process or another, so readers can cache readRecords()
+   */
+  recordsVersion?(key: string): string;
+  /** Release any resources held by the backend */
+  close?(): void;
+}
+
+/**
+ * Declarative backend selection for AgentPayConfig
+ */
+export type StorageOptions =
+  | { type: 'memory' }
+  | { type: 'json'; dir: string }
+  | { type: 'jsonl'; dir: string }
+  | { type: 'sqlite'; path: string };
+
+/**
+ * Thrown when a file lock can't be acquired in time
+ */
+export class StorageLockError extends Error {
+  public lockPath: string;
+
+  constructor(lockPath: string) {
+    super(`Timed out waiting for storage lock: ${lockPath}`);
+    this.name = 'StorageLockError';
+    this.lockPath = lockPath;
+  }
+}
+
+const LOCK_TIMEOUT_MS = 10_000;
+/** Locks older than this were left by a crashed process */
+const LOCK_STALE_MS = 30_000;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function ensureDir(path: string): void {
+  const dir = dirname(path);
+  if (dir && !existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file next to `path`
+ */
+export function withFileLock<R>(path: string, fn: () => R): R {
+  const lockPath = `${path}.lock`;
+  const start = Date.now();
+  ensureDir(path);
+
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, 'wx');
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      break;
+    } catch (error: unknown) {
+      if (!(error instanceof Error && 'code' in error && error.code === 'EEXIST')) throw error;
+
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+          unlinkSync(lockPath);
+          continue;
+        }
+      } catch {
+        // Lock released between our open and stat — retry right away
+        continue;
+      }
+
+      if (Date.now() - start > LOCK_TIMEOUT_MS) {
+        throw new StorageLockError(lockPath);
+      }
+      sleepSync(10);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    try {
+      unlinkSync(lockPath);
+    } catch {
+      // Already removed as stale by another process
+    }
+  }
+}
+
+/**
+ * Write a file so readers only ever see the old or the new content
+ */
+export function writeFileAtomic(path: string, data: string | Buffer): void {
+  ensureDir(path);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, data);
+  renameSync(tmpPath, path);
+}
+
+function readJsonFile<T>(path: string): T | undefined {
+  if (!existsSync(path)) return undefined;
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Records in a JSON Lines file, latest version of each id, in first-write order
+ */
+function readJsonLines<T extends { id: string }>(path: string): T[] {
+  if (!existsSync(path)) return [];
+
+  const latest = new Map<string, T>();
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as T;
+      latest.set(record.id, record);
+    } catch {
+      // Torn write from a crash — ignore the partial line
+    }
+  }
+  return [...latest.values()];
+}
+
+/**
+ * Identity of a file's current content: atomic writes replace the inode,
+ * appends change the size
+ */
+function fileVersion(path: string): string {
+  try {
+    const { ino, size, mtimeMs } = statSync(path);
+    return `${ino}:${size}:${mtimeMs}`;
+  } catch {
+    return '-';
+  }
+}
+
+/**
+ * In-memory storage. Values are copied in and out so callers can't mutate
+ * stored state by accident.
+ */
+export class MemoryStorage implements StorageAdapter {
+  private documents = new Map<string, string>();
+  private records = new Map<string, Map<string, string>>();
+  private versions = new Map<string, number>();
+
+  readDocument<T>(key: string): T | undefined {
+    const value = this.documents.get(key);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  updateDocument<T>(key: string, update: (current: T | undefined) => T): T {
+    const next = update(this.readDocument<T>(key));
+    this.documents.set(key, JSON.stringify(next));
+    return next;
+  }
+
+  deleteDocument(key: string): void {
+    this.documents.delete(key);
+  }
+
+  putRecord<T extends { id: string }>(key: string, record: T): void {
+    if (!this.records.has(key)) {
+      this.records.set(key, new Map());
+    }
+    this.records.get(key)!.set(record.id, JSON.stringify(record));
+    this.bumpVersion(key);
+  }
+
+  appendRecord<T extends { id: string }>(key: string, record: T): void {
+    this.putRecord(key, record);
+  }
+
+  readRecords<T extends { id: string }>(key: string): T[] {
+    const log = this.records.get(key);
+    return log ? [...log.values()].map(v => JSON.parse(v)) : [];
+  }
+
+  deleteRecords(key: string, ids: string[]): void {
+    const log = this.records.get(key);
+    for (const id of ids) log?.delete(id);
+    this.bumpVersion(key);
+  }
+
+  recordsVersion(key: string): string {
+    return String(this.versions.get(key) ?? 0);
+  }
+
+  private bumpVersion(key: string): void {
+    this.versions.set(key, (this.versions.get(key) ?? 0) + 1);
+  }
+}
+
+/**
+ * JSON file storage — `<dir>/<key>.json` per key.
+ * Records are stored as a JSON array, compatible with receipts.json files
+ * written by earlier versions. Appended records go to `<dir>/<key>.jsonl`
+ * instead, so log writes don't rewrite the whole file.
+ */
+export class JsonFileStorage implements StorageAdapter {
+  protected dir: string;
+
+  constructor(dir = '.') {
+    this.dir = dir;
+  }
+
+  protected pathFor(key: string, extension = '.json'): string {
+    return join(this.dir, extname(key) ? key : `${key}${extension}`);
+  }
+
+  /** JSON Lines file for a key's appended records */
+  protected appendPathFor(key: string): string {
+    return join(this.dir, `${key.slice(0, key.length - extname(key).length)}.jsonl`);
+  }
+
+  readDocument<T>(key: string): T | undefined {
+    return readJsonFile<T>(this.pathFor(key));
+  }
+
+  updateDocument<T>(key: string, update: (current: T | undefined) => T): T {
+    const path = this.pathFor(key);
+    return withFileLock(path, () => {
+      const next = update(readJsonFile<T>(path));
+      writeFileAtomic(path, JSON.stringify(next, null, 2));
+      return next;
+    });
+  }
+
+  deleteDocument(key: string): void {
+    const path = this.pathFor(key);
+    withFileLock(path, () => rmSync(path, { force: true }));
+  }
+
+  putRecord<T extends { id: string }>(key: string, record: T): void {
+    const path = this.pathFor(key);
+    withFileLock(path, () => {
+      const records = readJsonFile<T[]>(path) || [];
+      const idx = records.findIndex(r => r.id === record.id);
+      if (idx === -1) {
+        records.push(record);
+      } else {
+        records[idx] = record;
+      }
+      writeFileAtomic(path, JSON.stringify(records, null, 2));
+    });
+  }
+
+  appendRecord<T extends { id: string }>(key: string, record: T): void {
+    const path = this.appendPathFor(key);
+    // Locked so an append can't land in a file deleteRecords is replacing
+    withFileLock(path, () => appendFileSync(path, JSON.stringify(record) + '\n'));
+  }
+
+  readRecords<T extends { id: string }>(key: string): T[] {
+    const stored = readJsonFile<T[]>(this.pathFor(key));
+    const records = Array.isArray(stored) ? stored : [];
+    const appended = readJsonLines<T>(this.appendPathFor(key));
+    return appended.length > 0 ? [...records, ...appended] : records;
+  }
+
+  deleteRecords(key: string, ids: string[]): void {
+    const path = this.pathFor(key);
+    const remove = new Set(ids);
+    withFileLock(path, () => {
+      if (!existsSync(path)) return;
+      const records = readJsonFile<{ id: string }[]>(path) || [];
+      writeFileAtomic(path, JSON.stringify(records.filter(r => !remove.has(r.id)), null, 2));
+    });
+    const appendPath = this.appendPathFor(key);
+    withFileLock(appendPath, () => {
+      if (!existsSync(appendPath)) return;
+      const kept = readJsonLines<{ id: string }>(appendPath).filter(r => !remove.has(r.id));
+      writeFileAtomic(appendPath, kept.map(r => JSON.stringify(r) + '\n').join(''));
+    });
+  }
+
+  recordsVersion(key: string): string {
+    return `${fileVersion(this.pathFor(key))}/${fileVersion(this.appendPathFor(key))}`;
+  }
+}
+
+/**
+ * Append-only JSON Lines storage — records go to `<dir>/<key>.jsonl`.
+ *
+ * Each write appends one line, so a crash can at worst leave a torn final
+ * line, which is skipped on read. Updating a record appends a new version;
+ * the latest version wins. Documents use the same locked JSON files as
+ * JsonFileStorage.
+ */
+export class JsonlStorage extends JsonFileStorage {
+  putRecord<T extends { id: string }>(key: string, record: T): void {
+    const path = this.pathFor(key, '.jsonl');
+    // Locked so an append can't land in a file deleteRecords is replacing
+    withFileLock(path, () => appendFileSync(path, JSON.stringify(record) + '\n'));
+  }
+
+  appendRecord<T extends { id: string }>(key: string, record: T): void {
+    this.putRecord(key, record);
+  }
+
+  readRecords<T extends { id: string }>(key: string): T[] {
+    return readJsonLines<T>(this.pathFor(key, '.jsonl'));
+  }
+
+  /**
+   * Rewrite the log without the deleted records, keeping only the latest
+   * version of the others
+   */
+  deleteRecords(key: string, ids: string[]): void {
+    const path = this.pathFor(key, '.jsonl');
+    const remove = new Set(ids);
+    withFileLock(path, () => {
+      const kept = this.readRecords<{ id: string }>(key).filter(r => !remove.has(r.id));
+      writeFileAtomic(path, kept.map(r => JSON.stringify(r) + '\n').join(''));
+    });
+  }
+
+  recordsVersion(key: string): string {
+    return fileVersion(this.pathFor(key, '.jsonl'));
+  }
+}
+
+/** Minimal surface of node:sqlite's DatabaseSync that we use */
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): Record<string, unknown> | undefined;
+    all(...params: unknown[]): Record<string, unknown>[];
+  };
+  close(): void;
+}
+
+/**
+ * SQLite storage — documents and records in one database file.
+ * Uses the built-in `node:sqlite` module (Node 22.5+), so no native addon
+ * has to be installed.
+ */
+export class SqliteStorage implements StorageAdapter {
+  private db: SqliteDatabase;
+  /** Record writes made through this connection (data_version only counts other connections') */
+  private recordWrites = 0;
+
+  constructor(path: string) {
+    let sqlite: { DatabaseSync: new (path: string) => SqliteDatabase };
+    try {
+      sqlite = require('node:sqlite');
+    } catch {
+      throw new Error(`SQLite storage requires Node.js 22.5+ (node:sqlite), running ${process.version}`);
+    }
+
+    if (path !== ':memory:') ensureDir(path);
+    this.db = new sqlite.DatabaseSync(path);
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA busy_timeout = ${LOCK_TIMEOUT_MS};
+      CREATE TABLE IF NOT EXISTS documents (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS records (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        log TEXT NOT NULL,
+        id TEXT NOT NULL,
+        value TEXT NOT NULL,
+        UNIQUE (log, id)
+      );
+    `);
+  }
+
+  readDocument<T>(key: string): T | undefined {
+    const row = this.db.prepare('SELECT value FROM documents WHERE key = ?').get(key);
+    return row ? JSON.parse(row.value as string) : undefined;
+  }
+
+  updateDocument<T>(key: string, update: (current: T | undefined) => T): T {
+    // IMMEDIATE takes the write lock up front so two processes can't
+    // both read the old value
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const next = update(this.readDocument<T>(key));
+      this.db
+        .prepare('INSERT INTO documents (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+        .run(key, JSON.stringify(next));
+      this.db.exec('COMMIT');
+      return next;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  deleteDocument(key: string): void {
+    this.db.prepare('DELETE FROM documents WHERE key = ?').run(key);
+  }
+
+  putRecord<T extends { id: string }>(key: string, record: T): void {
+    this.db
+      .prepare('INSERT INTO records (log, id, value) VALUES (?, ?, ?) ON CONFLICT(log, id) DO UPDATE SET value = excluded.value')
+      .run(key, record.id, JSON.stringify(record));
+    this.recordWrites += 1;
+  }
+
+  appendRecord<T extends { id: string }>(key: string, record: T): void {
+    this.putRecord(key, record);
+  }
+
+  readRecords<T extends { id: string }>(key: string): T[] {
+    return this.db
+      .prepare('SELECT value FROM records WHERE log = ? ORDER BY seq')
+      .all(key)
+      .map(row => JSON.parse(row.value as string));
+  }
+
+  deleteRecords(key: string, ids: string[]): void {
+    // One statement, so it is atomic without a transaction of its own
+    // and can run inside updateDocument's
+    this.db
+      .prepare('DELETE FROM records WHERE log = ? AND id IN (SELECT value FROM json_each(?))')
+      .run(key, JSON.stringify(ids));
+    this.recordWrites += 1;
+  }
+
+  recordsVersion(): string {
+    const row = this.db.prepare('PRAGMA data_version').get();
+    return `${row?.data_version}:${this.recordWrites}`;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Create a storage backend from declarative options
+ */
+export function createStorage(options: StorageOptions): StorageAdapter {
+  switch (options.type) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'json':
+      return new JsonFileStorage(options.dir);
+    case 'jsonl':
+      return new JsonlStorage(options.dir);
+    case 'sqlite':
+      return new SqliteStorage(options.path);
+    default:
+      throw new Error(`Unknown storage type: ${(options as { type: string }).type}`);
+  }
+}
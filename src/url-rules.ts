@@ -0,0 +1,76 @@
+/**
+ * URL and Domain Rules
+ * Match payment requests against per-endpoint and per-domain policy rules
+ *
+ * Agents think about services by hostname and endpoint, not by the address
+ * that gets paid. These helpers decide which rules from policy.urlRules and
+ * policy.blockedDomains apply to a request URL.
+ */
+
+import type { UrlRule } from './config';
+
+/**
+ * Hostname of a URL (lowercase), or undefined if it doesn't parse
+ */
+export function getHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a hostname matches a domain pattern. 'example.com' matches the
+ * domain and its subdomains; '*.example.com' matches subdomains only.
+ */
+export function matchesDomain(hostname: string, pattern: string): boolean {
+  const domain = pattern.toLowerCase();
+  if (domain.startsWith('*.')) {
+    return hostname.endsWith(domain.slice(1));
+  }
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Convert a URL glob to a regular expression. '*' matches within a path
+ * segment, '**' matches across segments; everything else is literal.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Name a rule is cited by in block reasons and receipts
+ */
+export function ruleLabel(rule: UrlRule): string {
+  return rule.name ?? rule.url ?? rule.urlRegex ?? rule.domain ?? 'url rule';
+}
+
+/**
+ * Whether a rule applies to a URL. Every matcher set on the rule must
+ * match; a rule without matchers matches nothing.
+ */
+export function matchesUrlRule(rule: UrlRule, url: string): boolean {
+  if (rule.domain === undefined && rule.url === undefined && rule.urlRegex === undefined) {
+    return false;
+  }
+  if (rule.domain !== undefined) {
+    const hostname = getHostname(url);
+    if (!hostname || !matchesDomain(hostname, rule.domain)) return false;
+  }
+  if (rule.url !== undefined && !globToRegExp(rule.url).test(url)) {
+    return false;
+  }
+  if (rule.urlRegex !== undefined && !new RegExp(rule.urlRegex).test(url)) {
+    return false;
+  }
+  return true;
+}
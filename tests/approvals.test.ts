@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { rmSync } from 'fs';
+import { ApprovalQueue } from '../src/approvals';
+import { ReceiptStore } from '../src/receipts';
+import { JsonFileStorage, MemoryStorage } from '../src/storage';
+
+const TEST_DIR = './test-approvals';
+
+const DETAILS = {
+  url: 'https://api.example.com/data',
+  amount: '0.500000',
+  amountRaw: '500000',
+  currency: 'USDC',
+  network: 'base' as const,
+  recipient: '0x209693Bc6aFC5C8A1C698b873e6C96E0a6ADa83c',
+};
+
+describe('ApprovalQueue', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('stores requests as awaiting_approval receipts', () => {
+    const queue = new ApprovalQueue(new ReceiptStore(new MemoryStorage()));
+    const receipt = queue.request(DETAILS, 60_000);
+
+    expect(receipt.status).toBe('awaiting_approval');
+    expect(Date.parse(receipt.approval!.expiresAt) - Date.parse(receipt.approval!.requestedAt)).toBe(60_000);
+    expect(queue.pending().map(r => r.id)).toEqual([receipt.id]);
+  });
+
+  it('marks approved requests pending', () => {
+    const queue = new ApprovalQueue(new ReceiptStore(new MemoryStorage()));
+    const { id } = queue.request(DETAILS);
+
+    const approved = queue.approve(id, 'alice');
+
+    expect(approved?.status).toBe('pending');
+    expect(approved?.approval).toMatchObject({ decision: 'approved', decidedBy: 'alice' });
+    expect(queue.pending()).toHaveLength(0);
+  });
+
+  it('blocks denied requests with the reason', () => {
+    const queue = new ApprovalQueue(new ReceiptStore(new MemoryStorage()));
+    const { id } = queue.request(DETAILS);
+
+    const denied = queue.deny(id, 'alice', 'too expensive');
+
+    expect(denied?.status).toBe('blocked');
+    expect(denied?.blockReason).toBe('Approval denied: too expensive');
+    expect(denied?.blockCode).toBe('APPROVAL_DENIED');
+  });
+
+  it('only decides a request once', () => {
+    const queue = new ApprovalQueue(new ReceiptStore(new MemoryStorage()));
+    const { id } = queue.request(DETAILS);
+
+    queue.deny(id);
+
+    expect(queue.approve(id)).toBeNull();
+    expect(queue.approve('missing')).toBeNull();
+  });
+
+  it('times out expired requests', () => {
+    const receipts = new ReceiptStore(new MemoryStorage());
+    const queue = new ApprovalQueue(receipts);
+    const now = Date.now();
+    const { id } = queue.request(DETAILS, 1000);
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1001);
+
+    expect(queue.pending()).toHaveLength(0);
+    expect(receipts.getById(id)).toMatchObject({
+      status: 'blocked',
+      blockReason: 'Approval timed out',
+    });
+  });
+
+  it('resolves waiters when a decision is made in process', async () => {
+    const queue = new ApprovalQueue(new ReceiptStore(new MemoryStorage()), 60_000);
+    const { id } = queue.request(DETAILS);
+
+    const waiting = queue.wait(id);
+    queue.approve(id);
+
+    expect((await waiting)?.status).toBe('pending');
+  });
+
+  it('sees decisions made through another queue on shared storage', async () => {
+    const storage = new MemoryStorage();
+    const agent = new ApprovalQueue(new ReceiptStore(storage), 5);
+    const operator = new ApprovalQueue(new ReceiptStore(storage));
+    const { id } = agent.request(DETAILS);
+
+    const waiting = agent.wait(id);
+    expect(operator.pending()).toHaveLength(1);
+    operator.deny(id, 'operator');
+
+    const decided = await waiting;
+    expect(decided?.status).toBe('blocked');
+    expect(decided?.approval?.decidedBy).toBe('operator');
+  });
+
+  it('resolves with a timeout when nobody decides', async () => {
+    const queue = new ApprovalQueue(new ReceiptStore(new MemoryStorage()), 5);
+    const { id } = queue.request(DETAILS, 20);
+
+    const decided = await queue.wait(id);
+
+    expect(decided?.status).toBe('blocked');
+    expect(decided?.blockReason).toBe('Approval timed out');
+    expect(decided?.approval?.decision).toBe('timeout');
+  });
+
+  it('keeps an approval made by another process while the request times out', async () => {
+    // Two processes sharing a state directory, each with its own storage
+    const agentStorage = new JsonFileStorage(TEST_DIR);
+    const agent = new ApprovalQueue(new ReceiptStore(agentStorage), 5);
+    const operator = new ApprovalQueue(new ReceiptStore(new JsonFileStorage(TEST_DIR)));
+    const now = Date.now();
+    const { id } = agent.request(DETAILS, 1000);
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1001);
+
+    // The operator approves just as the agent's timeout goes to write
+    let approved: ReturnType<ApprovalQueue['approve']> | undefined;
+    const race = () => {
+      if (approved === undefined) approved = operator.approve(id, 'operator');
+    };
+    const { updateDocument, putRecord } = agentStorage;
+    vi.spyOn(agentStorage, 'updateDocument').mockImplementation((key, update) => {
+      race();
+      return updateDocument.call(agentStorage, key, update);
+    });
+    vi.spyOn(agentStorage, 'putRecord').mockImplementation((key, record) => {
+      race();
+      putRecord.call(agentStorage, key, record);
+    });
+
+    const decided = await agent.wait(id);
+
+    expect(approved?.approval?.decision).toBe('approved');
+    expect(decided).toMatchObject({ status: 'pending', approval: { decision: 'approved', decidedBy: 'operator' } });
+    expect(new ReceiptStore(new JsonFileStorage(TEST_DIR)).getById(id)?.approval?.decision).toBe('approved');
+  });
+});
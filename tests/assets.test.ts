@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { EURC_ADDRESSES, findAsset, getAsset, listAssets, registerAsset } from '../src/assets';
+import { USDC_ADDRESSES } from '../src/config';
+
+describe('Asset registry', () => {
+  it('registers USDC on every network', () => {
+    const networks = ['base', 'ethereum', 'arbitrum', 'optimism', 'polygon', 'baseSepolia'] as const;
+    for (const network of networks) {
+      const usdc = getAsset(network, USDC_ADDRESSES[network]);
+      expect(usdc?.symbol).toBe('USDC');
+      expect(usdc?.decimals).toBe(6);
+      expect(usdc?.peggedTo).toBe('USD');
+    }
+  });
+
+  it('registers EURC where Circle issues it', () => {
+    expect(getAsset('base', EURC_ADDRESSES.base!)?.symbol).toBe('EURC');
+    expect(getAsset('base', EURC_ADDRESSES.base!)?.peggedTo).toBe('EUR');
+    expect(findAsset('arbitrum', 'EURC')).toBeUndefined();
+  });
+
+  it('looks up addresses case-insensitively', () => {
+    expect(getAsset('base', USDC_ADDRESSES.base.toLowerCase())?.symbol).toBe('USDC');
+  });
+
+  it('finds assets by symbol or address', () => {
+    expect(findAsset('ethereum', 'eurc')?.address).toBe(EURC_ADDRESSES.ethereum);
+    expect(findAsset('ethereum', USDC_ADDRESSES.ethereum)?.symbol).toBe('USDC');
+    expect(findAsset('ethereum', 'NOPE')).toBeUndefined();
+  });
+
+  it('lists assets per network', () => {
+    const symbols = listAssets('baseSepolia').map(a => a.symbol).sort();
+    expect(symbols).toEqual(['EURC', 'USDC']);
+    expect(listAssets().length).toBeGreaterThan(listAssets('base').length);
+  });
+
+  it('registers custom assets', () => {
+    const address = '0x0000000000000000000000000000000000000abc';
+    registerAsset({ symbol: 'TEST', name: 'Test Token', network: 'optimism', address, decimals: 18 });
+    expect(findAsset('optimism', 'TEST')?.decimals).toBe(18);
+    expect(getAsset('optimism', address)?.name).toBe('Test Token');
+  });
+});
@@ -1,5 +1,141 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { AgentPayClient, createSimpleFetch } from '../src/client';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createPublicClient, custom, encodeAbiParameters } from 'viem';
+import { base } from 'viem/chains';
+import { createHash } from 'crypto';
+import { unlinkSync, existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { AgentPayClient, IdempotencyError, PaymentBlockedError, PaymentVerificationError, createSimpleFetch } from '../src/client';
+import { PaymentPolicy, USDC_ADDRESSES } from '../src/config';
+import { EURC_ADDRESSES } from '../src/assets';
+
+const TEST_RECEIPTS_PATH = './test-client-receipts.json';
+const TEST_SPENDING_PATH = './test-client-spending.json';
+const TEST_RECEIPT_FILES = [
+  TEST_RECEIPTS_PATH,
+  './test-client-receipts-log.jsonl',
+  './test-client-receipts-log-head.json',
+  TEST_SPENDING_PATH,
+];
+const PAY_TO = '0x209693Bc6aFC5C8A1C698b873e6C96E0a6ADa83c';
+
+/**
+ * Start a local x402 server. `quote` decides the amount demanded for each
+ * unpaid request; paid requests get `paidStatus` (200) with a settlement header,
+ * or without one when `settles` is false. Push to `faults` to make the next
+ * requests fail: 'unavailable' answers 503, 'drop' closes the connection and
+ * 'slow' answers after 500ms ('ok' lets one through). 'stream' sends a paid
+ * body in two parts 300ms apart, and 'empty' sends no paid body.
+ */
+async function startPaidServer(
+  quote: (req: IncomingMessage) => string,
+  asset: string = USDC_ADDRESSES.base,
+  paidStatus = 200,
+  settles = true
+) {
+  const requests: { method?: string; paid: boolean }[] = [];
+  const headers: { signature?: string; idempotencyKey?: string }[] = [];
+  const faults: ('ok' | 'unavailable' | 'drop' | 'slow' | 'stream' | 'empty')[] = [];
+  const server: Server = createServer(async (req, res) => {
+    const paid = Boolean(req.headers['payment-signature']);
+    requests.push({ method: req.method, paid });
+    headers.push({
+      signature: req.headers['payment-signature'] as string | undefined,
+      idempotencyKey: req.headers['idempotency-key'] as string | undefined,
+    });
+
+    const fault = faults.shift();
+    if (fault === 'drop') {
+      req.socket.destroy();
+      return;
+    }
+    if (fault === 'unavailable') {
+      res.writeHead(503);
+      res.end();
+      return;
+    }
+    if (fault === 'slow') await new Promise(resolve => setTimeout(resolve, 500));
+
+    if (paid) {
+      res.writeHead(paidStatus, {
+        'Content-Type': 'application/json',
+        ...(settles && {
+          'Payment-Response': Buffer.from(JSON.stringify({
+            success: true,
+            transaction: '0x' + 'a'.repeat(64),
+            network: 'eip155:8453',
+          })).toString('base64'),
+        }),
+      });
+      if (fault === 'empty') {
+        res.end();
+      } else if (fault === 'stream') {
+        res.write('{"ok":');
+        setTimeout(() => res.end('true}'), 300);
+      } else {
+        res.end('{"ok":true}');
+      }
+      return;
+    }
+
+    const paymentRequired = {
+      x402Version: 2,
+      resource: { url: `http://localhost${req.url}`, description: 'test', mimeType: 'application/json' },
+      accepts: [{
+        scheme: 'exact',
+        network: 'eip155:8453',
+        amount: quote(req),
+        asset,
+        payTo: PAY_TO,
+        maxTimeoutSeconds: 300,
+        extra: { name: 'USD Coin', version: '2' },
+      }],
+    };
+    res.writeHead(402, {
+      'Payment-Required': Buffer.from(JSON.stringify(paymentRequired)).toString('base64'),
+    });
+    res.end('{}');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/data`,
+    requests,
+    headers,
+    faults,
+    close: () => new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }),
+  };
+}
+
+/**
+ * Start a local facilitator whose /verify endpoint always answers `isValid`
+ */
+async function startFacilitator(isValid: boolean) {
+  const verified: unknown[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      verified.push(JSON.parse(body));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(isValid
+        ? { isValid: true, payer: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A' }
+        : { isValid: false, invalidReason: 'insufficient_funds' }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    verified,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
 
 describe('AgentPayClient', () => {
   describe('constructor', () => {
@@ -66,6 +202,74 @@ describe('AgentPayClient', () => {
     });
   });
 
+  describe('state and policy files', () => {
+    const STATE_DIR = './test-client-state';
+
+    afterEach(() => {
+      rmSync(STATE_DIR, { recursive: true, force: true });
+    });
+
+    it('rejects an invalid inline policy', () => {
+      expect(() => new AgentPayClient({
+        privateKey: '0x' + '1'.repeat(64),
+        policy: { maxPerTransaction: -1, dailyLimit: 10 },
+      })).toThrow('maxPerTransaction cannot be negative');
+    });
+
+    it('warns about unknown fields in an inline policy instead of throwing', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const policy = { maxPerTransaction: 1, dailyLimit: 10, owner: 'research-team' };
+
+      try {
+        expect(() => new AgentPayClient({
+          privateKey: '0x' + '1'.repeat(64),
+          policy: policy as PaymentPolicy,
+          recoverOnStart: false,
+        })).not.toThrow();
+        expect(warn).toHaveBeenCalledWith('[x402] Policy fields ignored: Unknown field "owner"');
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('reports policy file reloads to onPolicyReload instead of logging them', async () => {
+      mkdirSync(STATE_DIR, { recursive: true });
+      const policyFile = `${STATE_DIR}/policy.json`;
+      writeFileSync(policyFile, '{"dailyLimit": 10}');
+      const onPolicyReload = vi.fn();
+      const log = vi.spyOn(console, 'log');
+      const client = new AgentPayClient({
+        privateKey: '0x' + '1'.repeat(64),
+        storage: { type: 'memory' },
+        policyFile,
+        onPolicyReload,
+        recoverOnStart: false,
+      });
+
+      try {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        writeFileSync(policyFile, '{"dailyLimit": 3}');
+        await vi.waitFor(() => expect(onPolicyReload).toHaveBeenCalled(), { timeout: 3000 });
+
+        expect(onPolicyReload).toHaveBeenCalledWith(expect.objectContaining({ dailyLimit: 3 }), policyFile);
+        expect(client.getSpendingStatus().daily.limit).toBe(3);
+        expect(log).not.toHaveBeenCalled();
+      } finally {
+        client.close();
+        log.mockRestore();
+      }
+    });
+
+    it('keeps spending state in stateDir', () => {
+      const client = new AgentPayClient({
+        privateKey: '0x' + '1'.repeat(64),
+        stateDir: STATE_DIR,
+      });
+      expect(client.getSpendingStatus().daily.spent).toBe(0);
+      expect(client.getHistory()).toEqual([]);
+    });
+  });
+
   describe('getSpendingStatus', () => {
     it('returns initial status with zero spending', () => {
       const client = new AgentPayClient({
@@ -107,6 +311,15 @@ describe('AgentPayClient', () => {
     });
   });
 
+  describe('receipt retention', () => {
+    it('needs an archive directory with memory storage', () => {
+      const config = { privateKey: '0x' + '1'.repeat(64), storage: { type: 'memory' as const }, retention: { hotDays: 30 } };
+      expect(() => new AgentPayClient(config)).toThrow('retention.archiveDir is required');
+      expect(new AgentPayClient({ ...config, retention: { hotDays: 30, archiveDir: './test-client-archive' } })
+        .compactReceipts()).toEqual({ archived: 0, logEntries: 0, months: [], hot: 0 });
+    });
+  });
+
   describe('exportReceiptsCsv', () => {
     it('returns CSV header for empty receipts', () => {
       const client = new AgentPayClient({
@@ -115,6 +328,20 @@ describe('AgentPayClient', () => {
       const csv = client.exportReceiptsCsv();
       expect(csv).toContain('id,timestamp');
     });
+
+    it('streams the same export it returns', async () => {
+      const client = new AgentPayClient({
+        privateKey: '0x' + '1'.repeat(64),
+        storage: { type: 'memory' },
+      });
+      let streamed = '';
+      for await (const chunk of client.streamReceipts({ format: 'ofx' })) streamed += chunk;
+
+      expect(streamed).toContain(`<ACCTID>${client.getAddress()}</ACCTID>`);
+      // An empty statement is dated now
+      const undated = (ofx: string) => ofx.replace(/\d{14}\.\d{3}\[0:GMT\]/g, '');
+      expect(undated(streamed)).toBe(undated(client.exportReceipts({ format: 'ofx' })));
+    });
   });
 
   describe('policy enforcement', () => {
@@ -204,6 +431,671 @@ describe('AgentPayClient', () => {
   });
 });
 
+describe('AgentPayClient.fetch policy enforcement', () => {
+  let server: Awaited<ReturnType<typeof startPaidServer>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    for (const file of TEST_RECEIPT_FILES) {
+      if (existsSync(file)) unlinkSync(file);
+    }
+  });
+
+  it('blocks a bait-and-switch server that raises the price after a HEAD quote', async () => {
+    // $0.01 on HEAD, $5 on the real request
+    server = await startPaidServer(req => req.method === 'HEAD' ? '10000' : '5000000');
+    const onBlocked = vi.fn();
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      receiptsPath: TEST_RECEIPTS_PATH,
+      spendingPath: TEST_SPENDING_PATH,
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+      onBlocked,
+    });
+
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('per-transaction limit');
+    expect(error.receipt.amountRaw).toBe('5000000');
+    expect(onBlocked).toHaveBeenCalledOnce();
+    // One unpaid GET, no probe, and nothing was ever signed
+    expect(server.requests).toEqual([{ method: 'GET', paid: false }]);
+  });
+
+  it('never overshoots the daily limit with parallel requests', async () => {
+    server = await startPaidServer(() => '250000');
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 1.00 },
+    });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => client.fetch(server!.url))
+    );
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(4);
+    expect(client.getSpendingStatus().daily.spent).toBe(1.00);
+    expect(server.requests.filter(r => r.paid)).toHaveLength(4);
+  });
+
+  it('reports machine-readable details for limit blocks', async () => {
+    server = await startPaidServer(() => '600000');
+    const onBlocked = vi.fn();
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 1.00 },
+      onBlocked,
+    });
+
+    await client.fetch(server.url);
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error).toMatchObject({ code: 'DAILY_LIMIT', rule: 'dailyLimit', limit: 1, current: 0.6 });
+    expect(error.retryAfter).toBeGreaterThan(Date.now());
+    expect(error.receipt).toMatchObject({ blockCode: 'DAILY_LIMIT', blockLimit: 1, blockCurrent: 0.6 });
+    expect(error.receipt.retryAfter).toBe(new Date(error.retryAfter).toISOString());
+    expect(onBlocked).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ code: 'DAILY_LIMIT', limit: 1 }));
+  });
+
+  it('freezes payments after repeated blocked attempts', async () => {
+    server = await startPaidServer(() => '2000000');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: {
+        maxPerTransaction: 1.00,
+        dailyLimit: 10.00,
+        autoFreeze: { maxBlockedAttempts: 2, windowMinutes: 10 },
+      },
+    });
+
+    await expect(client.fetch(server.url)).rejects.toBeInstanceOf(PaymentBlockedError);
+    await expect(client.fetch(server.url)).rejects.toBeInstanceOf(PaymentBlockedError);
+
+    expect(client.getFreezeStatus()).toMatchObject({ frozenBy: 'auto', automatic: true });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Payments frozen automatically'));
+    warn.mockRestore();
+  });
+
+  it('records a blocked receipt for the requirement it refused to sign', async () => {
+    server = await startPaidServer(() => '2000000');
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      receiptsPath: TEST_RECEIPTS_PATH,
+      spendingPath: TEST_SPENDING_PATH,
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+    });
+
+    await expect(client.fetch(server.url)).rejects.toBeInstanceOf(PaymentBlockedError);
+
+    const [receipt] = client.getHistory();
+    expect(receipt.status).toBe('blocked');
+    expect(receipt.recipient).toBe(PAY_TO);
+    expect(receipt.network).toBe('base');
+    expect(client.verifyReceiptLog()).toEqual({ valid: true, entries: 1 });
+  });
+
+  it('records which URL rule blocked a payment', async () => {
+    server = await startPaidServer(() => '250000');
+    const onBlocked = vi.fn();
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: {
+        maxPerTransaction: 1.00,
+        dailyLimit: 10.00,
+        urlRules: [{ name: 'local-cap', domain: '127.0.0.1', maxPerRequest: 0.10 }],
+      },
+      onBlocked,
+    });
+
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.receipt.blockRule).toBe('local-cap');
+    expect(error.message).toContain('URL rule "local-cap"');
+    expect(onBlocked).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ rule: 'local-cap' }));
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+  });
+
+  it('applies policy rules to tagged requests', async () => {
+    server = await startPaidServer(() => '10000');
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: {
+        maxPerTransaction: 1.00,
+        dailyLimit: 10.00,
+        rules: [{ id: 'no-scraping', effect: 'deny', when: { tags: ['scrape'] }, reason: 'Scraping is not paid for' }],
+      },
+    });
+
+    const error = await client.fetch(server.url, undefined, { tags: ['scrape'] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('Scraping is not paid for');
+    expect(error.code).toBe('RULE_DENIED');
+    expect(error.receipt.blockRule).toBe('no-scraping');
+    expect(error.receipt.tags).toEqual(['scrape']);
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+  });
+
+  it('pays in EURC and records the asset and its USD value', async () => {
+    server = await startPaidServer(() => '500000', EURC_ADDRESSES.base);
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00, assetRates: { EURC: 1.08 } },
+    });
+
+    const response = await client.fetch(server.url);
+
+    expect(response.status).toBe(200);
+    const [receipt] = client.getHistory();
+    expect(receipt).toMatchObject({
+      status: 'success',
+      currency: 'EURC',
+      asset: EURC_ADDRESSES.base,
+      amount: '0.500000',
+      valueUsdRaw: '540000',
+    });
+    expect(client.getSpendingStatus().daily.spent).toBe(0.54);
+  });
+
+  it('blocks EURC when the policy has no rate for it', async () => {
+    server = await startPaidServer(() => '500000', EURC_ADDRESSES.base);
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+    });
+
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('No USD rate for EURC');
+    expect(error.receipt.currency).toBe('EURC');
+  });
+
+  it('records what was requested and returned on the receipt', async () => {
+    server = await startPaidServer(() => '100000');
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+    });
+
+    const response = await client.fetch(server.url, { method: 'POST', body: '{"q":"rain"}' }, { traceId: 'task-42' });
+
+    expect(await response.text()).toBe('{"ok":true}');
+    const [receipt] = client.queryHistory({ traceId: 'task-42' }).receipts;
+    expect(receipt).toMatchObject({
+      status: 'success',
+      traceId: 'task-42',
+      description: 'test',
+      mimeType: 'application/json',
+      request: { method: 'POST', bodyHash: createHash('sha256').update('{"q":"rain"}').digest('hex') },
+      response: {
+        status: 200,
+        contentType: 'application/json',
+        contentHash: createHash('sha256').update('{"ok":true}').digest('hex'),
+        contentLength: 11,
+      },
+    });
+    expect(receipt.response!.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(client.queryHistory({ traceId: 'other' }).total).toBe(0);
+  });
+
+  it('returns a streamed paid response before it ends and hashes it as it is read', async () => {
+    server = await startPaidServer(() => '100000');
+    server.faults.push('ok', 'stream');
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+    });
+
+    const started = Date.now();
+    const response = await client.fetch(server.url);
+
+    expect(Date.now() - started).toBeLessThan(300);
+    expect(client.getHistory()[0]).toMatchObject({ status: 'success', response: { status: 200 } });
+    expect(client.getHistory()[0].response!.contentHash).toBeUndefined();
+
+    expect(await response.text()).toBe('{"ok":true}');
+    expect(client.getHistory()[0].response).toMatchObject({
+      contentHash: createHash('sha256').update('{"ok":true}').digest('hex'),
+      contentLength: 11,
+    });
+  });
+
+  it('records a paid response that turns out empty as paid_failed once read', async () => {
+    server = await startPaidServer(() => '100000');
+    server.faults.push('ok', 'empty');
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+      autoDispute: true,
+    });
+
+    const response = await client.fetch(server.url);
+    expect(await response.text()).toBe('');
+
+    expect(client.getHistory()[0]).toMatchObject({
+      status: 'paid_failed',
+      failureReason: 'Empty response after payment',
+      response: { contentLength: 0 },
+      dispute: { status: 'open', openedBy: 'auto' },
+    });
+  });
+
+  it('records a settled 5xx as paid_failed and opens a dispute', async () => {
+    server = await startPaidServer(() => '100000', USDC_ADDRESSES.base, 502);
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+      autoDispute: true,
+    });
+
+    const response = await client.fetch(server.url);
+
+    expect(response.status).toBe(502);
+    const [receipt] = client.getHistory();
+    expect(receipt).toMatchObject({
+      status: 'paid_failed',
+      failureReason: 'HTTP 502 after payment',
+      dispute: { status: 'open', reason: 'HTTP 502 after payment', openedBy: 'auto' },
+    });
+    // The money moved, so it counts against limits but not as successful spend
+    expect(client.getSpendingStatus().daily.spent).toBe(0.1);
+    expect(client.getSpendBreakdown('host')).toEqual([]);
+    expect(client.getServiceReliability()).toMatchObject([{ host: '127.0.0.1', paid: 1, failed: 1, openDisputes: 1 }]);
+  });
+
+  it('records each payment state on the receipt', async () => {
+    server = await startPaidServer(() => '100000');
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+    });
+
+    await client.fetch(server.url);
+
+    const { payment } = client.getHistory()[0];
+    expect(payment!.history.map(step => step.state)).toEqual(['quoted', 'reserved', 'signed', 'settled']);
+    expect(payment!.reservationIds).toHaveLength(1);
+    expect(payment!.authorization).toMatchObject({ from: client.getAddress(), nonce: expect.stringMatching(/^0x/) });
+  });
+
+  it('holds the budget for a signed payment with no settlement until recovery resolves it', async () => {
+    server = await startPaidServer(() => '100000', USDC_ADDRESSES.base, 200, false);
+    const client = new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+    });
+
+    await client.fetch(server.url);
+
+    expect(client.getHistory()[0]).toMatchObject({ status: 'pending', payment: { state: 'unknown' } });
+    expect(client.getSpendingStatus().daily).toMatchObject({ spent: 0, remaining: 9.9 });
+
+    // Every authorizationState lookup says the authorization was used
+    const publicClient = createPublicClient({
+      chain: base,
+      transport: custom({ request: async () => encodeAbiParameters([{ type: 'bool' }], [true]) }),
+    });
+    const report = await client.recoverPayments({ publicClient, minAgeMs: 0 });
+
+    expect(report).toMatchObject({ checked: 1, settled: 1 });
+    expect(client.getHistory()[0]).toMatchObject({ status: 'success', payment: { state: 'settled' } });
+    expect(client.getSpendingStatus().daily).toMatchObject({ spent: 0.1, remaining: 9.9 });
+  });
+});
+
+describe('AgentPayClient.fetch approvals', () => {
+  let server: Awaited<ReturnType<typeof startPaidServer>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  function approvalClient(overrides: Partial<ConstructorParameters<typeof AgentPayClient>[0]> = {}) {
+    return new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00, autoApproveUnder: 0.10 },
+      ...overrides,
+    });
+  }
+
+  it('pays once the callback approves', async () => {
+    server = await startPaidServer(() => '500000');
+    const onApprovalRequired = vi.fn(async () => true);
+    const client = approvalClient({ onApprovalRequired });
+
+    const response = await client.fetch(server.url);
+
+    expect(response.status).toBe(200);
+    expect(onApprovalRequired).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 0.5,
+      recipient: PAY_TO,
+      url: server.url,
+    }));
+    const [receipt] = client.getHistory();
+    expect(receipt.status).toBe('success');
+    expect(receipt.approval?.decision).toBe('approved');
+    expect(receipt.approval?.decidedBy).toBe('callback');
+  });
+
+  it('skips approval under autoApproveUnder', async () => {
+    server = await startPaidServer(() => '50000');
+    const onApprovalRequired = vi.fn(async () => false);
+    const client = approvalClient({ onApprovalRequired });
+
+    await client.fetch(server.url);
+
+    expect(onApprovalRequired).not.toHaveBeenCalled();
+    expect(client.getHistory()[0].status).toBe('success');
+  });
+
+  it('blocks and releases the hold when the callback denies', async () => {
+    server = await startPaidServer(() => '500000');
+    const client = approvalClient({ onApprovalRequired: async () => false });
+
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('Approval denied');
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+    expect(client.getSpendingStatus().reserved.count).toBe(0);
+    expect(client.getHistory()[0].approval?.decision).toBe('denied');
+  });
+
+  it('denies the payment and releases the hold when the callback throws', async () => {
+    server = await startPaidServer(() => '500000');
+    const client = approvalClient({
+      approvalTimeoutMs: 60_000,
+      onApprovalRequired: () => {
+        throw new Error('approval queue offline');
+      },
+    });
+
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('approval callback failed: approval queue offline');
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+    expect(client.getSpendingStatus().reserved.count).toBe(0);
+    expect(client.getPendingApprovals()).toHaveLength(0);
+    expect(client.getHistory()[0].approval?.decision).toBe('denied');
+  });
+
+  it('denies payments nobody decides in time', async () => {
+    server = await startPaidServer(() => '500000');
+    const client = approvalClient({ requireApproval: true, approvalTimeoutMs: 50 });
+
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('Approval timed out');
+    expect(error.code).toBe('APPROVAL_TIMEOUT');
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+  });
+
+  it('accepts decisions made through approvePayment', async () => {
+    server = await startPaidServer(() => '500000');
+    const client = approvalClient({
+      onApprovalRequired: async (request) => {
+        setTimeout(() => client.approvePayment(request.id, 'operator'), 10);
+      },
+    });
+
+    const response = await client.fetch(server.url);
+
+    expect(response.status).toBe(200);
+    expect(client.getPendingApprovals()).toHaveLength(0);
+    expect(client.getHistory()[0].approval?.decidedBy).toBe('operator');
+  });
+});
+
+describe('AgentPayClient.fetch retries and idempotency', () => {
+  let server: Awaited<ReturnType<typeof startPaidServer>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    for (const file of TEST_RECEIPT_FILES) {
+      if (existsSync(file)) unlinkSync(file);
+    }
+  });
+
+  function createClient(config: Partial<ConstructorParameters<typeof AgentPayClient>[0]> = {}) {
+    return new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+      retry: { attempts: 3, backoffMs: 1 },
+      ...config,
+    });
+  }
+
+  it('retries an unavailable server before paying, under one idempotency key', async () => {
+    server = await startPaidServer(() => '100000');
+    server.faults.push('unavailable');
+    const client = createClient();
+
+    const response = await client.fetch(server.url, undefined, { idempotencyKey: 'order-1' });
+
+    expect(response.status).toBe(200);
+    expect(server.requests).toEqual([
+      { method: 'GET', paid: false },
+      { method: 'GET', paid: false },
+      { method: 'GET', paid: true },
+    ]);
+    expect(server.headers.map(h => h.idempotencyKey)).toEqual(['order-1', 'order-1', 'order-1']);
+    expect(client.getHistory()).toMatchObject([{ status: 'success', idempotencyKey: 'order-1', attempt: 2 }]);
+  });
+
+  it('resends the same authorization when a paid request is lost', async () => {
+    server = await startPaidServer(() => '100000');
+    const client = createClient();
+    server.faults.push('ok', 'drop');
+
+    const response = await client.fetch(server.url);
+
+    expect(response.status).toBe(200);
+    const paidSignatures = server.headers.filter(h => h.signature).map(h => h.signature);
+    expect(paidSignatures).toHaveLength(2);
+    expect(paidSignatures[1]).toBe(paidSignatures[0]);
+
+    const [receipt] = client.getHistory();
+    expect(receipt).toMatchObject({ status: 'success', attempt: 2 });
+    expect(receipt.payment!.history.map(step => step.state))
+      .toEqual(['quoted', 'reserved', 'signed', 'unknown', 'signed', 'settled']);
+    expect(client.getSpendingStatus().daily).toMatchObject({ spent: 0.1, remaining: 9.9 });
+  });
+
+  it('never retries a paid request that failed after settling', async () => {
+    server = await startPaidServer(() => '100000', USDC_ADDRESSES.base, 503);
+    const client = createClient();
+
+    const response = await client.fetch(server.url);
+
+    expect(response.status).toBe(503);
+    expect(server.requests.filter(r => r.paid)).toHaveLength(1);
+    expect(client.getHistory()).toMatchObject([{ status: 'paid_failed', attempt: 1 }]);
+  });
+
+  it('refuses to repeat an idempotency key that already paid', async () => {
+    server = await startPaidServer(() => '100000');
+    const client = createClient();
+    await client.fetch(server.url, { headers: { 'Idempotency-Key': 'order-2' } });
+
+    const error = await client.fetch(server.url, undefined, { idempotencyKey: 'order-2' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(IdempotencyError);
+    expect(error.receipt).toMatchObject({ status: 'success', idempotencyKey: 'order-2' });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('times out a slow payment and refuses the key where it cannot be resent', async () => {
+    server = await startPaidServer(() => '100000');
+    server.faults.push('ok', 'slow');
+    const config = { storage: undefined, receiptsPath: TEST_RECEIPTS_PATH, spendingPath: TEST_SPENDING_PATH, retry: { attempts: 1 }, timeoutMs: 200 };
+
+    const error = await createClient(config).fetch(server.url, undefined, { idempotencyKey: 'order-3' }).catch(e => e);
+
+    expect(error.name).toBe('TimeoutError');
+    // Another process can't resend the authorization, so it must not sign a second one
+    const other = createClient({ ...config, recoverOnStart: false });
+    expect(other.getHistory()).toMatchObject([{ status: 'pending', payment: { state: 'unknown' } }]);
+    await expect(other.fetch(server.url, undefined, { idempotencyKey: 'order-3' })).rejects.toThrow('may have settled');
+  });
+});
+
+describe('AgentPayClient dry runs', () => {
+  let server: Awaited<ReturnType<typeof startPaidServer>> | undefined;
+  let facilitator: Awaited<ReturnType<typeof startFacilitator>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    await facilitator?.close();
+    server = undefined;
+    facilitator = undefined;
+  });
+
+  function dryRunClient(policy: Partial<PaymentPolicy> = {}, facilitatorUrl?: string) {
+    return new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      facilitatorUrl,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00, maxTransactionsPerHour: 60, ...policy },
+    });
+  }
+
+  it('quotes a payment without signing', async () => {
+    server = await startPaidServer(() => '250000');
+    const client = dryRunClient();
+
+    const quote = await client.dryRun(server.url);
+
+    expect(quote).toMatchObject({
+      paymentRequired: true,
+      amount: 0.25,
+      amountRaw: '250000',
+      recipient: PAY_TO,
+      network: 'base',
+      allowed: true,
+      requiresApproval: false,
+      remaining: { daily: 9.75, transactionsPerHour: 59 },
+    });
+    expect(server.requests).toEqual([{ method: 'GET', paid: false }]);
+    expect(client.getSpendingStatus().daily.spent).toBe(0);
+  });
+
+  it('reports the policy verdict for a payment it would block', async () => {
+    server = await startPaidServer(() => '5000000');
+    const client = dryRunClient();
+
+    const quote = await client.dryRun(server.url);
+
+    expect(quote.allowed).toBe(false);
+    expect(quote.reason).toContain('per-transaction limit');
+    expect(quote.evaluated).toContainEqual(expect.objectContaining({ rule: 'maxPerTransaction', outcome: 'failed' }));
+    expect(quote.amount).toBe(5);
+    expect(quote.remaining.daily).toBe(10);
+    expect(client.getHistory()).toHaveLength(0);
+  });
+
+  it('requires a dry run before paying with requireDryRun', async () => {
+    server = await startPaidServer(() => '250000');
+    const client = dryRunClient({ requireDryRun: true });
+
+    const error = await client.fetch(server.url).catch(e => e);
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('Dry run required');
+
+    await client.dryRun(server.url);
+    const response = await client.fetch(server.url);
+    expect(response.status).toBe(200);
+
+    // Each quote covers one payment
+    await expect(client.fetch(server.url)).rejects.toBeInstanceOf(PaymentBlockedError);
+  });
+
+  it('blocks a price raised after the dry run', async () => {
+    let price = '250000';
+    server = await startPaidServer(() => price);
+    const client = dryRunClient({ requireDryRun: true });
+
+    await client.dryRun(server.url);
+    price = '500000';
+
+    const error = await client.fetch(server.url).catch(e => e);
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.message).toContain('exceeds the dry-run quote');
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+  });
+
+  it('verifies the signed payment with the facilitator before sending it', async () => {
+    server = await startPaidServer(() => '250000');
+    facilitator = await startFacilitator(true);
+    const client = dryRunClient({ simulateBeforePay: true }, facilitator.url);
+
+    const response = await client.fetch(server.url);
+
+    expect(response.status).toBe(200);
+    expect(facilitator.verified).toHaveLength(1);
+    expect(facilitator.verified[0]).toMatchObject({
+      paymentRequirements: { amount: '250000', payTo: PAY_TO },
+    });
+  });
+
+  it('blocks with PaymentVerificationError when verification fails', async () => {
+    server = await startPaidServer(() => '250000');
+    facilitator = await startFacilitator(false);
+    const client = dryRunClient({ simulateBeforePay: true }, facilitator.url);
+
+    const error = await client.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentVerificationError);
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error.verificationError).toBe('insufficient_funds');
+    expect(error.receipt.status).toBe('blocked');
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+    expect(client.getSpendingStatus().reserved.count).toBe(0);
+  });
+});
+
 describe('createSimpleFetch', () => {
   it('creates a fetch function', () => {
     const fetch402 = createSimpleFetch('0x' + '1'.repeat(64));
@@ -215,3 +1107,78 @@ describe('createSimpleFetch', () => {
     expect(typeof fetch402).toBe('function');
   });
 });
+
+describe('AgentPayClient budget scopes', () => {
+  let server: Awaited<ReturnType<typeof startPaidServer>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  function scopedClient() {
+    return new AgentPayClient({
+      privateKey: '0x' + '1'.repeat(64),
+      storage: { type: 'memory' },
+      disableProtocolFee: true,
+      policy: { maxPerTransaction: 1.00, dailyLimit: 10.00 },
+    });
+  }
+
+  it('rolls scope spending up to parent scopes and the wallet', async () => {
+    server = await startPaidServer(() => '250000');
+    const client = scopedClient();
+    const agent = client.scope({ name: 'agent', limits: { dailyLimit: 2 } });
+    const task = agent.scope({ name: 'task', limits: { dailyLimit: 1 } });
+
+    await task.fetch(server.url);
+
+    expect(task.getStatus()!.daily.spent).toBe(0.25);
+    expect(agent.getStatus()!.daily.spent).toBe(0.25);
+    expect(client.getSpendingStatus().daily.spent).toBe(0.25);
+    expect(task.getHistory()).toHaveLength(1);
+    expect(agent.getHistory()[0]).toMatchObject({ status: 'success', scope: 'task' });
+  });
+
+  it('blocks at the scope limit without touching the other budgets', async () => {
+    server = await startPaidServer(() => '600000');
+    const client = scopedClient();
+    const task = client.scope({ name: 'task', limits: { dailyLimit: 1 } });
+
+    await task.fetch(server.url);
+    const error = await task.fetch(server.url).catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentBlockedError);
+    expect(error).toMatchObject({ code: 'DAILY_LIMIT', scope: 'task', limit: 1, current: 0.6 });
+    expect(error.message).toContain('Scope "task": payment would exceed daily limit');
+    expect(error.receipt.scope).toBe('task');
+    expect(client.getSpendingStatus()).toMatchObject({ daily: { spent: 0.6 }, reserved: { count: 0 } });
+    // Other agents can still spend the wallet's budget
+    await expect(client.fetch(server.url)).resolves.toHaveProperty('status', 200);
+  });
+
+  it('blocks payments in a closed scope', async () => {
+    server = await startPaidServer(() => '250000');
+    const client = scopedClient();
+    const task = client.scope({ name: 'task', limits: { dailyLimit: 1 }, ttl: 60_000 });
+
+    expect(task.close()).toBe(true);
+    const error = await task.fetch(server.url).catch(e => e);
+
+    expect(error).toMatchObject({ code: 'SCOPE_EXPIRED', scope: 'task' });
+    expect(task.getStatus()).toBeUndefined();
+    expect(client.getScopes()).toEqual([]);
+    expect(server.requests.filter(r => r.paid)).toHaveLength(0);
+  });
+
+  it('quotes against the scope budget', async () => {
+    server = await startPaidServer(() => '250000');
+    const client = scopedClient();
+    const task = client.scope({ name: 'task', limits: { dailyLimit: 1 } });
+
+    const quote = await task.dryRun(server.url);
+
+    expect(quote).toMatchObject({ allowed: true, remaining: { daily: 0.75 } });
+    expect(quote.evaluated).toContainEqual(expect.objectContaining({ rule: 'dailyLimit', scope: 'task', outcome: 'passed' }));
+  });
+});
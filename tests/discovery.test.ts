@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ServiceDiscovery, discoverServices } from '../src/discovery';
 
 describe('ServiceDiscovery', () => {
@@ -173,6 +173,27 @@ describe('ServiceDiscovery', () => {
       expect(services1).toEqual(services2);
     });
   });
+
+  describe('setReliability', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('attaches observed reliability to services by host', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+        services: [
+          { id: 'a', name: 'A', description: '', url: 'https://a.example', category: 'data', networks: [], priceRange: { min: 0, max: 1 }, endpoints: [] },
+          { id: 'b', name: 'B', description: '', url: 'https://b.example', category: 'data', networks: [], priceRange: { min: 0, max: 1 }, endpoints: [] },
+        ],
+      }))));
+      const stats = { host: 'api.a.example', paid: 4, failed: 1, failureRate: 0.25, failedValueRaw: '10000', openDisputes: 1, refunded: 0 };
+      discovery.setReliability([stats]);
+
+      const [a, b] = await discovery.getAllServices();
+      expect(a.reliability).toEqual(stats);
+      expect(b.reliability).toBeUndefined();
+    });
+  });
 });
 
 describe('discoverServices helper', () => {
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DisputeLedger, paidFailureReason, serviceReliability } from '../src/disputes';
+import { ReceiptStore } from '../src/receipts';
+import { MemoryStorage } from '../src/storage';
+import { PaymentReceipt } from '../src/config';
+
+function receipt(overrides: Partial<PaymentReceipt> = {}): PaymentReceipt {
+  return {
+    id: 'r1',
+    timestamp: '2026-03-05T10:30:00.000Z',
+    url: 'https://api.example.com/data',
+    amount: '0.100000',
+    amountRaw: '100000',
+    currency: 'USDC',
+    network: 'base',
+    recipient: '0x1234',
+    txHash: '0xabc',
+    status: 'success',
+    ...overrides,
+  };
+}
+
+describe('paidFailureReason', () => {
+  it('fails error statuses and empty bodies', () => {
+    expect(paidFailureReason(new Response('oops', { status: 502 }))).toBe('HTTP 502 after payment');
+    expect(paidFailureReason(new Response(null, { status: 200 }))).toBe('Empty response after payment');
+    expect(paidFailureReason(new Response('', { status: 200 }), { status: 200, contentLength: 0, latencyMs: 5 }))
+      .toBe('Empty response after payment');
+  });
+
+  it('accepts content and 204 No Content', () => {
+    expect(paidFailureReason(new Response('{"ok":true}', { status: 200 }))).toBeUndefined();
+    expect(paidFailureReason(new Response(null, { status: 204 }))).toBeUndefined();
+  });
+});
+
+describe('DisputeLedger', () => {
+  let store: ReceiptStore;
+  let disputes: DisputeLedger;
+
+  beforeEach(() => {
+    store = new ReceiptStore(new MemoryStorage());
+    disputes = new DisputeLedger(store);
+    store.createReceipt(receipt({ status: 'paid_failed', failureReason: 'HTTP 500 after payment' }));
+    store.createReceipt(receipt({ id: 'r2', status: 'blocked', txHash: undefined }));
+  });
+
+  it('opens, notes and resolves a dispute with the refund', () => {
+    expect(disputes.open('r1', 'HTTP 500 after payment')!.dispute).toMatchObject({ status: 'open', openedBy: 'manual' });
+    disputes.note('r1', 'Emailed support', 'ops');
+    const resolved = disputes.resolve('r1', { refundTxHash: '0xdef', resolution: 'Refunded' })!;
+
+    expect(resolved.dispute).toMatchObject({
+      status: 'resolved',
+      reason: 'HTTP 500 after payment',
+      notes: [{ text: 'Emailed support', by: 'ops' }],
+      refundTxHash: '0xdef',
+      resolution: 'Refunded',
+    });
+    expect(disputes.list('resolved').map(r => r.id)).toEqual(['r1']);
+    expect(disputes.list('open')).toEqual([]);
+  });
+
+  it('only disputes paid receipts, one open dispute at a time', () => {
+    expect(disputes.open('r2', 'never paid')).toBeNull();
+    expect(disputes.open('missing', 'nope')).toBeNull();
+    expect(disputes.note('r1', 'no dispute yet')).toBeNull();
+    expect(disputes.resolve('r1')).toBeNull();
+
+    disputes.open('r1', 'first');
+    expect(disputes.open('r1', 'second')).toBeNull();
+  });
+});
+
+describe('serviceReliability', () => {
+  it('counts paid and failed requests per host, least reliable first', () => {
+    const stats = serviceReliability([
+      receipt({ id: 'a', response: { status: 200, latencyMs: 100 } }),
+      receipt({ id: 'b', status: 'paid_failed', response: { status: 500, latencyMs: 300 }, dispute: { status: 'open', openedAt: '', reason: 'x' } }),
+      receipt({ id: 'c', url: 'https://good.example/x' }),
+      receipt({ id: 'd', url: 'https://good.example/y', status: 'blocked' }),
+    ]);
+
+    expect(stats).toEqual([
+      { host: 'api.example.com', paid: 2, failed: 1, failureRate: 0.5, failedValueRaw: '100000', openDisputes: 1, refunded: 0, averageLatencyMs: 200 },
+      { host: 'good.example', paid: 1, failed: 0, failureRate: 0, failedValueRaw: '0', openDisputes: 0, refunded: 0 },
+    ]);
+  });
+});
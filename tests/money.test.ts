@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  toAtomic,
+  fromAtomic,
+  formatAtomic,
+  formatUsd,
+  sumAtomic,
+  feeFromBps,
+} from '../src/money';
+import { PolicyEnforcer } from '../src/policy';
+import { MemoryStorage } from '../src/storage';
+
+describe('money', () => {
+  describe('toAtomic', () => {
+    it('converts human amounts to atomic units', () => {
+      expect(toAtomic(1)).toBe(1_000_000n);
+      expect(toAtomic(0.1)).toBe(100_000n);
+      expect(toAtomic('0.000001')).toBe(1n);
+    });
+
+    it('rounds float noise to the asset precision', () => {
+      expect(toAtomic(0.1 + 0.2)).toBe(300_000n);
+      expect(toAtomic(0.3 - 0.1)).toBe(200_000n);
+    });
+
+    it('handles amounts JavaScript prints in exponent notation', () => {
+      expect(toAtomic(1e-6)).toBe(1n);
+      expect(toAtomic(1e21)).toBe(10n ** 27n);
+    });
+
+    it('passes bigints through as atomic units', () => {
+      expect(toAtomic(42n)).toBe(42n);
+    });
+
+    it('respects other asset precisions', () => {
+      expect(toAtomic('1.5', 18)).toBe(1_500_000_000_000_000_000n);
+      expect(toAtomic(2, 0)).toBe(2n);
+    });
+
+    it('rejects non-numeric input', () => {
+      expect(() => toAtomic('abc')).toThrow('Invalid amount');
+      expect(() => toAtomic(NaN)).toThrow('Invalid amount');
+    });
+  });
+
+  describe('formatting', () => {
+    it('formats with every decimal place', () => {
+      expect(formatAtomic(500_000n)).toBe('0.500000');
+      expect(formatAtomic(12_345_678n)).toBe('12.345678');
+      expect(formatAtomic(1n)).toBe('0.000001');
+      expect(formatAtomic(-1n)).toBe('-0.000001');
+      expect(formatAtomic(5n, 0)).toBe('5');
+    });
+
+    it('formats dollars with cents', () => {
+      expect(formatUsd(1_234_567n)).toBe('1.23');
+      expect(fromAtomic(250_000n)).toBe(0.25);
+    });
+  });
+
+  describe('fees', () => {
+    it('rounds fees down to whole atomic units', () => {
+      expect(feeFromBps(1_000_000n, 50)).toBe(5_000n);
+      expect(feeFromBps(199n, 50)).toBe(0n);
+    });
+  });
+
+  describe('properties', () => {
+    const atomic = fc.bigInt({ min: 0n, max: 10n ** 15n });
+
+    it('round-trips formatted amounts exactly', () => {
+      fc.assert(fc.property(atomic, raw => toAtomic(formatAtomic(raw)) === raw));
+    });
+
+    it('sums without drift regardless of order', () => {
+      fc.assert(fc.property(fc.array(atomic, { maxLength: 200 }), amounts => {
+        const forward = sumAtomic(amounts);
+        const backward = sumAtomic([...amounts].reverse());
+        return forward === backward && toAtomic(formatAtomic(forward)) === forward;
+      }));
+    });
+
+    it('never charges a fee larger than the rate allows', () => {
+      fc.assert(fc.property(atomic, fc.integer({ min: 0, max: 10_000 }), (raw, bps) => {
+        const fee = feeFromBps(raw, bps);
+        return fee * 10_000n <= raw * BigInt(bps) && (fee + 1n) * 10_000n > raw * BigInt(bps);
+      }));
+    });
+
+    it('tracks thousands of micropayments exactly in the policy', () => {
+      fc.assert(
+        fc.property(fc.array(fc.bigInt({ min: 1n, max: 5_000n }), { minLength: 1, maxLength: 300 }), amounts => {
+          const enforcer = new PolicyEnforcer({ maxPerTransaction: 1, dailyLimit: 1_000 }, new MemoryStorage());
+          for (const amount of amounts) enforcer.recordPayment(amount, '0xRecipient');
+          return toAtomic(enforcer.getStatus().daily.spent) === sumAtomic(amounts);
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('allows exactly as many payments as fit the limit', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 1, max: 100 }), fc.integer({ min: 1, max: 5_000 }), (count, unit) => {
+          const price = BigInt(unit);
+          const limit = fromAtomic(price * BigInt(count));
+          const enforcer = new PolicyEnforcer(
+            { maxPerTransaction: 1, dailyLimit: limit },
+            new MemoryStorage()
+          );
+
+          for (let i = 0; i < count; i++) {
+            if (!enforcer.reserve(price, '0xRecipient').allowed) return false;
+          }
+          return !enforcer.checkPayment(price, '0xRecipient').allowed;
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+
+  it('keeps 2,000 payments of $0.0005 at exactly $1.00', () => {
+    const enforcer = new PolicyEnforcer({ maxPerTransaction: 1, dailyLimit: 1 }, new MemoryStorage());
+
+    // Float addition of 0.0005 drifts off 1.00 long before 2,000 steps
+    for (let i = 0; i < 2_000; i++) {
+      enforcer.recordPayment(0.0005, '0xRecipient');
+    }
+
+    expect(enforcer.getStatus().daily.spent).toBe(1);
+    expect(enforcer.checkPayment(0.000001, '0xRecipient').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPublicClient, custom, encodeAbiParameters } from 'viem';
+import { base } from 'viem/chains';
+import { advancePayment, recoverPayments, startPayment } from '../src/payment-state';
+import { ReceiptStore } from '../src/receipts';
+import { MemoryStorage } from '../src/storage';
+import { PaymentProgress, PaymentReceipt } from '../src/config';
+
+const NOW = Date.parse('2026-03-05T12:00:00.000Z');
+const AN_HOUR_AGO = '2026-03-05T11:00:00.000Z';
+
+function progress(state: PaymentProgress['state'], overrides: Partial<PaymentProgress> = {}): PaymentProgress {
+  return {
+    state,
+    history: [{ state, at: AN_HOUR_AGO }],
+    authorization: { from: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A', nonce: '0x' + '1'.repeat(64), validBefore: String(NOW / 1000 + 60) },
+    ...overrides,
+  };
+}
+
+function receipt(id: string, payment: PaymentProgress): PaymentReceipt {
+  return {
+    id,
+    timestamp: AN_HOUR_AGO,
+    url: 'https://api.example.com/data',
+    amount: '0.100000',
+    amountRaw: '100000',
+    currency: 'USDC',
+    network: 'base',
+    recipient: '0x1234',
+    status: 'pending',
+    payment,
+  };
+}
+
+/**
+ * Public client whose authorizationState lookups all return `used`;
+ * `request` records the RPC calls
+ */
+function chain(used: boolean) {
+  const request = vi.fn(async ({ method }: { method: string }) => {
+    if (method !== 'eth_call') throw new Error(`Unexpected ${method}`);
+    return encodeAbiParameters([{ type: 'bool' }], [used]);
+  });
+  return { client: createPublicClient({ chain: base, transport: custom({ request }) }), request };
+}
+
+describe('advancePayment', () => {
+  it('records each step with its reason', () => {
+    const reserved = advancePayment(startPayment(), 'reserved', { reservationIds: ['h1'] });
+    const failed = advancePayment(reserved, 'failed', { reason: 'Approval denied' });
+
+    expect(failed.state).toBe('failed');
+    expect(failed.reservationIds).toEqual(['h1']);
+    expect(failed.history.map(step => step.state)).toEqual(['quoted', 'reserved', 'failed']);
+    expect(failed.history[2].reason).toBe('Approval denied');
+  });
+
+  it('rejects moves the state machine does not allow', () => {
+    expect(() => advancePayment(startPayment(), 'signed')).toThrow("Payment can't go from quoted to signed");
+    expect(() => advancePayment(progress('settled'), 'failed')).toThrow("Payment can't go from settled to failed");
+  });
+});
+
+describe('recoverPayments', () => {
+  let store: ReceiptStore;
+
+  beforeEach(() => {
+    vi.spyOn(Date, 'now').mockReturnValue(NOW);
+    store = new ReceiptStore(new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fails payments interrupted before signing and settles used authorizations', async () => {
+    store.createReceipt(receipt('reserved', progress('reserved', { authorization: undefined })));
+    store.createReceipt(receipt('signed', progress('signed')));
+    const onSettled = vi.fn();
+    const onFailed = vi.fn();
+
+    const report = await recoverPayments(store, chain(true).client, { onSettled, onFailed });
+
+    expect(report).toMatchObject({ checked: 2, settled: 1, failed: 1, unresolved: 0 });
+    expect(store.getById('reserved')).toMatchObject({ status: 'failed', payment: { state: 'failed' } });
+    expect(store.getById('signed')).toMatchObject({ status: 'success', payment: { state: 'settled' } });
+    expect(onSettled).toHaveBeenCalledWith(expect.objectContaining({ id: 'signed' }));
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: 'reserved' }));
+  });
+
+  it('fails expired unused authorizations and leaves live ones unknown', async () => {
+    const expired = progress('signed');
+    expired.authorization!.validBefore = String(NOW / 1000 - 60);
+    store.createReceipt(receipt('expired', expired));
+    store.createReceipt(receipt('live', progress('signed')));
+
+    const report = await recoverPayments(store, chain(false).client);
+
+    expect(report).toMatchObject({ checked: 2, failed: 1, unresolved: 1 });
+    expect(store.getById('expired')!.status).toBe('failed');
+    expect(store.getById('live')).toMatchObject({ status: 'pending', payment: { state: 'unknown' } });
+  });
+
+  it('skips recent and finished payments', async () => {
+    const recent = progress('signed');
+    recent.history[0].at = new Date(NOW - 1000).toISOString();
+    store.createReceipt(receipt('recent', recent));
+    store.createReceipt({ ...receipt('done', progress('settled')), status: 'success' });
+    const { client, request } = chain(true);
+
+    const report = await recoverPayments(store, client);
+
+    expect(report.checked).toBe(0);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import {
+  loadPolicyFile,
+  parsePolicy,
+  validatePolicy,
+  watchPolicyFile,
+  PolicyValidationError,
+} from '../src/policy-file';
+import { DEFAULT_POLICY, PaymentPolicy } from '../src/config';
+
+const TEST_DIR = './test-policy-files';
+
+function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (check()) return resolve();
+      if (Date.now() - start > timeoutMs) return reject(new Error('timed out'));
+      setTimeout(tick, 10);
+    };
+    tick();
+  });
+}
+
+describe('Policy files', () => {
+  beforeEach(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('parsePolicy', () => {
+    it('parses JSON policies', () => {
+      const policy = parsePolicy('{"maxPerTransaction": 2, "dailyLimit": 20}', 'policy.json');
+      expect(policy.maxPerTransaction).toBe(2);
+      expect(policy.dailyLimit).toBe(20);
+    });
+
+    it('parses YAML policies', () => {
+      const policy = parsePolicy([
+        'maxPerTransaction: 0.5',
+        'dailyLimit: 5',
+        'blockedRecipients:',
+        '  - "0xScam"',
+      ].join('\n'), 'policy.yaml');
+      expect(policy.maxPerTransaction).toBe(0.5);
+      expect(policy.blockedRecipients).toEqual(['0xScam']);
+    });
+
+    it('fills missing fields from the default policy', () => {
+      const policy = parsePolicy('{"dailyLimit": 50}', 'policy.json');
+      expect(policy.maxPerTransaction).toBe(DEFAULT_POLICY.maxPerTransaction);
+      expect(policy.maxTransactionsPerHour).toBe(DEFAULT_POLICY.maxTransactionsPerHour);
+    });
+
+    it('reports syntax errors with the file name', () => {
+      expect(() => parsePolicy('{ nope', 'limits.json')).toThrow(/limits\.json[\s\S]*Could not parse/);
+    });
+
+    it('rejects a file that is not an object', () => {
+      expect(() => parsePolicy('- 1\n- 2', 'policy.yml')).toThrow('Policy must be an object');
+    });
+  });
+
+  describe('validatePolicy', () => {
+    it('accepts a valid policy', () => {
+      const policy: PaymentPolicy = { maxPerTransaction: 1, dailyLimit: 10, weeklyLimit: 50, monthlyLimit: 100 };
+      expect(validatePolicy(policy)).toBe(policy);
+    });
+
+    it('rejects negative amounts', () => {
+      expect(() => validatePolicy({ maxPerTransaction: -1, dailyLimit: 10 })).toThrow('maxPerTransaction cannot be negative');
+    });
+
+    it('rejects non-numeric amounts', () => {
+      expect(() => validatePolicy({ maxPerTransaction: '1', dailyLimit: 10 })).toThrow('maxPerTransaction must be a number');
+    });
+
+    it('rejects a weekly limit lower than the daily limit', () => {
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, weeklyLimit: 5 }))
+        .toThrow('weeklyLimit ($5) is lower than dailyLimit ($10)');
+    });
+
+    it('rejects a monthly limit lower than the weekly limit', () => {
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, weeklyLimit: 50, monthlyLimit: 20 }))
+        .toThrow('monthlyLimit ($20) is lower than weeklyLimit ($50)');
+    });
+
+    it('rejects recipients that are both approved and blocked', () => {
+      expect(() => validatePolicy({
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        approvedRecipients: ['0xAbc', '0xDef'],
+        blockedRecipients: ['0xABC'],
+      })).toThrow('Recipients both approved and blocked: 0xAbc');
+    });
+
+    it('rejects fractional velocity limits', () => {
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, maxTransactionsPerHour: 2.5 }))
+        .toThrow('maxTransactionsPerHour must be a non-negative integer');
+    });
+
+    it('validates autoFreeze settings', () => {
+      expect(() => validatePolicy({
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        autoFreeze: { maxBlockedAttempts: 5, windowMinutes: 10 },
+      })).not.toThrow();
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, autoFreeze: { maxBlockedAttempts: 0, windowMinutes: 10 } }))
+        .toThrow('autoFreeze.maxBlockedAttempts must be a positive integer');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, autoFreeze: true }))
+        .toThrow('autoFreeze must be an object');
+    });
+
+    it('validates the limit window and timezone', () => {
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, limitWindow: 'rolling', timezone: 'Europe/Berlin' }))
+        .not.toThrow();
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, limitWindow: 'hourly' }))
+        .toThrow('limitWindow must be "calendar" or "rolling"');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, timezone: 'Mars/Olympus' }))
+        .toThrow('timezone must be an IANA timezone');
+    });
+
+    it('validates asset rates and limits', () => {
+      expect(() => validatePolicy({
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        assetRates: { EURC: 1.08 },
+        assetLimits: { EURC: { maxPerTransaction: 2, dailyLimit: 20 } },
+      })).not.toThrow();
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, assetRates: { EURC: 0 } }))
+        .toThrow('assetRates.EURC must be a positive number');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, assetLimits: { EURC: { daily: 5 } } }))
+        .toThrow('Unknown field "assetLimits.EURC.daily"');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, assetLimits: { EURC: 5 } }))
+        .toThrow('assetLimits.EURC must be an object');
+    });
+
+    it('validates network rules', () => {
+      expect(() => validatePolicy({
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        allowedNetworks: ['baseSepolia', 'eip155:8453'],
+        blockedNetworks: ['ethereum'],
+        networkLimits: { base: { dailyLimit: 5, monthlyLimit: 50 } },
+      })).not.toThrow();
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, allowedNetworks: ['solana'] }))
+        .toThrow('allowedNetworks contains unknown network "solana"');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, networkLimits: { base: { weeklyLimit: 5 } } }))
+        .toThrow('Unknown field "networkLimits.base.weeklyLimit"');
+    });
+
+    it('validates domain and URL rules', () => {
+      expect(() => validatePolicy({
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        blockedDomains: ['sketchy.io'],
+        urlRules: [{ name: 'weather', domain: 'weather.example', maxPerRequest: 0.01, dailyLimit: 1 }],
+      })).not.toThrow();
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, urlRules: [{ maxPerRequest: 1 }] }))
+        .toThrow('urlRules[0] needs a domain, url or urlRegex to match');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, urlRules: [{ urlRegex: '(' }] }))
+        .toThrow('urlRules[0].urlRegex must be a valid regular expression');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, urlRules: [{ domain: 'a.com', maxPrice: 1 }] }))
+        .toThrow('Unknown field "urlRules[0].maxPrice"');
+    });
+
+    it('validates policy rules', () => {
+      expect(() => validatePolicy({
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        rules: [
+          { id: 'partner', effect: 'allow', when: { recipients: ['0xPartner'], days: ['mon', 'fri'] } },
+          { id: 'cap', effect: 'limit', per: 'domain', dailyLimit: 2 },
+          { id: 'night', effect: 'deny', when: { hours: { from: 22, to: 6 } } },
+        ],
+      })).not.toThrow();
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, rules: [{ id: 'x', effect: 'block' }] }))
+        .toThrow('rules[0].effect must be "allow", "deny" or "limit"');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, rules: [{ id: 'x', effect: 'limit' }] }))
+        .toThrow('rules[0] is a limit rule without limits');
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimit: 10, rules: [{ id: 'x', effect: 'deny', when: { days: ['monday'] } }] }))
+        .toThrow('rules[0].when.days contains "monday"');
+      expect(() => validatePolicy({
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        rules: [{ id: 'x', effect: 'deny' }, { id: 'x', effect: 'allow' }],
+      })).toThrow('rules[1].id "x" is used by an earlier rule');
+    });
+
+    it('rejects unknown fields to catch typos', () => {
+      expect(() => validatePolicy({ maxPerTransaction: 1, dailyLimt: 10 })).toThrow('Unknown field "dailyLimt"');
+    });
+
+    it('collects every issue', () => {
+      try {
+        validatePolicy({ maxPerTransaction: -1, dailyLimit: -2 });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PolicyValidationError);
+        expect((error as PolicyValidationError).issues).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('loadPolicyFile', () => {
+    it('loads a file from disk', () => {
+      writeFileSync(`${TEST_DIR}/policy.yml`, 'dailyLimit: 25\n');
+      expect(loadPolicyFile(`${TEST_DIR}/policy.yml`).dailyLimit).toBe(25);
+    });
+
+    it('throws a validation error for a missing file', () => {
+      expect(() => loadPolicyFile(`${TEST_DIR}/missing.json`)).toThrow(PolicyValidationError);
+    });
+  });
+
+  describe('watchPolicyFile', () => {
+    it('reports valid changes and ignores invalid ones', async () => {
+      const path = `${TEST_DIR}/policy.json`;
+      writeFileSync(path, '{"dailyLimit": 10}');
+
+      const changes: PaymentPolicy[] = [];
+      const errors: PolicyValidationError[] = [];
+      const stop = watchPolicyFile(path, p => changes.push(p), e => errors.push(e), 10);
+
+      try {
+        await new Promise(r => setTimeout(r, 50));
+        writeFileSync(path, '{"dailyLimit": -5}');
+        await waitFor(() => errors.length === 1);
+
+        await new Promise(r => setTimeout(r, 50));
+        writeFileSync(path, '{"dailyLimit": 3}');
+        await waitFor(() => changes.length === 1);
+        expect(changes[0].dailyLimit).toBe(3);
+      } finally {
+        stop();
+      }
+    });
+  });
+});
@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { PolicyEnforcer } from '../src/policy';
-import { unlinkSync, existsSync } from 'fs';
+import { PaymentPolicy } from '../src/config';
+import { findAsset } from '../src/assets';
+import { unlinkSync, existsSync, readFileSync, writeFileSync } from 'fs';
 
 const TEST_SPENDING_PATH = './test-spending.json';
 const TEST_RECIPIENT = '0xApproved1';
@@ -118,12 +120,596 @@ describe('PolicyEnforcer', () => {
     });
   });
 
+  describe('state migration', () => {
+    it('converts float spending files to exact atomic amounts', () => {
+      // A Wednesday, so the legacy counters below are for the current periods and aren't reset on load
+      const clock = vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-03-18T12:00:00Z'));
+      try {
+        writeFileSync(TEST_SPENDING_PATH, JSON.stringify({
+          date: '2026-03-18',
+          weekStart: '2026-03-16',
+          monthStart: '2026-03-01',
+          dailySpent: 0.30000000000000004,
+          weeklySpent: 0.30000000000000004,
+          monthlySpent: 0.30000000000000004,
+          transactions: 3,
+          recentTransactions: [{ timestamp: Date.now(), amount: 0.1, recipient: '0xapproved1' }],
+          perRecipient: { '0xapproved1': 0.30000000000000004 },
+        }));
+
+        const migrated = new PolicyEnforcer({ maxPerTransaction: 1.00, dailyLimit: 10.00 }, TEST_SPENDING_PATH);
+        expect(migrated.getStatus().daily.spent).toBe(0.3);
+
+        migrated.recordPayment(0.1, TEST_RECIPIENT);
+        const stored = JSON.parse(readFileSync(TEST_SPENDING_PATH, 'utf-8'));
+        expect(stored.version).toBe(2);
+        expect(stored.dailySpent).toBe('400000');
+        expect(stored.perRecipient['0xapproved1']).toBe('400000');
+        expect(stored.recentTransactions.map((t: { amountRaw: string }) => t.amountRaw)).toEqual(['100000', '100000']);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+  });
+
+  describe('reservations', () => {
+    it('holds reserved amounts against the daily limit', () => {
+      enforcer.recordPayment(9.00, TEST_RECIPIENT);
+      const first = enforcer.reserve(0.75, TEST_RECIPIENT);
+      expect(first.allowed).toBe(true);
+
+      const second = enforcer.checkPayment(0.50, TEST_RECIPIENT);
+      expect(second.allowed).toBe(false);
+      expect(second.reason).toContain('daily limit');
+    });
+
+    it('never lets concurrent reservations overshoot the remaining budget', () => {
+      enforcer.recordPayment(9.00, TEST_RECIPIENT);
+      const results = Array.from({ length: 10 }, () => enforcer.reserve(0.25, TEST_RECIPIENT));
+
+      expect(results.filter(r => r.allowed)).toHaveLength(4);
+      expect(enforcer.getStatus().daily.remaining).toBe(0);
+    });
+
+    it('counts reservations toward the velocity limit', () => {
+      for (let i = 0; i < 10; i++) {
+        expect(enforcer.reserve(0.01, TEST_RECIPIENT).allowed).toBe(true);
+      }
+      const result = enforcer.reserve(0.01, TEST_RECIPIENT);
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Velocity limit');
+    });
+
+    it('commit turns a reservation into recorded spending', () => {
+      const { reservation } = enforcer.reserve(0.50, TEST_RECIPIENT);
+      expect(enforcer.commit(reservation!.id)).toBe(true);
+
+      const status = enforcer.getStatus();
+      expect(status.daily.spent).toBe(0.50);
+      expect(status.daily.transactions).toBe(1);
+      expect(status.reserved.count).toBe(0);
+    });
+
+    it('release frees the reserved amount', () => {
+      enforcer.recordPayment(9.00, TEST_RECIPIENT);
+      const { reservation } = enforcer.reserve(1.00, TEST_RECIPIENT);
+      expect(enforcer.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(false);
+
+      expect(enforcer.release(reservation!.id)).toBe(true);
+      expect(enforcer.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(true);
+      expect(enforcer.getStatus().daily.spent).toBe(9.00);
+    });
+
+    it('cannot commit a reservation twice', () => {
+      const { reservation } = enforcer.reserve(0.50, TEST_RECIPIENT);
+      expect(enforcer.commit(reservation!.id)).toBe(true);
+      expect(enforcer.commit(reservation!.id)).toBe(false);
+      expect(enforcer.getStatus().daily.spent).toBe(0.50);
+    });
+
+    it('releases reservations automatically after their timeout', () => {
+      const now = Date.now();
+      const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+      try {
+        enforcer.recordPayment(9.00, TEST_RECIPIENT);
+        const { reservation } = enforcer.reserve(1.00, TEST_RECIPIENT, 1000);
+        expect(enforcer.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(false);
+
+        clock.mockReturnValue(now + 1001);
+        expect(enforcer.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(true);
+        expect(enforcer.commit(reservation!.id)).toBe(false);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+
+    it('persists reservations across instances', () => {
+      enforcer.recordPayment(9.00, TEST_RECIPIENT);
+      enforcer.reserve(1.00, TEST_RECIPIENT);
+
+      const reloaded = new PolicyEnforcer({ maxPerTransaction: 1.00, dailyLimit: 10.00 }, TEST_SPENDING_PATH);
+      expect(reloaded.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(false);
+    });
+  });
+
   describe('freeze', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
     it('blocks all payments after freeze', () => {
       enforcer.freeze();
       
       const result = enforcer.checkPayment(0.01, TEST_RECIPIENT);
       expect(result.allowed).toBe(false);
     });
+
+    it('persists the freeze across restarts', () => {
+      enforcer.freeze('Looping agent', 'ops');
+
+      const reloaded = new PolicyEnforcer({ maxPerTransaction: 1.00, dailyLimit: 10.00 }, TEST_SPENDING_PATH);
+      const result = reloaded.checkPayment(0.01, TEST_RECIPIENT);
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toBe('Payments frozen: Looping agent');
+      expect(result.code).toBe('FROZEN');
+      expect(reloaded.getFreezeStatus()).toMatchObject({ reason: 'Looping agent', frozenBy: 'ops' });
+    });
+
+    it('does not change the policy limits', () => {
+      enforcer.freeze();
+      enforcer.unfreeze();
+
+      expect(enforcer.getPolicy().maxPerTransaction).toBe(1.00);
+      expect(enforcer.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('resumes payments only after the unfreeze cooldown', () => {
+      const now = Date.now();
+      enforcer.freeze();
+      expect(enforcer.unfreeze('ops', { cooldownMs: 60_000 })).toBe(true);
+
+      const during = enforcer.checkPayment(0.50, TEST_RECIPIENT);
+      expect(during.allowed).toBe(false);
+      expect(during.reason).toContain('resuming at');
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 61_000);
+      expect(enforcer.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(true);
+      expect(enforcer.getFreezeStatus()).toBeUndefined();
+    });
+
+    it('returns false when unfreezing while not frozen', () => {
+      expect(enforcer.unfreeze()).toBe(false);
+    });
+
+    it('keeps an audit trail of freezes and unfreezes', () => {
+      enforcer.freeze('Suspicious spending', 'alice');
+      enforcer.unfreeze('bob', { reason: 'Investigated' });
+
+      expect(enforcer.getFreezeHistory()).toMatchObject([
+        { action: 'freeze', by: 'alice', reason: 'Suspicious spending' },
+        { action: 'unfreeze', by: 'bob', reason: 'Investigated' },
+      ]);
+    });
+
+    it('freezes automatically after repeated blocked attempts', () => {
+      const auto = new PolicyEnforcer(
+        { maxPerTransaction: 1.00, dailyLimit: 10.00, autoFreeze: { maxBlockedAttempts: 3, windowMinutes: 5 } },
+        TEST_SPENDING_PATH
+      );
+
+      expect(auto.recordBlockedAttempt()).toBeUndefined();
+      expect(auto.recordBlockedAttempt()).toBeUndefined();
+      const frozen = auto.recordBlockedAttempt();
+
+      expect(frozen).toMatchObject({ frozenBy: 'auto', automatic: true });
+      expect(frozen?.reason).toContain('3 blocked payment attempts');
+      expect(auto.checkPayment(0.01, TEST_RECIPIENT).allowed).toBe(false);
+    });
+
+    it('only counts blocked attempts inside the window', () => {
+      const auto = new PolicyEnforcer(
+        { maxPerTransaction: 1.00, dailyLimit: 10.00, autoFreeze: { maxBlockedAttempts: 2, windowMinutes: 5 } },
+        TEST_SPENDING_PATH
+      );
+      const now = Date.now();
+
+      auto.recordBlockedAttempt();
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5 * 60 * 1000 + 1);
+
+      expect(auto.recordBlockedAttempt()).toBeUndefined();
+    });
+  });
+
+  describe('limit windows', () => {
+    const at = (iso: string) => vi.spyOn(Date, 'now').mockReturnValue(Date.parse(iso));
+
+    function windowEnforcer(policy: Partial<PaymentPolicy>) {
+      return new PolicyEnforcer({ maxPerTransaction: 10.00, dailyLimit: 10.00, ...policy }, TEST_SPENDING_PATH);
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('resets calendar limits at UTC midnight by default', () => {
+      const calendar = windowEnforcer({});
+      at('2024-05-01T23:59:00Z');
+      calendar.recordPayment(10.00, TEST_RECIPIENT);
+      expect(calendar.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(false);
+
+      at('2024-05-02T00:01:00Z');
+      expect(calendar.checkPayment(10.00, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('reports when a calendar limit resets', () => {
+      const calendar = windowEnforcer({ timezone: 'America/New_York' });
+      at('2024-05-01T20:00:00Z');
+      calendar.recordPayment(10.00, TEST_RECIPIENT);
+      expect(calendar.checkPayment(1.00, TEST_RECIPIENT)).toMatchObject({
+        code: 'DAILY_LIMIT',
+        limit: 10,
+        current: 10,
+        // Midnight in New York (EDT)
+        retryAfter: Date.parse('2024-05-02T04:00:00Z'),
+      });
+    });
+
+    it('reports when the velocity limit frees up', () => {
+      const rolling = windowEnforcer({ limitWindow: 'rolling', maxTransactionsPerHour: 2 });
+      at('2024-05-01T12:00:00Z');
+      rolling.recordPayment(0.10, TEST_RECIPIENT);
+      at('2024-05-01T12:10:00Z');
+      rolling.recordPayment(0.10, TEST_RECIPIENT);
+      expect(rolling.checkPayment(0.10, TEST_RECIPIENT)).toMatchObject({
+        code: 'VELOCITY',
+        current: 2,
+        retryAfter: Date.parse('2024-05-01T13:00:00Z'),
+      });
+    });
+
+    it('keeps the transaction log only as long as some limit reads it', () => {
+      const logged = () => JSON.parse(readFileSync(TEST_SPENDING_PATH, 'utf-8')).recentTransactions.length;
+      const policies: [Partial<PaymentPolicy>, number][] = [
+        [{}, 1],
+        [{ perRecipientDailyLimit: 5.00 }, 2],
+        [{ rules: [{ id: 'search', effect: 'limit', when: { tags: ['search'] }, monthlyLimit: 5 }] }, 3],
+        [{ limitWindow: 'rolling' }, 3],
+      ];
+
+      for (const [policy, kept] of policies) {
+        if (existsSync(TEST_SPENDING_PATH)) unlinkSync(TEST_SPENDING_PATH);
+        const enforcer = windowEnforcer(policy);
+        at('2024-05-10T09:00:00Z');
+        enforcer.recordPayment(0.10, TEST_RECIPIENT);
+        at('2024-05-15T10:00:00Z');
+        enforcer.recordPayment(0.10, TEST_RECIPIENT);
+        at('2024-05-15T11:30:00Z');
+        enforcer.recordPayment(0.10, TEST_RECIPIENT);
+        expect(logged()).toBe(kept);
+      }
+    });
+
+    it('does not reset rolling limits at midnight', () => {
+      const rolling = windowEnforcer({ limitWindow: 'rolling' });
+      at('2024-05-01T23:59:00Z');
+      rolling.recordPayment(10.00, TEST_RECIPIENT);
+
+      at('2024-05-02T00:01:00Z');
+      expect(rolling.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(false);
+
+      at('2024-05-02T23:58:59Z');
+      expect(rolling.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(false);
+
+      at('2024-05-02T23:59:01Z');
+      expect(rolling.checkPayment(10.00, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('counts rolling weekly and monthly windows from the transaction log', () => {
+      const rolling = windowEnforcer({ limitWindow: 'rolling', weeklyLimit: 15.00, monthlyLimit: 20.00 });
+      at('2024-05-01T12:00:00Z');
+      rolling.recordPayment(10.00, TEST_RECIPIENT);
+
+      at('2024-05-05T12:00:00Z');
+      rolling.recordPayment(5.00, TEST_RECIPIENT);
+      expect(rolling.getStatus().weekly?.spent).toBe(15.00);
+
+      // First payment left the 7-day window but is still in the 30-day one
+      at('2024-05-08T12:00:01Z');
+      const status = rolling.getStatus();
+      expect(status.daily.spent).toBe(0);
+      expect(status.weekly?.spent).toBe(5.00);
+      expect(status.monthly?.spent).toBe(15.00);
+      expect(rolling.checkPayment(6.00, TEST_RECIPIENT).allowed).toBe(false);
+      expect(rolling.checkPayment(5.00, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('applies the rolling window to per-recipient limits', () => {
+      const rolling = windowEnforcer({ limitWindow: 'rolling', perRecipientDailyLimit: 3.00 });
+      at('2024-05-01T23:00:00Z');
+      rolling.recordPayment(3.00, TEST_RECIPIENT);
+
+      at('2024-05-02T01:00:00Z');
+      expect(rolling.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(false);
+      expect(rolling.checkPayment(1.00, '0xOther').allowed).toBe(true);
+    });
+
+    it('resets calendar limits at midnight in the configured timezone', () => {
+      const newYork = windowEnforcer({ timezone: 'America/New_York' });
+      // 23:30 on Dec 31 in New York, already Jan 1 in UTC
+      at('2024-01-01T04:30:00Z');
+      newYork.recordPayment(10.00, TEST_RECIPIENT);
+
+      at('2024-01-01T04:59:00Z');
+      expect(newYork.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(false);
+
+      // 00:30 on Jan 1 in New York
+      at('2024-01-01T05:30:00Z');
+      expect(newYork.checkPayment(10.00, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('keeps a 23-hour DST day as one calendar day', () => {
+      const newYork = windowEnforcer({ timezone: 'America/New_York' });
+      // Clocks spring forward on 2024-03-10; 00:00 EST is 05:00Z
+      at('2024-03-10T05:00:00Z');
+      newYork.recordPayment(10.00, TEST_RECIPIENT);
+
+      // 23:30 EDT the same day — only 22.5 hours later
+      at('2024-03-11T03:30:00Z');
+      expect(newYork.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(false);
+
+      // 00:00 EDT on 2024-03-11
+      at('2024-03-11T04:00:00Z');
+      expect(newYork.checkPayment(10.00, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('keeps a 25-hour DST day as one calendar day', () => {
+      const newYork = windowEnforcer({ timezone: 'America/New_York' });
+      // Clocks fall back on 2024-11-03; 00:00 EDT is 04:00Z
+      at('2024-11-03T04:00:00Z');
+      newYork.recordPayment(10.00, TEST_RECIPIENT);
+
+      // 23:30 EST the same day — 24.5 hours later
+      at('2024-11-04T04:30:00Z');
+      expect(newYork.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(false);
+
+      at('2024-11-04T05:00:00Z');
+      expect(newYork.checkPayment(10.00, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('starts the week on Monday in the configured timezone', () => {
+      const tokyo = windowEnforcer({ dailyLimit: 10.00, weeklyLimit: 10.00, timezone: 'Asia/Tokyo' });
+      // Sunday 2024-05-05 23:00 in Tokyo
+      at('2024-05-05T14:00:00Z');
+      tokyo.recordPayment(10.00, TEST_RECIPIENT);
+
+      // Monday 00:30 in Tokyo, still Sunday in UTC
+      at('2024-05-05T15:30:00Z');
+      expect(tokyo.getStatus().weekly?.spent).toBe(0);
+    });
+  });
+
+  describe('assets', () => {
+    const EURC = findAsset('base', 'EURC')!;
+    const USDC = findAsset('base', 'USDC')!;
+    const eurc = (amount: number) => ({ amountRaw: BigInt(Math.round(amount * 1_000_000)), asset: EURC });
+
+    function assetEnforcer(overrides: Partial<PaymentPolicy> = {}) {
+      return new PolicyEnforcer({ maxPerTransaction: 1.00, dailyLimit: 10.00, ...overrides }, TEST_SPENDING_PATH);
+    }
+
+    it('counts USD stablecoins 1:1', () => {
+      const policy = assetEnforcer();
+      expect(policy.toUsd({ amountRaw: 500_000n, asset: USDC })).toBe(500_000n);
+      expect(policy.checkPayment({ amountRaw: 1_000_000n, asset: USDC }, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('blocks assets without a USD rate', () => {
+      const result = assetEnforcer().checkPayment(eurc(0.5), TEST_RECIPIENT);
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('No USD rate for EURC');
+    });
+
+    it('converts with assetRates, rounding up', () => {
+      const policy = assetEnforcer({ assetRates: { EURC: 1.08 } });
+      expect(policy.toUsd({ amountRaw: 1n, asset: EURC })).toBe(2n);
+      expect(policy.toUsd(eurc(0.9))).toBe(972_000n);
+
+      // 0.95 EURC is $1.026 — over the $1.00 per-transaction limit
+      expect(policy.checkPayment(eurc(0.9), TEST_RECIPIENT).allowed).toBe(true);
+      expect(policy.checkPayment(eurc(0.95), TEST_RECIPIENT).allowed).toBe(false);
+    });
+
+    it('counts converted spending against dollar limits', () => {
+      const policy = assetEnforcer({ assetRates: { EURC: 1.25 } });
+      for (let i = 0; i < 4; i++) policy.recordPayment(eurc(1), TEST_RECIPIENT);
+      expect(policy.getStatus().daily.spent).toBe(5);
+      policy.recordPayment(4.50, TEST_RECIPIENT);
+      expect(policy.checkPayment(eurc(0.5), TEST_RECIPIENT).allowed).toBe(false);
+      expect(policy.checkPayment(0.50, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('enforces per-asset limits in asset units', () => {
+      const policy = assetEnforcer({
+        assetRates: { EURC: 1.08 },
+        assetLimits: { EURC: { maxPerTransaction: 0.5, dailyLimit: 1 } },
+      });
+      expect(policy.checkPayment(eurc(0.6), TEST_RECIPIENT).reason).toContain('0.600000 EURC exceeds per-transaction limit of 0.5 EURC');
+
+      const held = policy.reserve(eurc(0.5), TEST_RECIPIENT);
+      expect(held.allowed).toBe(true);
+      policy.recordPayment(eurc(0.4), TEST_RECIPIENT);
+      const result = policy.checkPayment(eurc(0.2), TEST_RECIPIENT);
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('daily EURC limit');
+
+      // USDC isn't capped by the EURC limit
+      expect(policy.checkPayment(0.20, TEST_RECIPIENT).allowed).toBe(true);
+      expect(policy.getStatus().assets?.EURC).toEqual({ spent: 0.4, limit: 1, remaining: 0.1 });
+    });
+
+    it('requires approval by USD value', () => {
+      const policy = assetEnforcer({ autoApproveUnder: 0.10, assetRates: { EURC: 1.08 } });
+      expect(policy.requiresApproval(eurc(0.09))).toBe(false);
+      expect(policy.requiresApproval(eurc(0.095))).toBe(true);
+    });
+  });
+
+  describe('networks', () => {
+    const on = (network: 'base' | 'ethereum' | 'baseSepolia', amount: number) =>
+      ({ amountRaw: BigInt(Math.round(amount * 1_000_000)), asset: findAsset(network, 'USDC')! });
+
+    function networkEnforcer(overrides: Partial<PaymentPolicy> = {}) {
+      return new PolicyEnforcer({ maxPerTransaction: 5.00, dailyLimit: 50.00, ...overrides }, TEST_SPENDING_PATH);
+    }
+
+    it('only pays on allowed networks', () => {
+      const policy = networkEnforcer({ allowedNetworks: ['eip155:84532'] });
+      expect(policy.checkPayment(on('baseSepolia', 1), TEST_RECIPIENT).allowed).toBe(true);
+      expect(policy.checkPayment(on('base', 1), TEST_RECIPIENT).reason).toBe('Network base is not in allowed networks');
+    });
+
+    it('blocks denied networks', () => {
+      const policy = networkEnforcer({ allowedNetworks: ['base', 'ethereum'], blockedNetworks: ['ethereum'] });
+      expect(policy.checkPayment(on('ethereum', 1), TEST_RECIPIENT).reason).toBe('Network ethereum is blocked');
+      expect(policy.checkPayment(on('base', 1), TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('enforces per-network limits separately', () => {
+      const policy = networkEnforcer({
+        networkLimits: { base: { maxPerTransaction: 2, dailyLimit: 3 }, 'eip155:1': { monthlyLimit: 1 } },
+      });
+      expect(policy.checkPayment(on('base', 2.5), TEST_RECIPIENT).reason).toContain('per-transaction limit on base');
+
+      policy.recordPayment(on('base', 2), TEST_RECIPIENT);
+      policy.reserve(on('base', 1), TEST_RECIPIENT);
+      expect(policy.checkPayment(on('base', 0.5), TEST_RECIPIENT).reason).toContain('daily limit on base');
+      expect(policy.checkPayment(on('baseSepolia', 2.5), TEST_RECIPIENT).allowed).toBe(true);
+
+      policy.recordPayment(on('ethereum', 1), TEST_RECIPIENT);
+      expect(policy.checkPayment(on('ethereum', 0.01), TEST_RECIPIENT).reason).toContain('monthly limit on ethereum');
+    });
+
+    it('reports usage per network', () => {
+      const policy = networkEnforcer({ networkLimits: { base: { dailyLimit: 3 } } });
+      policy.recordPayment(on('base', 1), TEST_RECIPIENT);
+      policy.recordPayment(on('baseSepolia', 0.25), TEST_RECIPIENT);
+
+      const { networks } = policy.getStatus();
+      expect(networks.base).toEqual({
+        daily: { spent: 1, limit: 3, remaining: 2 },
+        monthly: { spent: 1, limit: undefined, remaining: undefined },
+      });
+      expect(networks.baseSepolia.daily.spent).toBe(0.25);
+      expect(networks.ethereum).toBeUndefined();
+    });
+
+    it('resets per-network daily totals at midnight but keeps the month', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-05-10T12:00:00Z'));
+      const policy = networkEnforcer({ networkLimits: { base: { dailyLimit: 3, monthlyLimit: 4 } } });
+      policy.recordPayment(on('base', 3), TEST_RECIPIENT);
+
+      vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-05-11T00:30:00Z'));
+      expect(policy.getStatus().networks.base.daily.spent).toBe(0);
+      expect(policy.checkPayment(on('base', 1), TEST_RECIPIENT).allowed).toBe(true);
+      expect(policy.checkPayment(on('base', 1.5), TEST_RECIPIENT).reason).toContain('monthly limit on base');
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('domain and URL rules', () => {
+    const URL_A = 'https://api.weather.example/v1/forecast';
+    const URL_B = 'https://api.weather.example/v1/history';
+
+    function urlEnforcer(overrides: Partial<PaymentPolicy> = {}) {
+      return new PolicyEnforcer({ maxPerTransaction: 5.00, dailyLimit: 50.00, ...overrides }, TEST_SPENDING_PATH);
+    }
+
+    it('blocks denied domains and cites the entry', () => {
+      const policy = urlEnforcer({ blockedDomains: ['weather.example'] });
+      const result = policy.checkPayment(0.01, TEST_RECIPIENT, { url: URL_A });
+      expect(result).toMatchObject({
+        allowed: false,
+        reason: 'Domain api.weather.example is blocked (weather.example)',
+        rule: 'weather.example',
+      });
+      expect(policy.checkPayment(0.01, TEST_RECIPIENT, { url: 'https://other.example/x' }).allowed).toBe(true);
+    });
+
+    it('caps the price of matching endpoints', () => {
+      const policy = urlEnforcer({ urlRules: [{ name: 'forecast', url: 'https://api.weather.example/v1/forecast*', maxPerRequest: 0.05 }] });
+      const result = policy.checkPayment(0.10, TEST_RECIPIENT, { url: URL_A });
+      expect(result.rule).toBe('forecast');
+      expect(result.reason).toContain('exceeds max per request of $0.05');
+      expect(policy.checkPayment(0.10, TEST_RECIPIENT, { url: URL_B }).allowed).toBe(true);
+    });
+
+    it('caps daily spending per domain across endpoints', () => {
+      const policy = urlEnforcer({ urlRules: [{ domain: 'weather.example', dailyLimit: 1.00 }] });
+      policy.recordPayment(0.60, TEST_RECIPIENT, { url: URL_A });
+      policy.reserve(0.30, TEST_RECIPIENT, undefined, { url: URL_B });
+
+      const result = policy.checkPayment(0.20, TEST_RECIPIENT, { url: URL_B });
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Current: $0.90, Limit: $1.00');
+      expect(result.rule).toBe('weather.example');
+      expect(policy.checkPayment(0.20, TEST_RECIPIENT, { url: 'https://other.example/x' }).allowed).toBe(true);
+    });
+
+    it('blocks matching URLs outright', () => {
+      const policy = urlEnforcer({ urlRules: [{ name: 'no-history', urlRegex: '/history$', block: true }] });
+      expect(policy.checkPayment(0.01, TEST_RECIPIENT, { url: URL_B }).reason).toBe(`URL rule "no-history" blocks ${URL_B}`);
+      expect(policy.checkPayment(0.01, TEST_RECIPIENT, { url: URL_A }).allowed).toBe(true);
+    });
+
+    it('skips URL rules when no URL is given', () => {
+      const policy = urlEnforcer({ blockedDomains: ['weather.example'] });
+      expect(policy.checkPayment(0.01, TEST_RECIPIENT).allowed).toBe(true);
+    });
+  });
+
+  describe('policy rules', () => {
+    it('lets an allow rule admit a recipient outside the whitelist', () => {
+      const policy = new PolicyEnforcer({
+        maxPerTransaction: 1.00,
+        dailyLimit: 10.00,
+        approvedRecipients: ['0xApproved1'],
+        rules: [{ id: 'partner', effect: 'allow', when: { recipients: ['0xPartner'] } }],
+      }, TEST_SPENDING_PATH);
+
+      expect(policy.checkPayment(0.50, '0xPartner').allowed).toBe(true);
+      expect(policy.checkPayment(0.50, '0xStranger').rule).toBe('approvedRecipients');
+      // Limits still apply to allowed payments
+      expect(policy.checkPayment(2.00, '0xPartner').rule).toBe('maxPerTransaction');
+    });
+
+    it('counts tagged spending, settled and reserved, toward tag limits', () => {
+      const policy = new PolicyEnforcer({
+        maxPerTransaction: 5.00,
+        dailyLimit: 50.00,
+        rules: [{ id: 'research', effect: 'limit', when: { tags: ['research'] }, weeklyLimit: 3.00 }],
+      }, TEST_SPENDING_PATH);
+
+      policy.recordPayment(2.00, TEST_RECIPIENT, { tags: ['research'] });
+      policy.reserve(0.50, TEST_RECIPIENT, undefined, { tags: ['research'] });
+      policy.recordPayment(4.00, TEST_RECIPIENT);
+
+      const result = policy.checkPayment(1.00, TEST_RECIPIENT, { tags: ['research'] });
+      expect(result).toMatchObject({ allowed: false, rule: 'research' });
+      expect(result.reason).toContain('Current: $2.50, Limit: $3.00');
+      expect(policy.checkPayment(1.00, TEST_RECIPIENT).allowed).toBe(true);
+    });
+
+    it('explains decisions made from policy fields', () => {
+      const result = enforcer.checkPayment(0.50, '0xBlocked');
+      expect(result.rule).toBe('blockedRecipients');
+      expect(result.code).toBe('RECIPIENT_BLOCKED');
+      expect(result.evaluated!.map(e => [e.rule, e.outcome])).toEqual([
+        ['maxPerTransaction', 'passed'],
+        ['dailyLimit', 'passed'],
+        ['maxTransactionsPerHour', 'passed'],
+        ['blockedRecipients', 'denied'],
+        ['approvedRecipients', 'skipped'],
+      ]);
+    });
   });
 });
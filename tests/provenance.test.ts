@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { describeRequest, describeResponse, redactHeaders, trackResponseBody } from '../src/provenance';
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('describeRequest', () => {
+  it('records the method and a hash of the body', async () => {
+    const body = '{"city":"Lisbon"}';
+
+    expect(await describeRequest(undefined)).toEqual({ method: 'GET' });
+    expect(await describeRequest({ method: 'post', body })).toEqual({ method: 'POST', bodyHash: sha256(body) });
+    expect(await describeRequest({ method: 'POST', body: new TextEncoder().encode(body) })).toEqual({ method: 'POST', bodyHash: sha256(body) });
+    expect(await describeRequest({ method: 'POST', body: new Blob([body]) })).toEqual({ method: 'POST', bodyHash: sha256(body) });
+    expect(await describeRequest({ method: 'POST', body }, { bodies: 'none' })).toEqual({ method: 'POST' });
+  });
+
+  it('keeps redacted headers and body text when asked', async () => {
+    const request = await describeRequest({
+      method: 'POST',
+      body: '{"apiKey":"secret","q":"rain"}',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer abc', 'X-Session': 's1' },
+    }, {
+      headers: true,
+      redactHeaders: ['X-Session'],
+      bodies: 'full',
+      redactBody: body => body.replace(/"apiKey":"[^"]*"/, '"apiKey":"[redacted]"'),
+    });
+
+    expect(request.body).toBe('{"apiKey":"[redacted]","q":"rain"}');
+    expect(request.headers).toEqual({
+      authorization: '[redacted]',
+      'content-type': 'application/json',
+      'x-session': '[redacted]',
+    });
+  });
+});
+
+describe('describeResponse', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records status, content hash, size and latency, leaving the body readable', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_250);
+    const response = new Response('{"temp":21}', { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+    expect(await describeResponse(response, 1_000)).toEqual({
+      status: 200,
+      contentType: 'application/json',
+      contentHash: sha256('{"temp":21}'),
+      contentLength: 11,
+      latencyMs: 250,
+    });
+    expect(await response.text()).toBe('{"temp":21}');
+  });
+
+  it('truncates body text and skips binary bodies', async () => {
+    const text = new Response('x'.repeat(100), { status: 500, headers: { 'Content-Type': 'text/plain' } });
+    const binary = new Response(new Uint8Array([1, 2, 3]), { headers: { 'Content-Type': 'image/png' } });
+
+    expect((await describeResponse(text, Date.now(), { bodies: 'full', maxBodyBytes: 10 })).body).toBe('x'.repeat(10));
+    const image = await describeResponse(binary, Date.now(), { bodies: 'full' });
+    expect(image.body).toBeUndefined();
+    expect(image.contentLength).toBe(3);
+  });
+});
+
+describe('trackResponseBody', () => {
+  it('reports the hash and text once the caller has read the body', async () => {
+    const onBody = vi.fn();
+    const response = new Response('x'.repeat(100), { status: 201, headers: { 'Content-Type': 'text/plain' } });
+    const tracked = trackResponseBody(response, { bodies: 'full', maxBodyBytes: 10 }, onBody);
+
+    expect(tracked.status).toBe(201);
+    expect(onBody).not.toHaveBeenCalled();
+    expect(await tracked.text()).toBe('x'.repeat(100));
+    expect(onBody).toHaveBeenCalledWith({ contentHash: sha256('x'.repeat(100)), contentLength: 100, body: 'x'.repeat(10) });
+  });
+
+  it('leaves bodies alone with bodies: none', () => {
+    const response = new Response('{}');
+    expect(trackResponseBody(response, { bodies: 'none' }, vi.fn())).toBe(response);
+  });
+});
+
+describe('redactHeaders', () => {
+  it('redacts credentials and payment headers by default', () => {
+    expect(redactHeaders({ Cookie: 'a=1', 'Payment-Signature': 'sig', Accept: 'text/html' })).toEqual({
+      accept: 'text/html',
+      cookie: '[redacted]',
+      'payment-signature': '[redacted]',
+    });
+  });
+});
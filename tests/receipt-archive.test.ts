@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { gunzipSync } from 'zlib';
+import { ReceiptStore } from '../src/receipts';
+import { JsonlStorage, MemoryStorage } from '../src/storage';
+import { ReceiptArchive, receiptsToArchive } from '../src/receipt-archive';
+import { PaymentReceipt } from '../src/config';
+import { createReceiptSigner, ReceiptLogCheckpoint } from '../src/receipt-log';
+
+const TEST_DIR = './test-archive';
+const NOW = Date.parse('2026-03-15T12:00:00.000Z');
+
+function receipt(id: string, timestamp: string, status: PaymentReceipt['status'] = 'success'): PaymentReceipt {
+  return {
+    id,
+    timestamp,
+    url: 'https://api.example.com/data',
+    amount: '0.100000',
+    amountRaw: '100000',
+    currency: 'USDC',
+    network: 'base',
+    recipient: '0x1234',
+    status,
+  };
+}
+
+describe('receiptsToArchive', () => {
+  const receipts = [
+    receipt('jan', '2026-01-20T00:00:00.000Z'),
+    receipt('pending', '2026-01-21T00:00:00.000Z', 'pending'),
+    { ...receipt('disputed', '2026-01-22T00:00:00.000Z', 'paid_failed'), dispute: { status: 'open', openedAt: '2026-01-22T00:00:00.000Z', reason: 'HTTP 500' } },
+    receipt('feb', '2026-02-20T00:00:00.000Z', 'blocked'),
+    receipt('mar', '2026-03-10T00:00:00.000Z'),
+    receipt('today', '2026-03-15T01:00:00.000Z'),
+  ];
+
+  it('picks settled receipts older than hotDays', () => {
+    expect(receiptsToArchive(receipts, { archiveDir: TEST_DIR, hotDays: 30 }, NOW).map(r => r.id)).toEqual(['jan']);
+  });
+
+  it('picks the oldest settled receipts until hot storage fits, never today\'s', () => {
+    const total = receipts.reduce((sum, r) => sum + Buffer.byteLength(JSON.stringify(r)), 0);
+    const ids = (maxHotBytes: number) => receiptsToArchive(receipts, { archiveDir: TEST_DIR, maxHotBytes }, NOW).map(r => r.id);
+
+    expect(ids(total)).toEqual([]);
+    expect(ids(total - 1)).toEqual(['jan']);
+    expect(ids(0)).toEqual(['jan', 'feb', 'mar']);
+  });
+});
+
+describe('Receipt retention', () => {
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    vi.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function seed(storage: MemoryStorage | JsonlStorage) {
+    for (const r of [
+      receipt('jan-1', '2026-01-05T00:00:00.000Z'),
+      receipt('jan-2', '2026-01-25T00:00:00.000Z', 'blocked'),
+      receipt('feb-1', '2026-02-10T00:00:00.000Z'),
+      receipt('mar-1', '2026-03-14T00:00:00.000Z'),
+    ]) {
+      storage.putRecord('receipts', r);
+    }
+  }
+
+  it('moves old receipts into compressed monthly archives', () => {
+    const storage = new JsonlStorage(TEST_DIR);
+    seed(storage);
+    const store = new ReceiptStore(storage, undefined, { archiveDir: `${TEST_DIR}/archive`, hotDays: 7 });
+
+    expect(store.compact()).toEqual({ archived: 3, logEntries: 0, months: ['2026-01', '2026-02'], hot: 1 });
+    expect(store.getAll().map(r => r.id)).toEqual(['mar-1']);
+    expect(readdirSync(`${TEST_DIR}/archive`).sort()).toEqual(['receipts-2026-01.jsonl.gz', 'receipts-2026-02.jsonl.gz']);
+
+    const january = gunzipSync(readFileSync(`${TEST_DIR}/archive/receipts-2026-01.jsonl.gz`)).toString();
+    expect(january.trim().split('\n').map(line => JSON.parse(line).id)).toEqual(['jan-1', 'jan-2']);
+  });
+
+  it('queries, aggregates and exports across archives', () => {
+    const storage = new MemoryStorage();
+    seed(storage);
+    const store = new ReceiptStore(storage, undefined, { archiveDir: TEST_DIR, hotDays: 7 });
+    store.compact();
+
+    expect(store.query().receipts.map(r => r.id)).toEqual(['mar-1', 'feb-1', 'jan-2', 'jan-1']);
+    expect(store.query({ from: '2026-02-01', to: '2026-03-01' }).receipts.map(r => r.id)).toEqual(['feb-1']);
+    expect(store.aggregate('month')).toEqual([
+      { key: '2026-01', total: 0.1, totalRaw: '100000', count: 1 },
+      { key: '2026-02', total: 0.1, totalRaw: '100000', count: 1 },
+      { key: '2026-03', total: 0.1, totalRaw: '100000', count: 1 },
+    ]);
+    expect(store.export({ columns: ['id'] })).toBe('id\r\njan-1\r\njan-2\r\nfeb-1\r\nmar-1\r\n');
+  });
+
+  it('streams exports one archived month at a time', () => {
+    const storage = new MemoryStorage();
+    seed(storage);
+    const store = new ReceiptStore(storage, undefined, { archiveDir: TEST_DIR, hotDays: 7 });
+    store.compact();
+    const read = vi.spyOn(ReceiptArchive.prototype, 'read');
+
+    const chunks = store.exportStream({ format: 'jsonl', columns: ['id'] });
+    expect(chunks.next().value).toBe('{"id":"jan-1"}\n');
+    expect(read.mock.calls).toEqual([['2026-01']]);
+    expect([...chunks]).toEqual(['{"id":"jan-2"}\n', '{"id":"feb-1"}\n', '{"id":"mar-1"}\n']);
+    expect(read.mock.calls).toEqual([['2026-01'], ['2026-02']]);
+  });
+
+  it('merges later compactions into an existing month', () => {
+    const archive = new ReceiptArchive(TEST_DIR);
+    archive.append([receipt('a', '2026-01-20T00:00:00.000Z')]);
+    archive.append([receipt('b', '2026-01-05T00:00:00.000Z'), { ...receipt('a', '2026-01-20T00:00:00.000Z'), status: 'failed' }]);
+
+    expect(archive.months()).toEqual(['2026-01']);
+    expect(archive.read('2026-01').map(r => [r.id, r.status])).toEqual([['b', 'success'], ['a', 'failed']]);
+  });
+
+  it('compacts on its own every compactEvery receipts', () => {
+    const storage = new MemoryStorage();
+    seed(storage);
+    const store = new ReceiptStore(storage, undefined, { archiveDir: TEST_DIR, hotDays: 7, compactEvery: 2 });
+
+    store.recordBlocked('https://a.example', '1', '1000000', '0x1234', 'base', 'Over limit');
+    expect(store.getAll()).toHaveLength(5);
+    store.recordBlocked('https://a.example', '1', '1000000', '0x1234', 'base', 'Over limit');
+    expect(store.getAll()).toHaveLength(3);
+  });
+
+  it('keeps the receipt log verifiable after archiving', () => {
+    const store = new ReceiptStore(new MemoryStorage(), undefined, { archiveDir: TEST_DIR, hotDays: 7 });
+    store.createReceipt(receipt('x', '2026-01-05T00:00:00.000Z'));
+    store.compact();
+
+    expect(store.getAll()).toEqual([]);
+    expect(store.verifyLog().valid).toBe(true);
+  });
+
+  it('archives the receipt log and verifies the hot log from a signed checkpoint', () => {
+    const storage = new MemoryStorage();
+    const signer = createReceiptSigner('0x' + '1'.repeat(64));
+    const store = new ReceiptStore(storage, signer, { archiveDir: TEST_DIR, hotDays: 7 });
+    store.createReceipt(receipt('old', '2026-01-05T00:00:00.000Z'));
+    const kept = store.createReceipt(receipt('kept', '2026-03-15T10:00:00.000Z', 'pending'));
+    store.updateReceipt(kept.id, { status: 'success' });
+
+    expect(store.compact()).toMatchObject({ archived: 1, logEntries: 3, hot: 1 });
+    expect(storage.readRecords('receipts-log')).toEqual([]);
+    expect(readdirSync(TEST_DIR).filter(name => name.startsWith('receipts-log-'))).toHaveLength(1);
+    expect(store.verifyLog(signer.address)).toEqual({ valid: true, entries: 0 });
+    expect(store.verifyLog(signer.address, { archived: true })).toEqual({ valid: true, entries: 3 });
+
+    storage.putRecord('receipts', { ...store.getById('kept')!, amount: '9.000000' });
+    expect(store.verifyLog(signer.address).broken?.problem).toBe('receipt-mismatch');
+    store.updateReceipt('kept', { amount: '0.100000' });
+    expect(store.verifyLog(signer.address)).toEqual({ valid: true, entries: 1 });
+
+    storage.updateDocument<ReceiptLogCheckpoint>('receipts-log-checkpoint', c => ({ ...c!, receipts: {} }));
+    expect(store.verifyLog(signer.address).broken?.problem).toBe('checkpoint');
+  });
+
+  it('requires a backend that can delete records', () => {
+    const withoutDelete = Object.assign(new MemoryStorage(), { deleteRecords: undefined });
+
+    expect(() => new ReceiptStore(withoutDelete, undefined, { archiveDir: TEST_DIR })).toThrow('can delete records');
+    expect(() => new ReceiptStore(new MemoryStorage()).compact()).toThrow('Receipt retention is not configured');
+    expect(existsSync(TEST_DIR)).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReceiptStore } from '../src/receipts';
+import { MemoryStorage } from '../src/storage';
+import { exportReceipts } from '../src/receipt-export';
+import { PaymentReceipt } from '../src/config';
+
+function receipt(overrides: Partial<PaymentReceipt> = {}): PaymentReceipt {
+  return {
+    id: 'r1',
+    timestamp: '2026-03-05T10:30:00.000Z',
+    url: 'https://api.example.com/data',
+    amount: '0.100000',
+    amountRaw: '100000',
+    currency: 'USDC',
+    network: 'base',
+    recipient: '0x1234',
+    txHash: '0xabc',
+    status: 'success',
+    ...overrides,
+  };
+}
+
+function text(receipts: PaymentReceipt[], options: Parameters<typeof exportReceipts>[1]) {
+  return [...exportReceipts(receipts, options)].join('');
+}
+
+describe('exportReceipts', () => {
+  it('writes RFC 4180 CSV', () => {
+    const csv = text([receipt({ url: 'https://api.example.com/q?a="b",c\nd', tags: ['x', 'y'] })], {
+      columns: ['id', 'url', 'amountRaw', 'tags', 'host'],
+    });
+
+    expect(csv).toBe('id,url,amountRaw,tags,host\r\nr1,"https://api.example.com/q?a=""b"",c\nd",100000,x;y,api.example.com\r\n');
+  });
+
+  it('writes JSON Lines with whole receipts or selected columns', () => {
+    const receipts = [receipt(), receipt({ id: 'r2', valueUsdRaw: '108000', currency: 'EURC' })];
+
+    const lines = text(receipts, { format: 'jsonl' }).trimEnd().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual(receipts);
+
+    const picked = text(receipts, { format: 'jsonl', columns: ['id', 'valueUsd'] }).trimEnd().split('\n');
+    expect(picked.map(line => JSON.parse(line))).toEqual([
+      { id: 'r1', valueUsd: '0.100000' },
+      { id: 'r2', valueUsd: '0.108000' },
+    ]);
+  });
+
+  it('writes successful payments to an OFX statement', () => {
+    const ofx = text([
+      receipt(),
+      receipt({ id: 'r2', status: 'blocked', txHash: undefined }),
+      receipt({ id: 'r3', timestamp: '2026-03-06T08:00:00.000Z', url: 'https://a.example/?x=1&y=<2>', amountRaw: '250000' }),
+    ], { format: 'ofx', account: '0xWallet' });
+
+    expect(ofx).toContain('<ACCTID>0xWallet</ACCTID>');
+    expect(ofx).toContain('<DTSTART>20260305103000.000[0:GMT]</DTSTART><DTEND>20260306080000.000[0:GMT]</DTEND>');
+    expect(ofx).toContain('<TRNAMT>-0.100000</TRNAMT><FITID>r1</FITID><NAME>api.example.com</NAME><MEMO>https://api.example.com/data (tx 0xabc)</MEMO>');
+    expect(ofx).toContain('<MEMO>https://a.example/?x=1&amp;y=&lt;2&gt; (tx 0xabc)</MEMO>');
+    expect(ofx).not.toContain('<FITID>r2</FITID>');
+    expect(ofx).toContain('<BALAMT>-0.350000</BALAMT>');
+  });
+
+  it('writes successful payments to QIF', () => {
+    const qif = text([receipt({ scope: 'research' }), receipt({ id: 'r2', status: 'failed' })], { format: 'qif' });
+
+    expect(qif).toBe([
+      '!Type:Bank',
+      'D03/05/2026',
+      'T-0.100000',
+      'Papi.example.com',
+      'Mhttps://api.example.com/data (tx 0xabc)',
+      'Lresearch',
+      '^',
+      '',
+    ].join('\n'));
+  });
+
+  it('lists paid-but-failed payments in statements, flagged', () => {
+    const qif = text([receipt({ status: 'paid_failed', failureReason: 'HTTP 502 after payment' })], { format: 'qif' });
+
+    expect(qif).toContain('MFAILED: HTTP 502 after payment - https://api.example.com/data (tx 0xabc)\n');
+  });
+
+  it('rejects unknown formats and columns', () => {
+    expect(() => exportReceipts([], { format: 'xlsx' as never })).toThrow('Unknown export format "xlsx"');
+    expect(() => exportReceipts([], { columns: ['id', 'nope' as never] })).toThrow('Unknown export column "nope"');
+  });
+});
+
+describe('ReceiptStore export', () => {
+  let storage: MemoryStorage;
+  let store: ReceiptStore;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    store = new ReceiptStore(storage);
+  });
+
+  it('exports receipts matching a date range and status, oldest first', () => {
+    for (const [id, timestamp, status] of [
+      ['a', '2026-01-31T23:59:59.000Z', 'success'],
+      ['b', '2026-02-01T00:00:00.000Z', 'success'],
+      ['c', '2026-02-14T12:00:00.000Z', 'blocked'],
+      ['d', '2026-02-28T12:00:00.000Z', 'success'],
+      ['e', '2026-03-01T00:00:00.000Z', 'success'],
+    ] as const) {
+      storage.putRecord('receipts', receipt({ id, timestamp, status }));
+    }
+
+    const csv = store.export({ from: '2026-02-01', to: '2026-03-01', status: 'success', columns: ['id'] });
+    expect(csv).toBe('id\r\nb\r\nd\r\n');
+  });
+
+  it('streams the export a line at a time', () => {
+    storage.putRecord('receipts', receipt());
+    storage.putRecord('receipts', receipt({ id: 'r2' }));
+
+    const chunks = [...store.exportStream({ format: 'jsonl' })];
+    expect(chunks).toHaveLength(2);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+import { ReceiptStore } from '../src/receipts';
+import { MemoryStorage } from '../src/storage';
+import { createReceiptSigner, hashEntry, verifyReceiptLog, ReceiptLogEntry } from '../src/receipt-log';
+import { PaymentReceipt } from '../src/config';
+
+const PRIVATE_KEY = '0x' + '1'.repeat(64);
+const ADDRESS = privateKeyToAccount(PRIVATE_KEY as `0x${string}`).address;
+
+function receipt(url: string) {
+  return {
+    url,
+    amount: '0.100000',
+    amountRaw: '100000',
+    currency: 'USDC',
+    network: 'base' as const,
+    recipient: '0x1234',
+  };
+}
+
+describe('Receipt log', () => {
+  let storage: MemoryStorage;
+  let store: ReceiptStore;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    store = new ReceiptStore(storage, createReceiptSigner(PRIVATE_KEY));
+  });
+
+  /** Rewrite the stored log entries */
+  function tamper(change: (entries: ReceiptLogEntry[]) => ReceiptLogEntry[]) {
+    const replacement = new MemoryStorage();
+    for (const entry of change(store.getLog())) replacement.putRecord('receipts-log', entry);
+    for (const r of storage.readRecords<PaymentReceipt>('receipts')) replacement.putRecord('receipts', r);
+    replacement.updateDocument('receipts-log-head', () => storage.readDocument('receipts-log-head'));
+    return new ReceiptStore(replacement);
+  }
+
+  it('signs with the wallet key', () => {
+    expect(createReceiptSigner(PRIVATE_KEY).address).toBe(ADDRESS);
+  });
+
+  it('logs every version of a receipt', () => {
+    const created = store.createReceipt(receipt('https://a.example'));
+    store.updateReceipt(created.id, { status: 'success', txHash: '0xabc' });
+
+    const log = store.getLog(created.id);
+    expect(log.map(e => e.receipt.status)).toEqual(['pending', 'success']);
+    expect(log[1].prevHash).toBe(log[0].hash);
+    expect(log[1].signer).toBe(ADDRESS);
+    expect(store.verifyLog(ADDRESS)).toEqual({ valid: true, entries: 2 });
+  });
+
+  describe('verifyReceiptLog', () => {
+    beforeEach(() => {
+      for (const url of ['https://a.example', 'https://b.example', 'https://c.example']) {
+        store.createReceipt(receipt(url));
+      }
+    });
+
+    it('detects an edited entry', () => {
+      const edited = tamper(entries => {
+        entries[1].receipt.amount = '0.000001';
+        return entries;
+      });
+      expect(edited.verifyLog(ADDRESS).broken).toMatchObject({ problem: 'hash', seq: 1 });
+    });
+
+    it('detects an edited entry that was re-hashed without the key', () => {
+      const log = store.getLog();
+      log[2].receipt.amount = '0.000001';
+      log[2].hash = hashEntry(log[2]);
+
+      expect(verifyReceiptLog(log, { address: ADDRESS }).broken).toMatchObject({ problem: 'signature', seq: 2 });
+    });
+
+    it('detects deleted and reordered entries', () => {
+      const log = store.getLog();
+      expect(verifyReceiptLog([log[0], log[2]]).broken).toMatchObject({ problem: 'sequence', seq: 1 });
+      expect(verifyReceiptLog([log[1], log[0], log[2]]).broken).toMatchObject({ problem: 'sequence', seq: 0 });
+    });
+
+    it('detects a truncated tail', () => {
+      const truncated = tamper(entries => entries.slice(0, 2));
+      expect(truncated.verifyLog(ADDRESS).broken).toMatchObject({ problem: 'truncated', seq: 2 });
+    });
+
+    it('detects receipts edited outside the log', () => {
+      const [first] = store.getAll();
+      storage.putRecord('receipts', { ...first, amount: '0.000001' });
+
+      expect(store.verifyLog(ADDRESS).broken).toMatchObject({ problem: 'receipt-mismatch', receiptId: first.id });
+    });
+
+    it('detects entries signed by another wallet', () => {
+      const other = new ReceiptStore(new MemoryStorage(), createReceiptSigner('0x' + '2'.repeat(64)));
+      other.createReceipt(receipt('https://a.example'));
+
+      expect(other.verifyLog(ADDRESS).broken).toMatchObject({ problem: 'signer', seq: 0 });
+    });
+  });
+});
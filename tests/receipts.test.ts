@@ -1,22 +1,26 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { ReceiptStore } from '../src/receipts';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ReceiptQuery, ReceiptStore } from '../src/receipts';
+import { PaymentReceipt } from '../src/config';
+import { formatAtomic } from '../src/money';
+import { MemoryStorage } from '../src/storage';
 import { unlinkSync, existsSync } from 'fs';
 
 const TEST_RECEIPTS_PATH = './test-receipts.json';
+const TEST_FILES = [TEST_RECEIPTS_PATH, './test-receipts-log.jsonl', './test-receipts-log-head.json'];
 
 describe('ReceiptStore', () => {
   let store: ReceiptStore;
 
   beforeEach(() => {
-    if (existsSync(TEST_RECEIPTS_PATH)) {
-      unlinkSync(TEST_RECEIPTS_PATH);
+    for (const file of TEST_FILES) {
+      if (existsSync(file)) unlinkSync(file);
     }
     store = new ReceiptStore(TEST_RECEIPTS_PATH);
   });
 
   afterEach(() => {
-    if (existsSync(TEST_RECEIPTS_PATH)) {
-      unlinkSync(TEST_RECEIPTS_PATH);
+    for (const file of TEST_FILES) {
+      if (existsSync(file)) unlinkSync(file);
     }
   });
 
@@ -120,6 +124,30 @@ describe('ReceiptStore', () => {
     });
   });
 
+  describe('caching', () => {
+    it('re-reads hot receipts only after storage changes', () => {
+      const storage = new MemoryStorage();
+      const cached = new ReceiptStore(storage);
+      const readRecords = vi.spyOn(storage, 'readRecords');
+      const receipt = new ReceiptStore(storage).createReceipt({
+        url: 'https://api.example.com',
+        amount: '0.01',
+        amountRaw: '10000',
+        currency: 'USDC',
+        network: 'base',
+        recipient: '0x1234',
+      });
+
+      cached.getAll();
+      cached.getById(receipt.id);
+      cached.getRecent();
+      expect(readRecords.mock.calls.filter(([key]) => key === 'receipts')).toHaveLength(1);
+
+      storage.putRecord('receipts', { ...receipt, status: 'success' });
+      expect(cached.getById(receipt.id)!.status).toBe('success');
+    });
+  });
+
   describe('exportCsv', () => {
     it('exports receipts as CSV', () => {
       store.createReceipt({
@@ -137,4 +165,130 @@ describe('ReceiptStore', () => {
       expect(csv).toContain('1.50');
     });
   });
+
+  describe('getTodayTotal', () => {
+    it('sums successful receipts exactly', () => {
+      for (let i = 0; i < 30; i++) {
+        store.createReceipt({
+          url: 'https://api.example.com/data',
+          amount: '0.100000',
+          amountRaw: '100000',
+          currency: 'USDC',
+          network: 'base',
+          recipient: '0x1234',
+          status: 'success',
+        });
+      }
+
+      // Adding 0.1 thirty times as floats gives 3.0000000000000013
+      expect(store.getTodayTotal()).toBe(3);
+      expect(store.getTodayTotalRaw()).toBe(3_000_000n);
+    });
+
+    it('counts non-USD receipts at their recorded USD value', () => {
+      store.createReceipt({
+        url: 'https://api.example.com/data',
+        amount: '1.000000',
+        amountRaw: '1000000',
+        currency: 'EURC',
+        valueUsdRaw: '1080000',
+        network: 'base',
+        recipient: '0x1234',
+        status: 'success',
+      });
+
+      expect(store.getTodayTotalRaw()).toBe(1_080_000n);
+    });
+  });
+
+  describe('query', () => {
+    function seed() {
+      const add = (timestamp: string, url: string, amountRaw: string, extra: Partial<PaymentReceipt> = {}) => {
+        const receipt = store.createReceipt({
+          url,
+          amount: formatAtomic(BigInt(amountRaw)),
+          amountRaw,
+          currency: 'USDC',
+          network: 'base',
+          recipient: '0xAAAA',
+          status: 'success',
+          ...extra,
+        });
+        store.updateReceipt(receipt.id, { timestamp });
+      };
+      add('2026-01-01T10:00:00.000Z', 'https://api.weather.example/now', '100000', { tags: ['weather'] });
+      add('2026-01-01T18:00:00.000Z', 'https://news.example/today', '500000', { recipient: '0xBBBB' });
+      add('2026-01-02T09:00:00.000Z', 'https://api.weather.example/week', '250000', { tags: ['weather', 'daily'] });
+      add('2026-01-02T12:00:00.000Z', 'https://news.example/today', '2000000', { status: 'blocked', recipient: '0xBBBB' });
+      add('2026-01-03T08:00:00.000Z', 'https://news.example/today', '300000', { network: 'polygon', recipient: '0xbbbb' });
+    }
+
+    it('filters by date range, status, network and recipient', () => {
+      seed();
+      const times = (query: ReceiptQuery) => store.query(query).receipts.map(r => r.timestamp.slice(0, 13));
+
+      expect(times({ from: '2026-01-02', to: '2026-01-03' })).toEqual(['2026-01-02T12', '2026-01-02T09']);
+      expect(store.query({ status: 'blocked' }).total).toBe(1);
+      expect(store.query({ network: ['polygon'] }).total).toBe(1);
+      expect(store.query({ recipient: '0xBbBb' }).total).toBe(3);
+    });
+
+    it('filters by host, amount and tags', () => {
+      seed();
+
+      expect(store.query({ host: 'weather.example' }).total).toBe(2);
+      expect(store.query({ minAmount: 0.25, maxAmount: 0.5 }).total).toBe(3);
+      expect(store.query({ tags: ['daily'] }).receipts[0].url).toBe('https://api.weather.example/week');
+    });
+
+    it('pages through results with a cursor', () => {
+      seed();
+
+      const first = store.query({ limit: 2 });
+      expect(first.receipts.map(r => r.amountRaw)).toEqual(['300000', '2000000']);
+      expect(first.total).toBe(5);
+
+      // A receipt added between pages doesn't shift the next page
+      store.createReceipt({ url: 'https://late.example', amount: '1', amountRaw: '1000000', currency: 'USDC', network: 'base', recipient: '0xAAAA' });
+      const second = store.query({ limit: 2, cursor: first.nextCursor });
+      expect(second.receipts.map(r => r.amountRaw)).toEqual(['250000', '500000']);
+
+      const last = store.query({ limit: 2, cursor: second.nextCursor });
+      expect(last.receipts.map(r => r.amountRaw)).toEqual(['100000']);
+      expect(last.nextCursor).toBeUndefined();
+      expect(store.query({ order: 'asc', limit: 1 }).receipts[0].amountRaw).toBe('100000');
+    });
+
+    it('rejects an unknown cursor', () => {
+      seed();
+      expect(() => store.query({ cursor: 'nope' })).toThrow('Unknown cursor "nope"');
+    });
+  });
+
+  describe('aggregate', () => {
+    beforeEach(() => {
+      const add = (timestamp: string, url: string, amountRaw: string, recipient = '0xAAAA', status: PaymentReceipt['status'] = 'success') => {
+        const receipt = store.createReceipt({ url, amount: formatAtomic(BigInt(amountRaw)), amountRaw, currency: 'USDC', network: 'base', recipient, status });
+        store.updateReceipt(receipt.id, { timestamp });
+      };
+      add('2026-01-01T10:00:00.000Z', 'https://a.example/x', '100000');
+      add('2026-01-01T11:00:00.000Z', 'https://b.example/x', '200000', '0xBBBB');
+      add('2026-01-02T10:00:00.000Z', 'https://a.example/y', '300000');
+      add('2026-01-02T11:00:00.000Z', 'https://a.example/y', '9000000', '0xAAAA', 'blocked');
+    });
+
+    it('totals successful spending by day', () => {
+      expect(store.aggregate('day')).toEqual([
+        { key: '2026-01-01', total: 0.3, totalRaw: '300000', count: 2 },
+        { key: '2026-01-02', total: 0.3, totalRaw: '300000', count: 1 },
+      ]);
+    });
+
+    it('totals by recipient and host, largest first', () => {
+      expect(store.aggregate('recipient').map(g => [g.key, g.total])).toEqual([['0xaaaa', 0.4], ['0xbbbb', 0.2]]);
+      expect(store.aggregate('host', { from: '2026-01-02' })).toEqual([
+        { key: 'a.example', total: 0.3, totalRaw: '300000', count: 1 },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPublicClient, custom, encodeAbiParameters, pad, toEventSelector } from 'viem';
+import { base } from 'viem/chains';
+import { ReceiptStore } from '../src/receipts';
+import { MemoryStorage } from '../src/storage';
+import { reconcileReceipt, reconcileReceipts } from '../src/reconcile';
+import { USDC_ADDRESSES } from '../src/config';
+
+const PAYER = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const TRANSFER = toEventSelector('Transfer(address,address,uint256)');
+
+interface Transfer {
+  from?: string;
+  to?: string;
+  value: bigint;
+  token?: string;
+}
+
+/**
+ * Public client backed by a map of transaction hash to the transaction's
+ * status and USDC transfers; unknown hashes have no receipt, and lookups
+ * of `failing` hashes fail like a rate-limited RPC
+ */
+function chain(transactions: Record<string, { status?: 'success' | 'reverted'; transfers: Transfer[] }>, failing: string[] = []) {
+  return createPublicClient({
+    chain: base,
+    transport: custom({
+      async request({ method, params }) {
+        if (method !== 'eth_getTransactionReceipt') throw new Error(`Unexpected ${method}`);
+        const [hash] = params as [string];
+        if (failing.includes(hash)) throw new Error('429 Too Many Requests');
+        const tx = transactions[hash];
+        if (!tx) return null;
+        return {
+          transactionHash: hash,
+          transactionIndex: '0x0',
+          blockHash: pad('0x1'),
+          blockNumber: '0x10',
+          from: PAYER,
+          to: USDC_ADDRESSES.base,
+          contractAddress: null,
+          cumulativeGasUsed: '0x0',
+          gasUsed: '0x0',
+          effectiveGasPrice: '0x0',
+          logsBloom: pad('0x0', { size: 256 }),
+          type: '0x2',
+          status: tx.status === 'reverted' ? '0x0' : '0x1',
+          logs: tx.transfers.map((t, i) => ({
+            address: t.token ?? USDC_ADDRESSES.base,
+            topics: [TRANSFER, pad((t.from ?? PAYER) as `0x${string}`), pad((t.to ?? RECIPIENT) as `0x${string}`)],
+            data: encodeAbiParameters([{ type: 'uint256' }], [t.value]),
+            blockHash: pad('0x1'),
+            blockNumber: '0x10',
+            transactionHash: hash,
+            transactionIndex: '0x0',
+            logIndex: `0x${i.toString(16)}`,
+            removed: false,
+          })),
+        };
+      },
+    }, { retryCount: 0 }),
+  });
+}
+
+function hash(n: number) {
+  return pad(`0x${n.toString(16)}`);
+}
+
+describe('Reconciliation', () => {
+  let store: ReceiptStore;
+
+  function paid(txHash?: string) {
+    const receipt = store.createReceipt({
+      url: 'https://api.example.com/data',
+      amount: '0.100000',
+      amountRaw: '100000',
+      currency: 'USDC',
+      asset: USDC_ADDRESSES.base,
+      network: 'base',
+      recipient: RECIPIENT,
+    });
+    return store.updateReceipt(receipt.id, { status: 'success', txHash })!;
+  }
+
+  beforeEach(() => {
+    store = new ReceiptStore(new MemoryStorage());
+  });
+
+  it('confirms a transaction that paid what policy approved', async () => {
+    const client = chain({ [hash(1)]: { transfers: [{ value: 100000n }] } });
+    const result = await reconcileReceipt(paid(hash(1)), client, { payer: PAYER });
+
+    expect(result).toMatchObject({ status: 'confirmed', chargedRaw: '100000', blockNumber: 16n, discrepancies: [] });
+  });
+
+  it('reports a server that charged more than policy approved', async () => {
+    const client = chain({ [hash(1)]: { transfers: [{ value: 150000n }] } });
+    const result = await reconcileReceipt(paid(hash(1)), client);
+
+    expect(result.status).toBe('mismatch');
+    expect(result.discrepancies).toEqual(['Server charged 0.150000 USDC but policy approved 0.100000 USDC']);
+  });
+
+  it('reports transfers to someone else, from another wallet, or of another token', async () => {
+    const other = '0x3333333333333333333333333333333333333333';
+    const client = chain({
+      [hash(1)]: { transfers: [{ value: 100000n, to: other }] },
+      [hash(2)]: { transfers: [{ value: 100000n, from: other }] },
+      [hash(3)]: { transfers: [{ value: 100000n, token: other }] },
+      [hash(4)]: { status: 'reverted', transfers: [] },
+    });
+
+    const results = await Promise.all([1, 2, 3, 4].map(n => reconcileReceipt(paid(hash(n)), client, { payer: PAYER })));
+
+    expect(results.map(r => r.status)).toEqual(['mismatch', 'mismatch', 'mismatch', 'mismatch']);
+    expect(results[0].discrepancies[0]).toContain('not the recipient');
+    expect(results[1].discrepancies[0]).toContain('not the wallet');
+    expect(results[2].discrepancies[0]).toBe('Transaction has no USDC transfer');
+    expect(results[3].discrepancies[0]).toBe('Transaction reverted');
+  });
+
+  it('reports missing transactions', async () => {
+    const client = chain({});
+
+    expect((await reconcileReceipt(paid(hash(9)), client)).status).toBe('not_found');
+    expect((await reconcileReceipt(paid(), client)).discrepancies).toEqual(['No transaction hash was recorded']);
+  });
+
+  it('records results on receipts and skips confirmed ones next time', async () => {
+    const good = paid(hash(1));
+    const bad = paid(hash(2));
+    store.createReceipt({ url: 'https://x.example', amount: '1', amountRaw: '1000000', currency: 'USDC', network: 'base', recipient: RECIPIENT });
+    const client = chain({ [hash(1)]: { transfers: [{ value: 100000n }] } });
+
+    const report = await reconcileReceipts(store, client, { payer: PAYER });
+    expect(report).toMatchObject({ checked: 2, confirmed: 1, mismatch: 0, notFound: 1 });
+    expect(report.discrepancies.map(r => r.receiptId)).toEqual([bad.id]);
+    expect(store.getById(good.id)!.reconciliation).toMatchObject({ status: 'confirmed', chargedRaw: '100000', blockNumber: '16' });
+    expect(store.getById(bad.id)!.reconciliation!.status).toBe('not_found');
+
+    const again = await reconcileReceipts(store, () => client);
+    expect(again.results.map(r => r.receiptId)).toEqual([bad.id]);
+    expect((await reconcileReceipts(store, client, { recheck: true })).checked).toBe(2);
+  });
+
+  it('reports a failed lookup and goes on with the other receipts', async () => {
+    const failed = paid(hash(1));
+    const good = paid(hash(2));
+    const client = chain({ [hash(2)]: { transfers: [{ value: 100000n }] } }, [hash(1)]);
+
+    const report = await reconcileReceipts(store, client);
+
+    expect(report).toMatchObject({ checked: 2, confirmed: 1, errors: 1, discrepancies: [] });
+    expect(report.results[0]).toMatchObject({ receiptId: failed.id, status: 'error' });
+    expect(report.results[0].discrepancies[0]).toContain('Transaction lookup failed');
+    expect(store.getById(failed.id)!.reconciliation).toBeUndefined();
+    expect(store.getById(good.id)!.reconciliation!.status).toBe('confirmed');
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePaymentOptions,
+  selectRequirement,
+  resolveNetwork,
+  parseAssetAddress,
+  decodePaymentRequired,
+} from '../src/requirements';
+import { USDC_ADDRESSES } from '../src/config';
+import { EURC_ADDRESSES, registerAsset } from '../src/assets';
+
+const PAY_TO = '0x209693Bc6aFC5C8A1C698b873e6C96E0a6ADa83c';
+
+function requirement(overrides: Record<string, unknown> = {}) {
+  return {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    amount: '10000',
+    asset: USDC_ADDRESSES.base,
+    payTo: PAY_TO,
+    maxTimeoutSeconds: 300,
+    extra: { name: 'USD Coin', version: '2' },
+    ...overrides,
+  };
+}
+
+describe('Requirement selection', () => {
+  describe('resolveNetwork', () => {
+    it('resolves CAIP-2 ids', () => {
+      expect(resolveNetwork('eip155:8453')).toBe('base');
+      expect(resolveNetwork('eip155:84532')).toBe('baseSepolia');
+    });
+
+    it('resolves legacy v1 names', () => {
+      expect(resolveNetwork('base')).toBe('base');
+      expect(resolveNetwork('base-sepolia')).toBe('baseSepolia');
+    });
+
+    it('returns undefined for unknown networks', () => {
+      expect(resolveNetwork('solana:mainnet')).toBeUndefined();
+    });
+  });
+
+  describe('parseAssetAddress', () => {
+    it('extracts the address from a CAIP-19 asset id', () => {
+      expect(parseAssetAddress(`eip155:84532/erc20:${USDC_ADDRESSES.baseSepolia}`))
+        .toBe(USDC_ADDRESSES.baseSepolia);
+    });
+
+    it('passes plain addresses through', () => {
+      expect(parseAssetAddress(USDC_ADDRESSES.base)).toBe(USDC_ADDRESSES.base);
+    });
+  });
+
+  describe('parsePaymentOptions', () => {
+    it('parses every entry of a v2 accepts array', () => {
+      const options = parsePaymentOptions({
+        x402Version: 2,
+        accepts: [requirement(), requirement({ network: 'eip155:10', asset: USDC_ADDRESSES.optimism })],
+      });
+      expect(options).toHaveLength(2);
+      expect(options[0].network).toBe('base');
+      expect(options[0].amount).toBe(0.01);
+      expect(options[1].network).toBe('optimism');
+    });
+
+    it('reads maxAmountRequired from v1-style requirements', () => {
+      const [option] = parsePaymentOptions({
+        accepts: [requirement({ amount: undefined, maxAmountRequired: '250000' })],
+      });
+      expect(option.amountRaw).toBe('250000');
+      expect(option.amount).toBe(0.25);
+    });
+
+    it('handles a legacy top-level requirement', () => {
+      const [option] = parsePaymentOptions(requirement({ amount: '5000' }));
+      expect(option.amountRaw).toBe('5000');
+      expect(option.payTo).toBe(PAY_TO);
+    });
+
+    it('decodes the mock server header format', () => {
+      const header = Buffer.from(JSON.stringify({
+        x402Version: 2,
+        accepts: [requirement({
+          network: 'eip155:84532',
+          asset: `eip155:84532/erc20:${USDC_ADDRESSES.baseSepolia}`,
+        })],
+      })).toString('base64');
+      const [option] = parsePaymentOptions(decodePaymentRequired(header));
+      expect(option.network).toBe('baseSepolia');
+      expect(option.asset).toBe(USDC_ADDRESSES.baseSepolia);
+    });
+  });
+
+  describe('selectRequirement', () => {
+    it('picks the cheapest supported option', () => {
+      const options = parsePaymentOptions({
+        accepts: [
+          requirement({ amount: '30000' }),
+          requirement({ amount: '10000', network: 'eip155:42161', asset: USDC_ADDRESSES.arbitrum }),
+          requirement({ amount: '20000' }),
+        ],
+      });
+      const { selected, candidates } = selectRequirement(options);
+      expect(selected?.amountRaw).toBe('10000');
+      expect(candidates.map(c => c.amountRaw)).toEqual(['10000', '20000', '30000']);
+    });
+
+    it('filters out networks the wallet does not support', () => {
+      const options = parsePaymentOptions({
+        accepts: [
+          requirement({ amount: '1000', network: 'eip155:1', asset: USDC_ADDRESSES.ethereum }),
+          requirement({ amount: '9000' }),
+        ],
+      });
+      const { selected, rejected } = selectRequirement(options, { networks: ['base'] });
+      expect(selected?.network).toBe('base');
+      expect(rejected[0].reason).toContain('Unsupported network');
+      expect(rejected[0].policy).toBe(false);
+    });
+
+    it('filters out unknown assets and schemes', () => {
+      const options = parsePaymentOptions({
+        accepts: [
+          requirement({ amount: '1000', asset: '0x0000000000000000000000000000000000000001' }),
+          requirement({ amount: '2000', scheme: 'upto' }),
+        ],
+      });
+      const { selected, rejected } = selectRequirement(options);
+      expect(selected).toBeNull();
+      expect(rejected.map(r => r.reason)).toEqual([
+        expect.stringContaining('Unsupported asset'),
+        expect.stringContaining('Unsupported scheme'),
+      ]);
+    });
+
+    it('applies the policy check to each option', () => {
+      const options = parsePaymentOptions({
+        accepts: [
+          requirement({ amount: '5000000' }),
+          requirement({ amount: '500000', payTo: '0xBlocked' }),
+          requirement({ amount: '900000' }),
+        ],
+      });
+      const { selected, rejected } = selectRequirement(options, {
+        check: (o) => o.payTo === '0xBlocked'
+          ? { allowed: false, reason: 'Recipient 0xBlocked is blocked' }
+          : o.amount > 1 ? { allowed: false, reason: 'too expensive' } : { allowed: true },
+      });
+      expect(selected?.amountRaw).toBe('900000');
+      expect(rejected.every(r => r.policy)).toBe(true);
+    });
+
+    it('uses a custom selector', () => {
+      const options = parsePaymentOptions({
+        accepts: [
+          requirement({ amount: '1000', network: 'eip155:1', asset: USDC_ADDRESSES.ethereum }),
+          requirement({ amount: '2000' }),
+        ],
+      });
+      const { selected } = selectRequirement(options, {
+        selector: (candidates) => candidates.find(c => c.network === 'base'),
+      });
+      expect(selected?.amountRaw).toBe('2000');
+    });
+
+    it('accepts registered non-USDC assets', () => {
+      const options = parsePaymentOptions({
+        accepts: [requirement({ amount: '250000', asset: EURC_ADDRESSES.base })],
+      });
+      const { selected } = selectRequirement(options);
+      expect(selected?.symbol).toBe('EURC');
+      expect(selected?.amount).toBe(0.25);
+    });
+
+    it('reads amounts with the asset decimals', () => {
+      const DAI = '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb';
+      registerAsset({ symbol: 'DAI', name: 'Dai', network: 'base', address: DAI, decimals: 18, peggedTo: 'USD' });
+      const options = parsePaymentOptions({
+        accepts: [
+          requirement({ amount: '20000' }),
+          requirement({ amount: '10000000000000000', asset: DAI }),
+        ],
+      });
+      expect(options[1].amount).toBe(0.01);
+
+      // 0.01 DAI is cheaper than 0.02 USDC once both are normalized
+      const { selected } = selectRequirement(options);
+      expect(selected?.symbol).toBe('DAI');
+    });
+
+    it('sorts by a custom value, with unvalued options last', () => {
+      const options = parsePaymentOptions({
+        accepts: [
+          requirement({ amount: '1000', asset: EURC_ADDRESSES.base }),
+          requirement({ amount: '3000' }),
+          requirement({ amount: '2000' }),
+        ],
+      });
+      const { candidates } = selectRequirement(options, {
+        value: (o) => o.symbol === 'USDC' ? BigInt(o.amountRaw) : undefined,
+      });
+      expect(candidates.map(c => c.amountRaw)).toEqual(['2000', '3000', '1000']);
+    });
+
+    it('returns null when the selector declines', () => {
+      const options = parsePaymentOptions({ accepts: [requirement()] });
+      const { selected, candidates } = selectRequirement(options, { selector: () => undefined });
+      expect(selected).toBeNull();
+      expect(candidates).toHaveLength(1);
+    });
+  });
+});
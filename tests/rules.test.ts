@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { compilePolicy, evaluatePolicy, matchConditions, RuleLedger, RulePayment } from '../src/rules';
+import { PaymentPolicy } from '../src/config';
+import { toAtomic } from '../src/money';
+
+// Wednesday 2026-01-14 12:00 UTC
+const WEDNESDAY_NOON = Date.UTC(2026, 0, 14, 12);
+const SATURDAY_NOON = Date.UTC(2026, 0, 17, 12);
+
+function payment(amount: number, overrides: Partial<RulePayment> = {}): RulePayment {
+  return {
+    timestamp: WEDNESDAY_NOON,
+    usd: toAtomic(amount),
+    assetRaw: toAtomic(amount),
+    symbol: 'USDC',
+    decimals: 6,
+    recipient: '0xPartner',
+    ...overrides,
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ledger(settled: RulePayment[] = []): RuleLedger {
+  const total = settled.reduce((sum, p) => sum + p.usd, 0n);
+  return {
+    settled,
+    pending: [],
+    inPeriod: () => true,
+    total: () => total,
+    expiresAt: (timestamp) => timestamp + DAY_MS,
+  };
+}
+
+describe('Policy rules', () => {
+  describe('matchConditions', () => {
+    it('requires every condition to hold', () => {
+      const conditions = { recipients: ['0xpartner'], maxAmount: 5 };
+      expect(matchConditions(conditions, payment(1))).toBe(true);
+      expect(matchConditions(conditions, payment(6))).toBe(false);
+      expect(matchConditions(conditions, payment(1, { recipient: '0xOther' }))).toBe(false);
+    });
+
+    it('matches days and hours in the policy timezone', () => {
+      expect(matchConditions({ days: ['wed'] }, payment(1))).toBe(true);
+      expect(matchConditions({ days: ['mon', 'tue', 'wed', 'thu', 'fri'] }, payment(1, { timestamp: SATURDAY_NOON }))).toBe(false);
+      expect(matchConditions({ hours: { from: 9, to: 17 } }, payment(1))).toBe(true);
+      // 12:00 UTC is 21:00 in Tokyo
+      expect(matchConditions({ hours: { from: 9, to: 17 } }, payment(1), 'Asia/Tokyo')).toBe(false);
+      expect(matchConditions({ hours: { from: 20, to: 6 } }, payment(1), 'Asia/Tokyo')).toBe(true);
+    });
+
+    it('is undefined when the payment lacks what a condition needs', () => {
+      expect(matchConditions({ domains: ['example.com'] }, payment(1))).toBeUndefined();
+      expect(matchConditions({ networks: ['base'] }, payment(1))).toBeUndefined();
+      expect(matchConditions({ domains: ['example.com'] }, payment(1, { url: 'https://api.example.com/x' }))).toBe(true);
+    });
+
+    it('matches tags', () => {
+      expect(matchConditions({ tags: ['research'] }, payment(1, { tags: ['research', 'daily'] }))).toBe(true);
+      expect(matchConditions({ tags: ['research'] }, payment(1))).toBe(false);
+    });
+  });
+
+  describe('compilePolicy', () => {
+    it('compiles policy fields in their check order', () => {
+      const policy: PaymentPolicy = {
+        maxPerTransaction: 1,
+        dailyLimit: 10,
+        maxTransactionsPerHour: 60,
+        blockedDomains: ['sketchy.io'],
+        urlRules: [{ name: 'weather', domain: 'weather.example', maxPerRequest: 0.01 }],
+        approvedRecipients: ['0xA'],
+      };
+      expect(compilePolicy(policy).map(r => r.id)).toEqual([
+        'maxPerTransaction',
+        'sketchy.io',
+        'weather',
+        'dailyLimit',
+        'maxTransactionsPerHour',
+        'approvedRecipients',
+      ]);
+    });
+  });
+
+  describe('evaluatePolicy', () => {
+    const policy: PaymentPolicy = {
+      maxPerTransaction: 10,
+      dailyLimit: 50,
+      approvedRecipients: ['0xTrusted'],
+      rules: [
+        { id: 'partner-weekdays', effect: 'allow', when: { recipients: ['0xPartner'], days: ['mon', 'tue', 'wed', 'thu', 'fri'] } },
+        { id: 'partner-cap', effect: 'limit', when: { recipients: ['0xPartner'] }, dailyLimit: 5 },
+      ],
+    };
+
+    it('allows up to $5 to a recipient on weekdays only', () => {
+      expect(evaluatePolicy(policy, payment(4), ledger()).allowed).toBe(true);
+
+      const weekend = evaluatePolicy(policy, payment(4, { timestamp: SATURDAY_NOON }), ledger());
+      expect(weekend).toMatchObject({ allowed: false, rule: 'approvedRecipients' });
+
+      const overCap = evaluatePolicy(policy, payment(2), ledger([payment(4)]));
+      expect(overCap).toMatchObject({
+        allowed: false,
+        rule: 'partner-cap',
+        reason: 'Rule "partner-cap": payment would exceed daily limit. Current: $4.00, Limit: $5.00',
+      });
+    });
+
+    it('lists every rule evaluated', () => {
+      const decision = evaluatePolicy(policy, payment(4), ledger());
+      expect(decision.evaluated).toEqual([
+        { rule: 'partner-weekdays', effect: 'allow', source: 'rules', outcome: 'allowed' },
+        { rule: 'partner-cap', effect: 'limit', source: 'rules', outcome: 'passed' },
+        { rule: 'maxPerTransaction', effect: 'limit', source: 'policy', outcome: 'passed' },
+        { rule: 'dailyLimit', effect: 'limit', source: 'policy', outcome: 'passed' },
+        { rule: 'approvedRecipients', effect: 'deny', source: 'policy', outcome: 'skipped' },
+      ]);
+    });
+
+    it('reports the first failure and keeps evaluating', () => {
+      const decision = evaluatePolicy({ maxPerTransaction: 1, dailyLimit: 2 }, payment(3), ledger());
+      expect(decision.rule).toBe('maxPerTransaction');
+      expect(decision.evaluated!.map(e => e.outcome)).toEqual(['failed', 'failed']);
+    });
+
+    it('gives a code, limit and usage for limit blocks', () => {
+      const decision = evaluatePolicy(policy, payment(2), ledger([payment(4)]));
+      expect(decision).toMatchObject({ code: 'DAILY_LIMIT', limit: 5, current: 4 });
+      expect(evaluatePolicy(policy, payment(11, { recipient: '0xTrusted' }), ledger())).toMatchObject({ code: 'MAX_PER_TRANSACTION', limit: 10 });
+      expect(evaluatePolicy(policy, payment(1, { recipient: '0xStranger' }), ledger()).code).toBe('RECIPIENT_NOT_APPROVED');
+    });
+
+    it('retries when enough spending leaves the window', () => {
+      const spent = [
+        payment(1, { timestamp: WEDNESDAY_NOON - 3000 }),
+        payment(1, { timestamp: WEDNESDAY_NOON - 2000 }),
+        payment(2.5, { timestamp: WEDNESDAY_NOON - 1000 }),
+      ];
+      // $4.50 spent, $2 more needs the two oldest payments to expire
+      const decision = evaluatePolicy(policy, payment(2), ledger(spent));
+      expect(decision.retryAfter).toBe(WEDNESDAY_NOON - 2000 + DAY_MS);
+      // A payment bigger than the limit never fits
+      expect(evaluatePolicy({ dailyLimit: 1 }, payment(2), ledger()).retryAfter).toBeUndefined();
+    });
+
+    it('uses deny reasons', () => {
+      const decision = evaluatePolicy({
+        rules: [{ id: 'night', effect: 'deny', when: { hours: { from: 0, to: 6 } }, reason: 'No payments overnight' }],
+      }, payment(1, { timestamp: Date.UTC(2026, 0, 14, 3) }), ledger());
+      expect(decision).toMatchObject({ allowed: false, rule: 'night', reason: 'No payments overnight', code: 'RULE_DENIED' });
+    });
+
+    it('applies per-group limits to each group separately', () => {
+      const perDomain: PaymentPolicy = {
+        rules: [{ id: 'per-domain', effect: 'limit', per: 'domain', dailyLimit: 1 }],
+      };
+      const spent = [payment(0.9, { url: 'https://a.example/x' })];
+      expect(evaluatePolicy(perDomain, payment(0.5, { url: 'https://a.example/y' }), ledger(spent)).allowed).toBe(false);
+      expect(evaluatePolicy(perDomain, payment(0.5, { url: 'https://b.example/y' }), ledger(spent)).allowed).toBe(true);
+    });
+  });
+});
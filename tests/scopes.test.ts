@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ScopeRegistry } from '../src/scopes';
+import { MemoryStorage } from '../src/storage';
+import { PolicyValidationError } from '../src/policy-file';
+
+describe('ScopeRegistry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('creates scopes with their own spending state', () => {
+    const scopes = new ScopeRegistry(new MemoryStorage());
+    const a = scopes.create({ name: 'a', limits: { dailyLimit: 5 } });
+    const b = scopes.create({ name: 'b', limits: { dailyLimit: 5 } });
+
+    scopes.enforcer(a).recordPayment(2, '0xRecipient');
+
+    expect(scopes.enforcer(a).getStatus().daily.spent).toBe(2);
+    expect(scopes.enforcer(b).getStatus().daily.spent).toBe(0);
+    expect(scopes.list().map(s => s.name)).toEqual(['a', 'b']);
+  });
+
+  it('returns the active scope with a name again, with new limits', () => {
+    const scopes = new ScopeRegistry(new MemoryStorage());
+    const first = scopes.create({ name: 'task', limits: { dailyLimit: 5 }, ttl: 60_000 });
+    const again = scopes.create({ name: 'task', limits: { dailyLimit: 2 }, ttl: 120_000 });
+
+    expect(again.id).toBe(first.id);
+    expect(again.expiresAt).toBe(first.expiresAt);
+    expect(scopes.enforcer(again).getPolicy().dailyLimit).toBe(2);
+    expect(() => scopes.create({ name: 'task', limits: {}, parent: 'other' })).toThrow('already exists at the top level');
+  });
+
+  it('lists the chain of parents outermost first', () => {
+    const scopes = new ScopeRegistry(new MemoryStorage());
+    scopes.create({ name: 'team', limits: { dailyLimit: 10 } });
+    scopes.create({ name: 'agent', limits: { dailyLimit: 5 }, parent: 'team' });
+    scopes.create({ name: 'task', limits: { dailyLimit: 1 }, parent: 'agent' });
+
+    expect(scopes.chain('task')!.map(s => s.name)).toEqual(['team', 'agent', 'task']);
+    expect(scopes.descendants('agent')).toEqual(['agent', 'task']);
+    expect(() => scopes.create({ name: 'orphan', limits: {}, parent: 'missing' })).toThrow('Parent scope "missing" does not exist');
+  });
+
+  it('expires scopes after their ttl, never later than their parent', () => {
+    const now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+    const scopes = new ScopeRegistry(new MemoryStorage());
+    const parent = scopes.create({ name: 'agent', limits: {}, ttl: 60_000 });
+    const child = scopes.create({ name: 'task', limits: {}, ttl: 120_000, parent: 'agent' });
+    expect(child.expiresAt).toBe(parent.expiresAt);
+
+    clock.mockReturnValue(now + 60_000);
+
+    expect(scopes.get('agent')).toBeUndefined();
+    expect(scopes.chain('task')).toBeUndefined();
+    expect(scopes.list()).toEqual([]);
+  });
+
+  it('closes a scope and the scopes under it', () => {
+    const scopes = new ScopeRegistry(new MemoryStorage());
+    scopes.create({ name: 'agent', limits: {} });
+    scopes.create({ name: 'task', limits: {}, parent: 'agent' });
+    scopes.create({ name: 'other', limits: {} });
+
+    expect(scopes.close('agent')).toBe(true);
+    expect(scopes.close('agent')).toBe(false);
+    expect(scopes.list().map(s => s.name)).toEqual(['other']);
+  });
+
+  it('deletes the spending state of closed and expired scopes', () => {
+    const now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+    const storage = new MemoryStorage();
+    const scopes = new ScopeRegistry(storage);
+    const agent = scopes.create({ name: 'agent', limits: {} });
+    const task = scopes.create({ name: 'task', limits: {}, parent: 'agent' });
+    const job = scopes.create({ name: 'job', limits: {}, ttl: 60_000 });
+    for (const scope of [agent, task, job]) scopes.enforcer(scope).recordPayment(1, '0xRecipient');
+
+    scopes.close('agent');
+    expect(storage.readDocument(`spending-scope-${agent.id}`)).toBeUndefined();
+    expect(storage.readDocument(`spending-scope-${task.id}`)).toBeUndefined();
+    expect(storage.readDocument(`spending-scope-${job.id}`)).toBeDefined();
+
+    clock.mockReturnValue(now + 60_000);
+    scopes.create({ name: 'next', limits: {} });
+    expect(storage.readDocument(`spending-scope-${job.id}`)).toBeUndefined();
+  });
+
+  it('starts a scope created again after it expired from zero', () => {
+    const scopes = new ScopeRegistry(new MemoryStorage());
+    const first = scopes.create({ name: 'task', limits: { dailyLimit: 1 } });
+    scopes.enforcer(first).recordPayment(1, '0xRecipient');
+    scopes.close('task');
+
+    const second = scopes.create({ name: 'task', limits: { dailyLimit: 1 } });
+    expect(scopes.enforcer(second).getStatus().daily.spent).toBe(0);
+  });
+
+  it('validates scope options', () => {
+    const scopes = new ScopeRegistry(new MemoryStorage());
+    expect(() => scopes.create({ name: '', limits: {} })).toThrow('Scope name must be a non-empty string');
+    expect(() => scopes.create({ name: 'a', limits: {}, ttl: 0 })).toThrow('Scope ttl must be a positive number');
+    expect(() => scopes.create({ name: 'a', limits: { dailyLimit: -1 } })).toThrow(PolicyValidationError);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import {
+  MemoryStorage,
+  JsonFileStorage,
+  JsonlStorage,
+  SqliteStorage,
+  StorageAdapter,
+  createStorage,
+} from '../src/storage';
+import { PolicyEnforcer } from '../src/policy';
+import { ReceiptStore } from '../src/receipts';
+
+const TEST_DIR = './test-storage';
+
+let hasSqlite = true;
+try {
+  require('node:sqlite');
+} catch {
+  hasSqlite = false;
+}
+
+const backends: [string, () => StorageAdapter][] = [
+  ['MemoryStorage', () => new MemoryStorage()],
+  ['JsonFileStorage', () => new JsonFileStorage(TEST_DIR)],
+  ['JsonlStorage', () => new JsonlStorage(TEST_DIR)],
+];
+if (hasSqlite) {
+  backends.push(['SqliteStorage', () => new SqliteStorage(`${TEST_DIR}/state.db`)]);
+}
+
+describe('Storage backends', () => {
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe.each(backends)('%s', (_name, create) => {
+    let storage: StorageAdapter;
+
+    beforeEach(() => {
+      storage = create();
+    });
+
+    afterEach(() => {
+      storage.close?.();
+    });
+
+    it('returns undefined for a missing document', () => {
+      expect(storage.readDocument('missing')).toBeUndefined();
+    });
+
+    it('updates documents read-modify-write', () => {
+      storage.updateDocument<{ n: number }>('counter', c => ({ n: (c?.n ?? 0) + 1 }));
+      storage.updateDocument<{ n: number }>('counter', c => ({ n: (c?.n ?? 0) + 1 }));
+      expect(storage.readDocument('counter')).toEqual({ n: 2 });
+    });
+
+    it('leaves the document unchanged when the update throws', () => {
+      storage.updateDocument('doc', () => ({ v: 1 }));
+      expect(() => storage.updateDocument('doc', () => {
+        throw new Error('abort');
+      })).toThrow('abort');
+      expect(storage.readDocument('doc')).toEqual({ v: 1 });
+    });
+
+    it('deletes documents', () => {
+      storage.updateDocument('doc', () => ({ v: 1 }));
+      storage.deleteDocument!('doc');
+      storage.deleteDocument!('missing');
+      expect(storage.readDocument('doc')).toBeUndefined();
+    });
+
+    it('keeps records in insertion order and replaces by id', () => {
+      storage.putRecord('log', { id: 'a', v: 1 });
+      storage.putRecord('log', { id: 'b', v: 2 });
+      storage.putRecord('log', { id: 'a', v: 3 });
+      expect(storage.readRecords('log')).toEqual([{ id: 'a', v: 3 }, { id: 'b', v: 2 }]);
+    });
+
+    it('deletes records by id', () => {
+      storage.putRecord('log', { id: 'a' });
+      storage.putRecord('log', { id: 'b' });
+      storage.putRecord('log', { id: 'c' });
+      storage.deleteRecords!('log', ['a', 'c', 'missing']);
+      expect(storage.readRecords('log')).toEqual([{ id: 'b' }]);
+    });
+
+    it('appends records after existing ones', () => {
+      storage.putRecord('log', { id: 'a' });
+      storage.appendRecord!('log', { id: 'b' });
+      storage.appendRecord!('log', { id: 'c' });
+      storage.deleteRecords!('log', ['b']);
+      expect(storage.readRecords('log')).toEqual([{ id: 'a' }, { id: 'c' }]);
+    });
+
+    it('changes the records version only when records change', () => {
+      const initial = storage.recordsVersion!('log');
+      storage.putRecord('log', { id: 'a', v: 1 });
+      const written = storage.recordsVersion!('log');
+      expect(written).not.toBe(initial);
+      expect(storage.recordsVersion!('log')).toBe(written);
+
+      storage.putRecord('log', { id: 'a', v: 2 });
+      expect(storage.recordsVersion!('log')).not.toBe(written);
+    });
+
+    it('shares spending limits between enforcers on the same storage', () => {
+      const policy = { maxPerTransaction: 1, dailyLimit: 1 };
+      const agentA = new PolicyEnforcer(policy, storage);
+      const agentB = new PolicyEnforcer(policy, storage);
+
+      expect(agentA.reserve(0.75, '0xR').allowed).toBe(true);
+      expect(agentB.reserve(0.50, '0xR').allowed).toBe(false);
+      expect(agentB.reserve(0.25, '0xR').allowed).toBe(true);
+    });
+
+    it('shares receipts between stores on the same storage', () => {
+      const storeA = new ReceiptStore(storage);
+      const storeB = new ReceiptStore(storage);
+      const receipt = storeA.createReceipt({
+        url: 'https://api.example.com',
+        amount: '0.01',
+        amountRaw: '10000',
+        currency: 'USDC',
+        network: 'base',
+        recipient: '0xR',
+      });
+      storeB.updateReceipt(receipt.id, { status: 'success' });
+      expect(storeA.getAll()).toEqual([{ ...receipt, status: 'success' }]);
+    });
+  });
+
+  describe('JsonFileStorage', () => {
+    it('reads receipts.json files written as a JSON array', () => {
+      mkdirSync(TEST_DIR, { recursive: true });
+      writeFileSync(`${TEST_DIR}/receipts.json`, JSON.stringify([{ id: 'old', status: 'success' }]));
+      expect(new JsonFileStorage(TEST_DIR).readRecords('receipts')).toEqual([{ id: 'old', status: 'success' }]);
+    });
+
+    it('breaks a stale lock left by a crashed process', () => {
+      mkdirSync(TEST_DIR, { recursive: true });
+      const lockPath = `${TEST_DIR}/doc.json.lock`;
+      writeFileSync(lockPath, '99999');
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(lockPath, old, old);
+
+      const storage = new JsonFileStorage(TEST_DIR);
+      storage.updateDocument('doc', () => ({ ok: true }));
+      expect(storage.readDocument('doc')).toEqual({ ok: true });
+      expect(existsSync(lockPath)).toBe(false);
+    });
+
+    it('appends records to a JSON Lines file beside the JSON array', () => {
+      mkdirSync(TEST_DIR, { recursive: true });
+      writeFileSync(`${TEST_DIR}/log.json`, JSON.stringify([{ id: '0' }]));
+      const storage = new JsonFileStorage(TEST_DIR);
+      storage.appendRecord('log', { id: '1' });
+      storage.appendRecord('log', { id: '2' });
+
+      expect(readFileSync(`${TEST_DIR}/log.json`, 'utf-8')).toBe('[{"id":"0"}]');
+      expect(readFileSync(`${TEST_DIR}/log.jsonl`, 'utf-8')).toBe('{"id":"1"}\n{"id":"2"}\n');
+      expect(storage.readRecords('log')).toEqual([{ id: '0' }, { id: '1' }, { id: '2' }]);
+    });
+
+    it('does not leave temp or lock files behind', () => {
+      const storage = new JsonFileStorage(TEST_DIR);
+      storage.updateDocument('doc', () => ({ ok: true }));
+      storage.putRecord('log', { id: 'a' });
+      expect(existsSync(`${TEST_DIR}/doc.json.lock`)).toBe(false);
+      expect(existsSync(`${TEST_DIR}/doc.json.${process.pid}.tmp`)).toBe(false);
+    });
+  });
+
+  describe('JsonlStorage', () => {
+    it('appends one line per record write', () => {
+      const storage = new JsonlStorage(TEST_DIR);
+      storage.putRecord('log', { id: 'a', v: 1 });
+      storage.putRecord('log', { id: 'a', v: 2 });
+      const lines = readFileSync(`${TEST_DIR}/log.jsonl`, 'utf-8').trim().split('\n');
+      expect(lines).toHaveLength(2);
+    });
+
+    it('skips a torn final line after a crash mid-write', () => {
+      const storage = new JsonlStorage(TEST_DIR);
+      storage.putRecord('log', { id: 'a', v: 1 });
+      appendFileSync(`${TEST_DIR}/log.jsonl`, '{"id":"b","v":');
+      expect(storage.readRecords('log')).toEqual([{ id: 'a', v: 1 }]);
+    });
+
+    it('rewrites the log with one line per record when deleting', () => {
+      const storage = new JsonlStorage(TEST_DIR);
+      storage.putRecord('log', { id: 'a', v: 1 });
+      storage.putRecord('log', { id: 'a', v: 2 });
+      storage.putRecord('log', { id: 'b', v: 1 });
+      storage.deleteRecords('log', ['b']);
+      expect(readFileSync(`${TEST_DIR}/log.jsonl`, 'utf-8')).toBe('{"id":"a","v":2}\n');
+    });
+  });
+
+  describe('createStorage', () => {
+    it('creates backends from options', () => {
+      expect(createStorage({ type: 'memory' })).toBeInstanceOf(MemoryStorage);
+      expect(createStorage({ type: 'json', dir: TEST_DIR })).toBeInstanceOf(JsonFileStorage);
+      expect(createStorage({ type: 'jsonl', dir: TEST_DIR })).toBeInstanceOf(JsonlStorage);
+    });
+
+    it.skipIf(hasSqlite)('explains that SQLite needs a newer Node', () => {
+      expect(() => createStorage({ type: 'sqlite', path: `${TEST_DIR}/x.db` })).toThrow('node:sqlite');
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getHostname, globToRegExp, matchesDomain, matchesUrlRule, ruleLabel } from '../src/url-rules';
+
+describe('URL rules', () => {
+  describe('matchesDomain', () => {
+    it('matches a domain and its subdomains', () => {
+      expect(matchesDomain('example.com', 'example.com')).toBe(true);
+      expect(matchesDomain('api.example.com', 'Example.com')).toBe(true);
+      expect(matchesDomain('badexample.com', 'example.com')).toBe(false);
+    });
+
+    it('matches only subdomains with a wildcard', () => {
+      expect(matchesDomain('api.example.com', '*.example.com')).toBe(true);
+      expect(matchesDomain('example.com', '*.example.com')).toBe(false);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('matches within a path segment with *', () => {
+      const glob = globToRegExp('https://api.example.com/v1/*');
+      expect(glob.test('https://api.example.com/v1/search')).toBe(true);
+      expect(glob.test('https://api.example.com/v1/search/deep')).toBe(false);
+    });
+
+    it('matches across segments with **', () => {
+      expect(globToRegExp('https://api.example.com/**').test('https://api.example.com/v1/a/b?q=1')).toBe(true);
+    });
+
+    it('treats regex characters literally', () => {
+      expect(globToRegExp('https://a.com/x?y=1').test('https://a.com/x?y=1')).toBe(true);
+      expect(globToRegExp('https://a.com/x?y=1').test('https://a.com/xy=1')).toBe(false);
+    });
+  });
+
+  describe('matchesUrlRule', () => {
+    it('requires every matcher to match', () => {
+      const rule = { domain: 'example.com', urlRegex: '/paid$' };
+      expect(matchesUrlRule(rule, 'https://api.example.com/paid')).toBe(true);
+      expect(matchesUrlRule(rule, 'https://api.example.com/free')).toBe(false);
+      expect(matchesUrlRule(rule, 'https://other.com/paid')).toBe(false);
+    });
+
+    it('never matches a rule without matchers', () => {
+      expect(matchesUrlRule({ maxPerRequest: 1 }, 'https://example.com')).toBe(false);
+    });
+
+    it('ignores unparseable URLs for domain rules', () => {
+      expect(getHostname('not a url')).toBeUndefined();
+      expect(matchesUrlRule({ domain: 'example.com' }, 'not a url')).toBe(false);
+    });
+  });
+
+  it('labels rules by name, then pattern', () => {
+    expect(ruleLabel({ name: 'weather', domain: 'weather.example' })).toBe('weather');
+    expect(ruleLabel({ domain: 'weather.example' })).toBe('weather.example');
+    expect(ruleLabel({ url: 'https://a.com/*', domain: 'a.com' })).toBe('https://a.com/*');
+  });
+});